@@ -0,0 +1,327 @@
+import { StegAlgorithm, AlgorithmMetrics } from '../interfaces/algorithm.interface';
+import { CoverGenerator } from '../utils/cover-generator';
+import { createSeededRandom } from '../utils/prng';
+import { AlgorithmRegistry, algorithmRegistry } from './registry';
+
+/**
+ * Cover types the benchmark can generate with CoverGenerator
+ */
+export type BenchmarkCoverType = 'noise' | 'text' | 'pattern' | 'gradient' | 'audio';
+
+const COVER_TYPES: readonly BenchmarkCoverType[] = ['noise', 'text', 'pattern', 'gradient', 'audio'];
+
+/**
+ * Options for benchmark runs
+ */
+export interface BenchmarkOptions {
+  /**
+   * Cover types to run against. Defaults to the types a registered
+   * algorithm declares in `supportedMediaTypes`, or 'noise'.
+   */
+  coverTypes?: BenchmarkCoverType[];
+  /** Cover size in bytes (default: 65536) */
+  coverSize?: number;
+  /** Timed encode/decode rounds per cover type (default: 20) */
+  rounds?: number;
+  /** Untimed rounds run first to warm up the JIT (default: 2) */
+  warmupRounds?: number;
+  /** Fraction of the cover's capacity each payload fills (default: 0.5) */
+  payloadRatio?: number;
+  /** Seed for the payload bytes, so runs are comparable (default: 'benchmark') */
+  seed?: string;
+  /** Registry used to resolve algorithm names (default: the shared registry) */
+  registry?: AlgorithmRegistry;
+}
+
+/**
+ * Latency distribution of one operation, in milliseconds
+ */
+export interface LatencyPercentiles {
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Benchmark of one algorithm on one cover type
+ */
+export interface CoverBenchmarkResult {
+  coverType: BenchmarkCoverType;
+  coverSize: number;
+  payloadSize: number;
+  /** Mean timings and throughput; capacityRatio is capacity / cover size */
+  metrics: AlgorithmMetrics;
+  encodeLatency: LatencyPercentiles;
+  decodeLatency: LatencyPercentiles;
+  /** Timed rounds that completed */
+  rounds: number;
+  /** Rounds that threw or decoded to different bytes */
+  failures: number;
+  /** Whether every round decoded to the original payload */
+  roundTripOk: boolean;
+  /** First failure, if any */
+  error?: string;
+}
+
+/**
+ * Benchmark of one algorithm across cover types
+ */
+export interface AlgorithmBenchmarkResult {
+  algorithm: string;
+  /** Means across cover types that ran (throughput is total bytes / total time) */
+  metrics: AlgorithmMetrics;
+  covers: CoverBenchmarkResult[];
+  /** Whether every round on every cover type round-tripped */
+  roundTripOk: boolean;
+}
+
+/**
+ * Benchmarking harness for steganography algorithms.
+ *
+ * Generates covers of each type with CoverGenerator, then runs timed
+ * encode/decode rounds with seeded payloads sized to a fraction of the
+ * cover's capacity. Every round checks that decoding returns the
+ * original payload. Results carry `AlgorithmMetrics` plus percentile
+ * latencies, for choosing algorithms per deployment and for catching
+ * performance regressions.
+ *
+ * @example
+ * ```typescript
+ * const benchmark = new AlgorithmBenchmark({ rounds: 50, coverTypes: ['noise', 'audio'] });
+ *
+ * const result = benchmark.run('matrix');
+ * console.log(result.metrics.encodeThroughput, result.roundTripOk);
+ *
+ * for (const r of benchmark.runAll()) {
+ *   console.log(r.algorithm, r.covers.map((c) => c.encodeLatency.p99));
+ * }
+ * ```
+ */
+export class AlgorithmBenchmark {
+  private readonly coverTypes: BenchmarkCoverType[] | undefined;
+  private readonly coverSize: number;
+  private readonly rounds: number;
+  private readonly warmupRounds: number;
+  private readonly payloadRatio: number;
+  private readonly seed: string;
+  private readonly registry: AlgorithmRegistry;
+  private readonly generator: CoverGenerator;
+
+  constructor(options: BenchmarkOptions = {}) {
+    this.coverSize = validateInteger(options.coverSize ?? 65536, 'coverSize', 64);
+    this.rounds = validateInteger(options.rounds ?? 20, 'rounds', 1);
+    this.warmupRounds = validateInteger(options.warmupRounds ?? 2, 'warmupRounds', 0);
+    this.payloadRatio = options.payloadRatio ?? 0.5;
+    if (typeof this.payloadRatio !== 'number' || !(this.payloadRatio > 0 && this.payloadRatio <= 1)) {
+      throw new Error(`Invalid payloadRatio: ${String(this.payloadRatio)} (expected 0-1, exclusive of 0)`);
+    }
+    for (const type of options.coverTypes ?? []) {
+      if (!COVER_TYPES.includes(type)) {
+        throw new Error(`Invalid cover type: ${String(type)} (expected ${COVER_TYPES.join(', ')})`);
+      }
+    }
+
+    this.coverTypes = options.coverTypes ? [...options.coverTypes] : undefined;
+    this.seed = options.seed ?? 'benchmark';
+    this.registry = options.registry ?? algorithmRegistry;
+    this.generator = new CoverGenerator({ minSize: 1, maxSize: this.coverSize });
+  }
+
+  /**
+   * Benchmark an algorithm instance, or a registered algorithm by name
+   */
+  public run(algorithm: StegAlgorithm | string): AlgorithmBenchmarkResult {
+    const instance = typeof algorithm === 'string' ? this.registry.create(algorithm) : algorithm;
+    const covers = this.resolveCoverTypes(instance.name)
+      .map((type) => this.runCover(instance, type));
+
+    const ran = covers.filter((c) => c.rounds > 0);
+    const mean = (pick: (m: AlgorithmMetrics) => number) =>
+      ran.length > 0 ? ran.reduce((sum, c) => sum + pick(c.metrics), 0) / ran.length : 0;
+
+    const bytes = ran.reduce((sum, c) => sum + c.payloadSize * c.rounds, 0);
+    const encodeMs = ran.reduce((sum, c) => sum + c.metrics.encodeTimeMs * c.rounds, 0);
+    const decodeMs = ran.reduce((sum, c) => sum + c.metrics.decodeTimeMs * c.rounds, 0);
+
+    return {
+      algorithm: instance.name,
+      metrics: {
+        encodeTimeMs: mean((m) => m.encodeTimeMs),
+        decodeTimeMs: mean((m) => m.decodeTimeMs),
+        encodeThroughput: throughput(bytes, encodeMs),
+        decodeThroughput: throughput(bytes, decodeMs),
+        capacityRatio: mean((m) => m.capacityRatio)
+      },
+      covers,
+      roundTripOk: covers.every((c) => c.roundTripOk)
+    };
+  }
+
+  /**
+   * Benchmark several registered algorithms (default: all of them)
+   */
+  public runAll(names?: string[]): AlgorithmBenchmarkResult[] {
+    return (names ?? this.registry.list().map((d) => d.name)).map((name) => this.run(name));
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private runCover(algorithm: StegAlgorithm, coverType: BenchmarkCoverType): CoverBenchmarkResult {
+    const cover = this.generateCover(coverType);
+    const capacity = algorithm.calculateCapacity(cover);
+    const payloadSize = Math.floor(capacity * this.payloadRatio);
+    const random = createSeededRandom(`${this.seed}:${algorithm.name}:${coverType}`);
+
+    const encodeTimes: number[] = [];
+    const decodeTimes: number[] = [];
+    let failures = 0;
+    let error: string | undefined;
+
+    if (payloadSize < 1) {
+      failures = this.rounds;
+      error = `Cover has no usable capacity (${capacity} bytes)`;
+    }
+
+    const total = payloadSize < 1 ? 0 : this.warmupRounds + this.rounds;
+    for (let round = 0; round < total; round++) {
+      const timed = round >= this.warmupRounds;
+      const payload = Buffer.alloc(payloadSize);
+      for (let i = 0; i < payloadSize; i++) {
+        payload[i] = Math.floor(random() * 256);
+      }
+
+      try {
+        const encodeStart = process.hrtime.bigint();
+        const encoded = algorithm.encode(payload, cover);
+        const encodeEnd = process.hrtime.bigint();
+        const decoded = algorithm.decode(encoded);
+        const decodeEnd = process.hrtime.bigint();
+
+        if (!timed) continue;
+        encodeTimes.push(Number(encodeEnd - encodeStart) / 1e6);
+        decodeTimes.push(Number(decodeEnd - encodeEnd) / 1e6);
+
+        if (!decoded.equals(payload)) {
+          failures++;
+          error ??= `Round-trip mismatch in round ${round - this.warmupRounds + 1}`;
+        }
+      } catch (err) {
+        if (!timed) continue;
+        failures++;
+        error ??= (err as Error).message;
+      }
+    }
+
+    const encodeLatency = percentiles(encodeTimes);
+    const decodeLatency = percentiles(decodeTimes);
+
+    return {
+      coverType,
+      coverSize: cover.length,
+      payloadSize,
+      metrics: {
+        encodeTimeMs: encodeLatency.mean,
+        decodeTimeMs: decodeLatency.mean,
+        encodeThroughput: throughput(payloadSize * encodeTimes.length, sum(encodeTimes)),
+        decodeThroughput: throughput(payloadSize * decodeTimes.length, sum(decodeTimes)),
+        capacityRatio: cover.length > 0 ? capacity / cover.length : 0
+      },
+      encodeLatency,
+      decodeLatency,
+      rounds: encodeTimes.length,
+      failures,
+      roundTripOk: failures === 0,
+      ...(error ? { error } : {})
+    };
+  }
+
+  /**
+   * Requested cover types, or those the registry lists for the algorithm
+   */
+  private resolveCoverTypes(name: string): BenchmarkCoverType[] {
+    if (this.coverTypes) {
+      return this.coverTypes;
+    }
+    const supported = this.registry.get(name)?.supportedMediaTypes ?? [];
+    const types = COVER_TYPES.filter((type) => supported.includes(type));
+    return types.length > 0 ? types : ['noise'];
+  }
+
+  private generateCover(type: BenchmarkCoverType): Buffer {
+    const size = this.coverSize;
+
+    switch (type) {
+      case 'noise':
+        return this.generator.generateNoise(size).data;
+      case 'text':
+        return this.generator.generateTextCover('prose', size).data;
+      case 'pattern':
+        return this.generator.generatePattern([0xAA, 0x55, 0x33, 0xCC], size).data;
+      case 'gradient':
+        return this.generator.generateGradient(size).data;
+      case 'audio':
+        return this.generator.generateAudioLike(Math.floor(size / 2)).data;
+    }
+  }
+}
+
+/**
+ * Nearest-rank percentiles of a set of timings
+ */
+function percentiles(samples: number[]): LatencyPercentiles {
+  if (samples.length === 0) {
+    return { min: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+  return {
+    min: sorted[0],
+    mean: sum(sorted) / sorted.length,
+    p50: rank(50),
+    p90: rank(90),
+    p99: rank(99),
+    max: sorted[sorted.length - 1]
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Bytes per second, or 0 when nothing was timed
+ */
+function throughput(bytes: number, ms: number): number {
+  return ms > 0 ? (bytes * 1000) / ms : 0;
+}
+
+function validateInteger(value: number, label: string, min: number): number {
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid ${label}: ${String(value)} (expected an integer >= ${min})`);
+  }
+  return value;
+}
+
+/**
+ * Factory function for the benchmarking harness
+ */
+export function createAlgorithmBenchmark(options?: BenchmarkOptions): AlgorithmBenchmark {
+  return new AlgorithmBenchmark(options);
+}
+
+/**
+ * Benchmark one algorithm with a one-off harness
+ */
+export function benchmarkAlgorithm(
+  algorithm: StegAlgorithm | string,
+  options?: BenchmarkOptions
+): AlgorithmBenchmarkResult {
+  return new AlgorithmBenchmark(options).run(algorithm);
+}
@@ -0,0 +1,355 @@
+import { StegAlgorithm, AlgorithmOptions } from '../interfaces/algorithm.interface';
+import { readRepeatedHeader, repeatedHeaderBit, resolveHeaderCopies } from '../utils/length-header';
+
+/**
+ * Header size in bits for storing payload length
+ */
+const HEADER_SIZE_BITS = 32;
+
+/**
+ * Block geometry: 8x8 samples, one cover byte each
+ */
+const BLOCK_DIM = 8;
+const BLOCK_SIZE = BLOCK_DIM * BLOCK_DIM;
+
+/**
+ * Mid-frequency coefficient positions [row, col], in embedding order.
+ * Low frequencies carry visible structure; high frequencies are the
+ * first to be lost, so the middle band balances both.
+ */
+const MID_FREQUENCY_COEFFICIENTS: ReadonlyArray<readonly [number, number]> = [
+  [1, 2], [2, 1], [2, 2], [0, 3], [3, 0], [1, 3], [3, 1], [2, 3], [3, 2]
+];
+
+/**
+ * Re-embedding passes per block before falling back to range contraction
+ */
+const MAX_EMBED_PASSES = 8;
+
+/**
+ * Range contraction attempts for blocks that clip at 0 or 255
+ */
+const MAX_CONTRACTIONS = 4;
+
+/**
+ * Single-sample steps per block when refining coefficients in integers
+ */
+const MAX_REFINE_STEPS = 256;
+
+/**
+ * Orthonormal 8-point DCT-II basis: BASIS[u][x]
+ */
+const BASIS: number[][] = Array.from({ length: BLOCK_DIM }, (_, u) =>
+  Array.from({ length: BLOCK_DIM }, (_, x) =>
+    (u === 0 ? Math.sqrt(1 / BLOCK_DIM) : Math.sqrt(2 / BLOCK_DIM)) *
+    Math.cos(((2 * x + 1) * u * Math.PI) / (2 * BLOCK_DIM))
+  )
+);
+
+/**
+ * Blockwise DCT-domain steganography algorithm.
+ *
+ * Treats the cover as consecutive 8x8 blocks of byte samples (64 bytes
+ * per block, row-major; trailing bytes are left untouched). Each bit is
+ * embedded by quantising one mid-frequency DCT coefficient with step
+ * `quantStep` and forcing the parity of the quantisation index
+ * (quantisation index modulation). A coefficient can drift by almost
+ * half a step before its bit flips, so small value perturbations that
+ * destroy raw LSB data leave the payload intact.
+ *
+ * Configuration (via `config`):
+ * - `quantStep`: quantiser step (default 24). Larger is more robust and
+ *   more visible.
+ * - `coefficientsPerBlock`: bits per block, 1-9 (default 4).
+ * - `headerCopies`: copies of the length header, read by majority vote
+ *   (odd, default 1).
+ *
+ * Capacity: floor(cover.length / 64) × coefficientsPerBlock bits,
+ * minus 32 header bits per copy.
+ *
+ * @example
+ * ```typescript
+ * const dct = new DCTAlgorithm({ config: { quantStep: 24 } });
+ * const cover = new CoverGenerator().generateGradient(4096).data;
+ *
+ * const encoded = dct.encode(Buffer.from('secret'), cover);
+ * const decoded = dct.decode(encoded);
+ * ```
+ */
+export class DCTAlgorithm implements StegAlgorithm {
+  public readonly name = 'dct';
+  private readonly quantStep: number;
+  private readonly coefficients: ReadonlyArray<readonly [number, number]>;
+  /** Copies of the length header, read by majority vote */
+  private readonly headerCopies: number;
+  /** Bits taken by all copies of the length header */
+  private readonly headerBits: number;
+
+  constructor(options?: AlgorithmOptions) {
+    const config = options?.config ?? {};
+
+    const quantStep = config.quantStep ?? 24;
+    if (typeof quantStep !== 'number' || !(quantStep >= 2)) {
+      throw new Error(`Invalid quantStep: ${String(quantStep)} (expected a number >= 2)`);
+    }
+    this.quantStep = quantStep;
+
+    const perBlock = config.coefficientsPerBlock ?? 4;
+    if (
+      typeof perBlock !== 'number' ||
+      !Number.isInteger(perBlock) ||
+      perBlock < 1 ||
+      perBlock > MID_FREQUENCY_COEFFICIENTS.length
+    ) {
+      throw new Error(
+        `Invalid coefficientsPerBlock: ${String(perBlock)} (expected 1-${MID_FREQUENCY_COEFFICIENTS.length})`
+      );
+    }
+    this.coefficients = MID_FREQUENCY_COEFFICIENTS.slice(0, perBlock);
+
+    this.headerCopies = resolveHeaderCopies(config);
+    this.headerBits = HEADER_SIZE_BITS * this.headerCopies;
+  }
+
+  /**
+   * Encode data into cover media in the DCT domain
+   */
+  public encode(data: Buffer, cover: Buffer): Buffer {
+    const capacity = this.calculateCapacity(cover);
+    if (data.length > capacity) {
+      throw new Error(
+        `Cover media too small: ${data.length} bytes exceeds capacity ${capacity}`
+      );
+    }
+
+    const result = Buffer.from(cover);
+    const totalBits = this.headerBits + data.length * 8;
+    const perBlock = this.coefficients.length;
+    const blockCount = Math.ceil(totalBits / perBlock);
+
+    for (let block = 0; block < blockCount; block++) {
+      const bits: number[] = [];
+      for (let j = 0; j < perBlock; j++) {
+        const i = block * perBlock + j;
+        if (i >= totalBits) break;
+
+        bits.push(i < this.headerBits
+          ? repeatedHeaderBit(data.length, i, HEADER_SIZE_BITS)
+          : (data[(i - this.headerBits) >> 3] >> ((i - this.headerBits) & 7)) & 1);
+      }
+
+      const offset = block * BLOCK_SIZE;
+      const pixels = this.embedBlock(result.subarray(offset, offset + BLOCK_SIZE), bits, block);
+      pixels.forEach((value, i) => { result[offset + i] = value; });
+    }
+
+    return result;
+  }
+
+  /**
+   * Decode hidden data from steganographic media
+   */
+  public decode(stegData: Buffer): Buffer {
+    const slots = this.slotCount(stegData);
+    if (slots < this.headerBits) {
+      throw new Error('Data too small to contain valid steganographic content');
+    }
+
+    const dataLength = readRepeatedHeader(
+      (i) => this.readSlot(stegData, i),
+      HEADER_SIZE_BITS,
+      this.headerCopies
+    );
+
+    if (dataLength <= 0) {
+      throw new Error('Invalid data length: zero or negative');
+    }
+
+    const maxPossibleLength = Math.floor((slots - this.headerBits) / 8);
+    if (dataLength > maxPossibleLength) {
+      throw new Error(
+        `Invalid data length: ${dataLength} exceeds maximum ${maxPossibleLength}`
+      );
+    }
+
+    const result = Buffer.alloc(dataLength);
+    for (let i = 0; i < dataLength * 8; i++) {
+      if (this.readSlot(stegData, this.headerBits + i) === 1) {
+        result[i >> 3] |= 1 << (i & 7);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Calculate how many bytes can be hidden in cover media
+   */
+  public calculateCapacity(cover: Buffer): number {
+    return Math.max(0, Math.floor((this.slotCount(cover) - this.headerBits) / 8));
+  }
+
+  /**
+   * Validate cover media suitability
+   */
+  public validateCover(cover: Buffer): boolean {
+    return this.calculateCapacity(cover) >= 1;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private slotCount(buffer: Buffer): number {
+    return Math.floor(buffer.length / BLOCK_SIZE) * this.coefficients.length;
+  }
+
+  private readSlot(stegData: Buffer, slot: number): number {
+    const perBlock = this.coefficients.length;
+    const offset = Math.floor(slot / perBlock) * BLOCK_SIZE;
+    const [u, v] = this.coefficients[slot % perBlock];
+
+    const pixels = Array.from(stegData.subarray(offset, offset + BLOCK_SIZE));
+    return this.parity(Math.round(coefficient(pixels, u, v) / this.quantStep));
+  }
+
+  /**
+   * Embed bits into one block's coefficients and return the new pixels.
+   *
+   * Rounding and clipping to 0..255 can pull coefficients off their
+   * quantisation points, so the block is re-measured and re-embedded
+   * until every coefficient sits within a quarter step of a point with
+   * the right parity. With small steps, rounding can bounce a coefficient
+   * from one side of its point to the other indefinitely; the block is
+   * then refined one sample at a time instead. Blocks saturated at 0 or
+   * 255 are contracted toward mid-grey to make room when neither
+   * converges.
+   */
+  private embedBlock(original: Buffer, bits: number[], block: number): number[] {
+    const tolerance = this.quantStep / 4;
+
+    for (let attempt = 0; attempt < MAX_CONTRACTIONS; attempt++) {
+      const scale = 1 - attempt * 0.1;
+      let pixels = Array.from(original, (p) => Math.round(128 + (p - 128) * scale));
+
+      for (let pass = 0; pass < MAX_EMBED_PASSES; pass++) {
+        const values = Float64Array.from(pixels);
+        let settled = true;
+
+        bits.forEach((bit, j) => {
+          const [u, v] = this.coefficients[j];
+          const c = coefficient(pixels, u, v);
+          const target = this.quantize(c, bit);
+
+          if (Math.abs(c - target) > tolerance || this.parity(Math.round(c / this.quantStep)) !== bit) {
+            settled = false;
+          }
+
+          const delta = target - c;
+          if (delta !== 0) {
+            for (let x = 0; x < BLOCK_DIM; x++) {
+              for (let y = 0; y < BLOCK_DIM; y++) {
+                values[x * BLOCK_DIM + y] += delta * BASIS[u][x] * BASIS[v][y];
+              }
+            }
+          }
+        });
+
+        if (settled) {
+          return pixels;
+        }
+
+        pixels = Array.from(values, (p) => Math.min(255, Math.max(0, Math.round(p))));
+      }
+
+      if (this.refineBlock(pixels, bits, tolerance)) {
+        return pixels;
+      }
+    }
+
+    throw new Error(`Unable to embed in block ${block}: coefficients do not settle`);
+  }
+
+  /**
+   * Move coefficients onto their quantisation points by changing one
+   * sample by 1 at a time, always the change that most reduces the total
+   * squared distance to the points. Works on `pixels` in place and
+   * returns whether every coefficient ends within tolerance.
+   */
+  private refineBlock(pixels: number[], bits: number[], tolerance: number): boolean {
+    const weights = bits.map((_, j) => {
+      const [u, v] = this.coefficients[j];
+      return Array.from({ length: BLOCK_SIZE }, (_, i) =>
+        BASIS[u][Math.floor(i / BLOCK_DIM)] * BASIS[v][i % BLOCK_DIM]);
+    });
+    const errors = bits.map((bit, j) => {
+      const [u, v] = this.coefficients[j];
+      const c = coefficient(pixels, u, v);
+      return this.quantize(c, bit) - c;
+    });
+
+    for (let step = 0; step < MAX_REFINE_STEPS; step++) {
+      if (errors.every((e) => Math.abs(e) <= tolerance)) {
+        return true;
+      }
+
+      let best = { gain: 0, i: -1, d: 0 };
+      for (let i = 0; i < BLOCK_SIZE; i++) {
+        for (const d of [-1, 1]) {
+          if (pixels[i] + d < 0 || pixels[i] + d > 255) continue;
+
+          // Reduction in squared error from changing sample i by d
+          const gain = errors.reduce((sum, e, j) => sum + e * e - (e - d * weights[j][i]) ** 2, 0);
+          if (gain > best.gain) {
+            best = { gain, i, d };
+          }
+        }
+      }
+
+      if (best.i === -1) {
+        return false;
+      }
+
+      pixels[best.i] += best.d;
+      errors.forEach((e, j) => { errors[j] = e - best.d * weights[j][best.i]; });
+    }
+
+    return errors.every((e) => Math.abs(e) <= tolerance);
+  }
+
+  /**
+   * Nearest quantisation point whose index parity equals the bit
+   */
+  private quantize(c: number, bit: number): number {
+    const q = this.quantStep;
+    const k = Math.round(c / q);
+    if (this.parity(k) === bit) {
+      return k * q;
+    }
+    return (c / q >= k ? k + 1 : k - 1) * q;
+  }
+
+  private parity(k: number): number {
+    return ((k % 2) + 2) % 2;
+  }
+}
+
+/**
+ * Single 2D DCT-II coefficient (u, v) of a row-major 8x8 block
+ */
+function coefficient(pixels: ArrayLike<number>, u: number, v: number): number {
+  let sum = 0;
+  for (let x = 0; x < BLOCK_DIM; x++) {
+    for (let y = 0; y < BLOCK_DIM; y++) {
+      sum += pixels[x * BLOCK_DIM + y] * BASIS[u][x] * BASIS[v][y];
+    }
+  }
+  return sum;
+}
+
+/**
+ * Factory function for DCT algorithm
+ */
+export function createDCTAlgorithm(options?: AlgorithmOptions): DCTAlgorithm {
+  return new DCTAlgorithm(options);
+}
@@ -0,0 +1,239 @@
+import { StegAlgorithm, AlgorithmOptions } from '../interfaces/algorithm.interface';
+import { packBits, unpackBits } from '../utils/bit-utils';
+import { findProtectedText, readUtf8Text, tryReadUtf8Text } from '../utils/text';
+
+/**
+ * Latin letters and Cyrillic homoglyphs that render identically in
+ * practically every font
+ */
+const FONT_SAFE_HOMOGLYPHS: Readonly<Record<string, string>> = {
+  a: '\u0430', c: '\u0441', e: '\u0435', o: '\u043E', p: '\u0440', x: '\u0445', y: '\u0443',
+  A: '\u0410', B: '\u0412', C: '\u0421', E: '\u0415', H: '\u041D', K: '\u041A', M: '\u041C',
+  O: '\u041E', P: '\u0420', T: '\u0422', X: '\u0425'
+};
+
+/**
+ * The full curated table: the font-safe pairs plus Cyrillic and Greek
+ * homoglyphs that can differ slightly in some fonts (dot shape, stroke
+ * width or height)
+ */
+const HOMOGLYPHS: Readonly<Record<string, string>> = {
+  ...FONT_SAFE_HOMOGLYPHS,
+  d: '\u0501', h: '\u04BB', i: '\u0456', j: '\u0458', q: '\u051B', s: '\u0455', w: '\u051D',
+  I: '\u0406', J: '\u0408', N: '\u039D', S: '\u0405', Y: '\u03A5', Z: '\u0396'
+};
+
+/** Payload length header, in bytes */
+const LENGTH_HEADER_SIZE = 4;
+
+/**
+ * A confusables table in both directions: Latin letters read as 0,
+ * their homoglyphs as 1
+ */
+interface Table {
+  toHomoglyph: ReadonlyMap<string, string>;
+  toLatin: ReadonlyMap<string, string>;
+}
+
+const FONT_SAFE_TABLE = buildTable(FONT_SAFE_HOMOGLYPHS);
+const FULL_TABLE = buildTable(HOMOGLYPHS);
+
+/**
+ * Unicode homoglyph steganography for UTF-8 text.
+ *
+ * Each eligible Latin letter carries one bit: left as is for 0, swapped
+ * for a visually identical Cyrillic or Greek letter for 1 (a for U+0430,
+ * e for U+0435, o for U+043E, ...). With `config.fontSafe` only the 18
+ * pairs that look identical in practically every font are used;
+ * otherwise the full table of 31.
+ *
+ * A letter is eligible if it is not the first letter of its word and the
+ * word starts with an ASCII letter. That first letter is never swapped,
+ * so words in other scripts are never read as data. The first eligible
+ * font-safe letter records which table was used, followed by a 32-bit
+ * payload length, so decoding needs only the text. Capacity is
+ * floor((eligible letters - 1) / 8) - 4 bytes.
+ *
+ * Letters in URLs, email addresses, link targets, inline code spans,
+ * fenced code and indented code are never swapped.
+ *
+ * @example
+ * ```typescript
+ * const hg = new HomoglyphAlgorithm({ config: { fontSafe: true } });
+ * const cover = Buffer.from(llmReply);
+ *
+ * const encoded = hg.encode(Buffer.from('hi'), cover);
+ * console.log(hg.decode(encoded).toString()); // 'hi'
+ * ```
+ */
+export class HomoglyphAlgorithm implements StegAlgorithm {
+  public readonly name = 'homoglyph';
+  private readonly fontSafe: boolean;
+
+  constructor(options?: AlgorithmOptions) {
+    const fontSafe = options?.config?.fontSafe ?? false;
+    if (typeof fontSafe !== 'boolean') {
+      throw new Error(`Invalid fontSafe: ${String(fontSafe)} (expected boolean)`);
+    }
+    this.fontSafe = fontSafe;
+  }
+
+  /**
+   * Encode data by swapping eligible letters for homoglyphs
+   */
+  public encode(data: Buffer, cover: Buffer): Buffer {
+    const text = readUtf8Text(cover);
+    const slots = findSlots(text, this.table());
+
+    const capacity = capacityFor(slots);
+    if (data.length > capacity) {
+      throw new Error(
+        `Cover media too small: ${data.length} bytes exceeds capacity ${capacity}`
+      );
+    }
+
+    const header = Buffer.alloc(LENGTH_HEADER_SIZE);
+    header.writeUInt32BE(data.length, 0);
+    const bits = [this.fontSafe ? 0 : 1, ...unpackBits(Buffer.concat([header, data]))];
+
+    const chars = text.split('');
+    bits.forEach((bit, i) => {
+      const latin = FULL_TABLE.toLatin.get(chars[slots[i]]) ?? chars[slots[i]];
+      chars[slots[i]] = bit ? FULL_TABLE.toHomoglyph.get(latin)! : latin;
+    });
+
+    return Buffer.from(chars.join(''), 'utf8');
+  }
+
+  /**
+   * Decode data from the homoglyphs in the text
+   */
+  public decode(stegData: Buffer): Buffer {
+    return extract(stegData, Infinity);
+  }
+
+  /**
+   * Read only the first `length` payload bytes (fewer if the payload is
+   * shorter), e.g. to inspect an embedded header without a full decode
+   */
+  public peek(stegData: Buffer, length: number): Buffer {
+    return extract(stegData, length);
+  }
+
+  /**
+   * Bytes that fit in the cover's eligible letters, or 0 for covers
+   * that are not valid UTF-8
+   */
+  public calculateCapacity(cover: Buffer): number {
+    const text = tryReadUtf8Text(cover);
+    return text === null ? 0 : capacityFor(findSlots(text, this.table()));
+  }
+
+  /**
+   * Number of letters that can carry a bit, including the one recording
+   * the table
+   */
+  public countEligible(cover: Buffer): number {
+    return findSlots(readUtf8Text(cover), this.table()).length;
+  }
+
+  /**
+   * Validate that the cover is UTF-8 text with room for at least one byte
+   */
+  public validateCover(cover: Buffer): boolean {
+    return this.calculateCapacity(cover) >= 1;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private table(): Table {
+    return this.fontSafe ? FONT_SAFE_TABLE : FULL_TABLE;
+  }
+}
+
+function buildTable(pairs: Readonly<Record<string, string>>): Table {
+  const entries = Object.entries(pairs);
+  return {
+    toHomoglyph: new Map(entries),
+    toLatin: new Map(entries.map(([latin, homoglyph]) => [homoglyph, latin]))
+  };
+}
+
+function capacityFor(slots: number[]): number {
+  const bits = slots.length - 1;
+  return Math.max(0, Math.floor(bits / 8) - LENGTH_HEADER_SIZE);
+}
+
+/**
+ * Read the table flag, validate the length header and extract up to
+ * `limit` payload bytes
+ */
+function extract(stegData: Buffer, limit: number): Buffer {
+  const text = readUtf8Text(stegData);
+  const flagSlot = findSlots(text, FONT_SAFE_TABLE)[0];
+  const table = flagSlot !== undefined && FULL_TABLE.toLatin.has(text[flagSlot])
+    ? FULL_TABLE
+    : FONT_SAFE_TABLE;
+
+  const bits = findSlots(text, table)
+    .slice(1)
+    .map((slot) => (table.toLatin.has(text[slot]) ? 1 : 0));
+
+  const headerBits = LENGTH_HEADER_SIZE * 8;
+  if (bits.length < headerBits) {
+    throw new Error('Data too small to contain valid steganographic content');
+  }
+
+  const dataLength = packBits(bits.slice(0, headerBits)).readUInt32BE(0);
+  if (dataLength <= 0) {
+    throw new Error('Invalid data length: zero or negative');
+  }
+
+  const available = Math.floor((bits.length - headerBits) / 8);
+  if (dataLength > available) {
+    throw new Error(`Invalid data length: ${dataLength} exceeds embedded ${available}`);
+  }
+
+  const length = Math.min(dataLength, limit);
+  return packBits(bits.slice(headerBits, headerBits + length * 8));
+}
+
+/**
+ * Positions of eligible letters in text order, starting at the first
+ * one in the font-safe table (the flag), which is eligible in both
+ */
+function findSlots(text: string, table: Table): number[] {
+  const isProtected = findProtectedText(text);
+  const slots: number[] = [];
+  let flagFound = false;
+
+  for (const word of text.matchAll(/\p{L}+/gu)) {
+    if (!/^[A-Za-z]/.test(word[0])) continue;
+
+    // Letters in the table are all single UTF-16 code units
+    for (let i = word.index! + 1; i < word.index! + word[0].length; i++) {
+      const char = text[i];
+      if (isProtected[i]) continue;
+
+      if (!flagFound) {
+        if (FONT_SAFE_TABLE.toHomoglyph.has(char) || FONT_SAFE_TABLE.toLatin.has(char)) {
+          flagFound = true;
+          slots.push(i);
+        }
+      } else if (table.toHomoglyph.has(char) || table.toLatin.has(char)) {
+        slots.push(i);
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Factory function for homoglyph text algorithm
+ */
+export function createHomoglyphAlgorithm(options?: AlgorithmOptions): HomoglyphAlgorithm {
+  return new HomoglyphAlgorithm(options);
+}
@@ -1 +1,53 @@
-export { LSBAlgorithm, createLSBAlgorithm } from './lsb';
+export {
+  LSBAlgorithm,
+  LSBMatchingAlgorithm,
+  LSBEmbeddingMode,
+  createLSBAlgorithm,
+  createLSBMatchingAlgorithm
+} from './lsb';
+export {
+  MatrixEmbeddingAlgorithm,
+  createMatrixEmbeddingAlgorithm
+} from './matrix';
+export {
+  SpreadSpectrumAlgorithm,
+  SpreadSampleFormat,
+  createSpreadSpectrumAlgorithm
+} from './spread';
+export { DCTAlgorithm, createDCTAlgorithm } from './dct';
+export { ZeroWidthAlgorithm, createZeroWidthAlgorithm } from './zero-width';
+export { WhitespaceAlgorithm, createWhitespaceAlgorithm } from './whitespace';
+export { HomoglyphAlgorithm, createHomoglyphAlgorithm } from './homoglyph';
+export { SynonymAlgorithm, createSynonymAlgorithm } from './synonym';
+export { DEFAULT_SYNONYM_SETS } from './synonym-dictionary';
+export {
+  AlgorithmRegistry,
+  AlgorithmDescriptor,
+  algorithmRegistry,
+  createAlgorithmRegistry,
+  registerBuiltinAlgorithms
+} from './registry';
+export {
+  SandboxedAlgorithm,
+  SandboxOptions,
+  createSandboxedAlgorithm
+} from './sandbox';
+export {
+  LLMAlgorithmGenerator,
+  LLMAlgorithmGeneratorOptions,
+  GeneratedAlgorithm,
+  createLLMAlgorithmGenerator,
+  extractAlgorithmCode,
+  hashPrompt,
+  clearGeneratedAlgorithmCache
+} from './llm-generator';
+export {
+  AlgorithmBenchmark,
+  BenchmarkOptions,
+  BenchmarkCoverType,
+  LatencyPercentiles,
+  CoverBenchmarkResult,
+  AlgorithmBenchmarkResult,
+  createAlgorithmBenchmark,
+  benchmarkAlgorithm
+} from './benchmark';
@@ -0,0 +1,252 @@
+import { createHash } from 'crypto';
+import { LLMProvider, SandboxLimits } from '../interfaces/steg-config.interface';
+import { SandboxedAlgorithm, createSandboxedAlgorithm } from './sandbox';
+
+/**
+ * Options for LLM algorithm generation
+ */
+export interface LLMAlgorithmGeneratorOptions {
+  /** Provider used to request completions */
+  provider: LLMProvider;
+  /** Completion attempts before giving up (default 3) */
+  maxAttempts?: number;
+  /** Model name forwarded to the provider */
+  model?: string;
+  /** Token limit forwarded to the provider (default 2048) */
+  maxTokens?: number;
+  /** Sampling temperature forwarded to the provider (default 0.2) */
+  temperature?: number;
+  /** Seed forwarded to the generated algorithm */
+  seed?: string;
+  /** Sandbox limits for validating and running the code */
+  sandbox?: SandboxLimits;
+  /** Cache of accepted code by prompt hash (defaults to a shared cache) */
+  cache?: Map<string, string>;
+}
+
+/**
+ * Result of a successful generation
+ */
+export interface GeneratedAlgorithm {
+  /** The validated, sandboxed algorithm */
+  algorithm: SandboxedAlgorithm;
+  /** Accepted algorithm code */
+  code: string;
+  /** SHA-256 hash of the prompt (cache key) */
+  promptHash: string;
+  /** Completions requested (0 when served from cache) */
+  attempts: number;
+  /** Whether the code came from the cache */
+  cached: boolean;
+}
+
+/**
+ * Cover sizes used by the capacity self-test
+ */
+const SELF_TEST_COVER_SIZES = [1024, 4096];
+
+/**
+ * Largest payload the self-test round-trips per cover
+ */
+const SELF_TEST_MAX_PAYLOAD = 256;
+
+/**
+ * Instructions prepended to every user prompt
+ */
+const CONTRACT_PROMPT = `You are writing a steganography algorithm in plain JavaScript (ES2020).
+Rules:
+- Assign functions to \`exports\`: encode(data, cover), decode(stegData), calculateCapacity(cover).
+- All inputs are Uint8Array. encode and decode must return a Uint8Array (or array of bytes).
+- encode returns a modified copy of cover that hides data; decode(encode(data, cover)) must equal data.
+- calculateCapacity returns the maximum number of payload bytes that fit in cover (an integer >= 0).
+- Optionally export setSeed(seed) to accept a string seed.
+- No require, imports, Buffer, process, timers, eval or network access are available.
+- Reply with a single \`\`\`javascript code block and nothing else.
+
+Algorithm request:
+`;
+
+/**
+ * Shared cache of accepted algorithm code by prompt hash
+ */
+const sharedCache: Map<string, string> = new Map();
+
+/**
+ * Generates steganography algorithms by prompting an LLM.
+ *
+ * Each completion is reduced to its code block, loaded into the sandbox
+ * and accepted only if it passes round-trip and capacity self-tests.
+ * Failures are fed back to the model in the next prompt, up to
+ * `maxAttempts`. Accepted code is cached by prompt hash, so the same
+ * prompt never costs a second completion. Generated code is untrusted
+ * and only ever runs inside the sandbox worker, never in this process.
+ *
+ * @example
+ * ```typescript
+ * const generator = new LLMAlgorithmGenerator({ provider: openaiLike });
+ * const { algorithm, attempts } = await generator.generate(
+ *   'Hide bits in the second least significant bit of every other byte'
+ * );
+ * ```
+ */
+export class LLMAlgorithmGenerator {
+  private readonly options: LLMAlgorithmGeneratorOptions;
+  private readonly cache: Map<string, string>;
+
+  constructor(options: LLMAlgorithmGeneratorOptions) {
+    this.options = options;
+    this.cache = options.cache ?? sharedCache;
+  }
+
+  /**
+   * Generate (or load from cache) a validated algorithm for a prompt
+   */
+  public async generate(prompt: string): Promise<GeneratedAlgorithm> {
+    const promptHash = hashPrompt(prompt);
+
+    const cachedCode = this.cache.get(promptHash);
+    if (cachedCode !== undefined) {
+      try {
+        return {
+          algorithm: this.validate(cachedCode),
+          code: cachedCode,
+          promptHash,
+          attempts: 0,
+          cached: true
+        };
+      } catch {
+        // Stale entry (e.g. stricter limits): regenerate
+        this.cache.delete(promptHash);
+      }
+    }
+
+    const maxAttempts = this.options.maxAttempts ?? 3;
+    let feedback = '';
+    let lastError = 'no attempts made';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const completion = await this.options.provider.createCompletion({
+        prompt: CONTRACT_PROMPT + prompt + feedback,
+        model: this.options.model,
+        max_tokens: this.options.maxTokens ?? 2048,
+        temperature: this.options.temperature ?? 0.2
+      });
+
+      const code = extractAlgorithmCode(completion.choices[0]?.text ?? '');
+
+      try {
+        const algorithm = this.validate(code);
+        this.cache.set(promptHash, code);
+        return { algorithm, code, promptHash, attempts: attempt, cached: false };
+      } catch (err) {
+        lastError = (err as Error).message;
+        feedback =
+          `\n\nYour previous attempt was rejected.\nCode:\n\`\`\`javascript\n${code}\n\`\`\`\n` +
+          `Error: ${lastError}\nFix the problem and reply with the corrected code block.`;
+      }
+    }
+
+    throw new Error(
+      `LLM algorithm generation failed after ${maxAttempts} attempts: ${lastError}`
+    );
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Load code into the sandbox and run the self-tests
+   */
+  private validate(code: string): SandboxedAlgorithm {
+    if (!code.trim()) {
+      throw new Error('Completion contained no code');
+    }
+
+    const algorithm = createSandboxedAlgorithm(code, {
+      ...this.options.sandbox,
+      name: 'llm-generated',
+      seed: this.options.seed
+    });
+
+    try {
+      runCapacitySelfTest(algorithm);
+    } catch (err) {
+      algorithm.dispose();
+      throw err;
+    }
+
+    return algorithm;
+  }
+}
+
+/**
+ * Check that reported capacity is sane and actually usable:
+ * an integer within the cover size, with a full-capacity (bounded)
+ * payload round-tripping.
+ */
+function runCapacitySelfTest(algorithm: SandboxedAlgorithm): void {
+  for (const size of SELF_TEST_COVER_SIZES) {
+    const cover = Buffer.alloc(size);
+    for (let i = 0; i < size; i++) {
+      cover[i] = (i * 131 + 17) & 0xFF;
+    }
+
+    const capacity = algorithm.calculateCapacity(cover);
+    if (!Number.isInteger(capacity) || capacity > size) {
+      throw new Error(`Capacity self-test failed: ${capacity} for a ${size}-byte cover`);
+    }
+    if (capacity === 0) {
+      throw new Error(`Capacity self-test failed: no capacity in a ${size}-byte cover`);
+    }
+
+    const payload = Buffer.alloc(Math.min(capacity, SELF_TEST_MAX_PAYLOAD));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] = (i * 73 + size) & 0xFF;
+    }
+
+    const decoded = algorithm.decode(algorithm.encode(payload, cover));
+    if (!decoded.equals(payload)) {
+      throw new Error(
+        `Capacity self-test failed: ${payload.length}-byte payload did not round-trip in a ${size}-byte cover`
+      );
+    }
+  }
+}
+
+/**
+ * Extract algorithm code from a completion.
+ * Uses the largest fenced code block, or the whole text if unfenced.
+ */
+export function extractAlgorithmCode(completion: string): string {
+  const blocks = [...completion.matchAll(/```[a-zA-Z]*\s*\n([\s\S]*?)```/g)].map((m) => m[1]);
+
+  if (blocks.length === 0) {
+    return completion.trim();
+  }
+
+  return blocks.reduce((a, b) => (b.length > a.length ? b : a)).trim();
+}
+
+/**
+ * SHA-256 hash of a prompt, used as the cache key
+ */
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex');
+}
+
+/**
+ * Clear the shared generated-algorithm cache
+ */
+export function clearGeneratedAlgorithmCache(): void {
+  sharedCache.clear();
+}
+
+/**
+ * Create an LLM algorithm generator
+ */
+export function createLLMAlgorithmGenerator(
+  options: LLMAlgorithmGeneratorOptions
+): LLMAlgorithmGenerator {
+  return new LLMAlgorithmGenerator(options);
+}
@@ -1,4 +1,13 @@
 import { StegAlgorithm, AlgorithmOptions } from '../interfaces/algorithm.interface';
+import { seededPermutation, createSeededRandom, RandomSource } from '../utils/prng';
+import { readRepeatedHeader, repeatedHeaderBit, resolveHeaderCopies } from '../utils/length-header';
+
+/**
+ * How cover bytes are changed when an embedded bit differs.
+ * - 'replace': overwrite the bit (classic LSB replacement)
+ * - 'match': move the byte value by ±1 (LSB matching)
+ */
+export type LSBEmbeddingMode = 'replace' | 'match';
 
 /**
  * Header size in bytes for storing payload length
@@ -16,6 +25,28 @@ const HEADER_SIZE_BITS = HEADER_SIZE_BYTES * 8;
  * Capacity: 1 bit per cover byte = cover.length / 8 bytes of payload
  *           (minus 4 bytes for length header)
  *
+ * Bit depth: `config.bitsPerByte` (1-8) embeds in that many low bit
+ * planes per cover byte, or `config.bitPlanes` selects explicit planes
+ * (0 = LSB, 7 = MSB). Capacity and the header layout scale with the
+ * number of planes: the 32-bit header occupies ceil(32 / planes) bytes.
+ *
+ * Embedding: `config.embedding: 'match'` switches from LSB replacement to
+ * LSB matching (±1 embedding). Instead of overwriting a differing bit,
+ * the byte value is randomly incremented or decremented, which avoids
+ * the pairs-of-values artifact chi-square steganalysis detects. Decoding
+ * is identical for both modes.
+ *
+ * Header copies: `config.headerCopies` (odd, default 1) writes the length
+ * header that many times and reads it by majority vote, so flipped
+ * header bits no longer lose the payload (useful with engine FEC, which
+ * cannot reach the header). Each extra copy costs 4 bytes of capacity;
+ * encoder and decoder must use the same number.
+ *
+ * Keyed mode: when a seed is set, header and payload bits are scattered
+ * over a seed-derived permutation of cover positions instead of being
+ * written to bytes 0..N in order. Decoding requires the same seed; a
+ * wrong seed yields an invalid length header and decoding throws.
+ *
  * @example
  * ```typescript
  * const lsb = new LSBAlgorithm();
@@ -26,17 +57,32 @@ const HEADER_SIZE_BITS = HEADER_SIZE_BYTES * 8;
  * const decoded = lsb.decode(encoded);
  *
  * console.log(decoded.toString()); // "Hello, World!"
+ *
+ * // Two low bits per byte for high-volume audio covers
+ * const deep = new LSBAlgorithm({ config: { bitsPerByte: 2 } });
  * ```
  */
 export class LSBAlgorithm implements StegAlgorithm {
-  public readonly name = 'lsb';
-  /** Reserved for future deterministic encoding support */
+  public readonly name: string = 'lsb';
+  /** Seed for keyed position scattering (null = sequential positions) */
   private seed: string | null = null;
+  /** Bit planes used in each cover byte, in embedding order */
+  private readonly bitPlanes: number[];
+  /** Replacement or ±1 matching */
+  private readonly embedding: LSBEmbeddingMode;
+  /** Copies of the length header, read by majority vote */
+  private readonly headerCopies: number;
+  /** Slots taken by all copies of the length header */
+  private readonly headerBits: number;
 
   constructor(options?: AlgorithmOptions) {
     if (options?.seed) {
       this.seed = options.seed;
     }
+    this.bitPlanes = resolveBitPlanes(options?.config);
+    this.embedding = resolveEmbeddingMode(options?.config);
+    this.headerCopies = resolveHeaderCopies(options?.config);
+    this.headerBits = HEADER_SIZE_BITS * this.headerCopies;
   }
 
   /**
@@ -44,8 +90,9 @@ export class LSBAlgorithm implements StegAlgorithm {
    */
   public encode(data: Buffer, cover: Buffer): Buffer {
     // Validate capacity
-    const requiredCoverSize = (data.length + HEADER_SIZE_BYTES) * 8;
-    if (cover.length < requiredCoverSize) {
+    const requiredSlots = this.headerBits + data.length * 8;
+    if (this.slotCount(cover.length) < requiredSlots) {
+      const requiredCoverSize = Math.ceil(requiredSlots / this.bitPlanes.length);
       throw new Error(
         `Cover media too small: needs ${requiredCoverSize} bytes, got ${cover.length}`
       );
@@ -53,21 +100,24 @@ export class LSBAlgorithm implements StegAlgorithm {
 
     // Create a copy of the cover to modify
     const result = Buffer.from(cover);
+    const positions = this.getPositions(cover.length);
 
-    // Store payload length in header (first 32 bits)
-    this.encodeLengthHeader(result, data.length);
+    // Store payload length in header (first 32 slots per copy)
+    this.encodeLengthHeader(result, data.length, positions);
 
     // Encode payload data
     for (let i = 0; i < data.length * 8; i++) {
-      const coverIndex = i + HEADER_SIZE_BITS;
       const byteIndex = Math.floor(i / 8);
       const bitIndex = i % 8;
 
       // Extract bit from payload
       const bit = (data[byteIndex] >> bitIndex) & 1;
 
-      // Set LSB of cover byte
-      result[coverIndex] = (result[coverIndex] & 0xFE) | bit;
+      this.writeSlot(result, positions[i + this.headerBits], bit);
+    }
+
+    if (this.embedding === 'match') {
+      this.applyMatching(cover, result);
     }
 
     return result;
@@ -77,19 +127,116 @@ export class LSBAlgorithm implements StegAlgorithm {
    * Decode hidden data from steganographic media
    */
   public decode(stegData: Buffer): Buffer {
-    if (stegData.length < HEADER_SIZE_BITS) {
+    return this.extract(stegData, Infinity);
+  }
+
+  /**
+   * Read only the first `length` payload bytes (fewer if the payload is
+   * shorter), e.g. to inspect an embedded header without a full decode
+   */
+  public peek(stegData: Buffer, length: number): Buffer {
+    return this.extract(stegData, length);
+  }
+
+  /**
+   * Calculate how many bytes can be hidden in cover media
+   */
+  public calculateCapacity(cover: Buffer): number {
+    // Each byte of cover can hold one bit per selected plane
+    // Subtract header size
+    const totalBits = this.slotCount(cover.length) - this.headerBits;
+    return Math.max(0, Math.floor(totalBits / 8));
+  }
+
+  /**
+   * Set seed for keyed position scattering.
+   * Encoder and decoder must use the same seed.
+   */
+  public setSeed(seed: string): void {
+    this.seed = seed;
+  }
+
+  /**
+   * Get current seed value
+   */
+  public getSeed(): string | null {
+    return this.seed;
+  }
+
+  /**
+   * Get the bit planes used in each cover byte
+   */
+  public getBitPlanes(): number[] {
+    return [...this.bitPlanes];
+  }
+
+  /**
+   * Get the embedding mode
+   */
+  public getEmbeddingMode(): LSBEmbeddingMode {
+    return this.embedding;
+  }
+
+  /**
+   * Validate cover media suitability
+   */
+  public validateCover(cover: Buffer): boolean {
+    // LSB works with any binary data
+    // Minimum size: header + at least 1 byte of payload
+    return this.slotCount(cover.length) >= this.headerBits + 8;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Protected Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Write one bit into an embedding slot.
+   * Slot s lives in cover byte floor(s / planes), plane planes[s % planes].
+   */
+  protected writeSlot(cover: Buffer, slot: number, bit: number): void {
+    const planeCount = this.bitPlanes.length;
+    const coverIndex = Math.floor(slot / planeCount);
+    const plane = this.bitPlanes[slot % planeCount];
+
+    cover[coverIndex] = (cover[coverIndex] & ~(1 << plane)) | (bit << plane);
+  }
+
+  /**
+   * Read one bit from an embedding slot
+   */
+  protected readSlot(stegData: Buffer, slot: number): number {
+    const planeCount = this.bitPlanes.length;
+    const coverIndex = Math.floor(slot / planeCount);
+    const plane = this.bitPlanes[slot % planeCount];
+
+    return (stegData[coverIndex] >> plane) & 1;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Validate the length header and extract up to `limit` payload bytes
+   */
+  private extract(stegData: Buffer, limit: number): Buffer {
+    const totalSlots = this.slotCount(stegData.length);
+    if (totalSlots < this.headerBits) {
       throw new Error('Data too small to contain valid steganographic content');
     }
 
+    const positions = this.getPositions(stegData.length);
+
     // Extract payload length from header
-    const dataLength = this.decodeLengthHeader(stegData);
+    const dataLength = this.decodeLengthHeader(stegData, positions);
 
     // Validate length
     if (dataLength <= 0) {
       throw new Error('Invalid data length: zero or negative');
     }
 
-    const maxPossibleLength = (stegData.length - HEADER_SIZE_BITS) / 8;
+    const maxPossibleLength = (totalSlots - this.headerBits) / 8;
     if (dataLength > maxPossibleLength) {
       throw new Error(
         `Invalid data length: ${dataLength} exceeds maximum ${Math.floor(maxPossibleLength)}`
@@ -97,15 +244,13 @@ export class LSBAlgorithm implements StegAlgorithm {
     }
 
     // Extract payload data
-    const result = Buffer.alloc(dataLength);
+    const result = Buffer.alloc(Math.min(dataLength, limit));
 
-    for (let i = 0; i < dataLength * 8; i++) {
-      const coverIndex = i + HEADER_SIZE_BITS;
+    for (let i = 0; i < result.length * 8; i++) {
       const byteIndex = Math.floor(i / 8);
       const bitIndex = i % 8;
 
-      // Extract LSB from steg data
-      const bit = stegData[coverIndex] & 1;
+      const bit = this.readSlot(stegData, positions[i + this.headerBits]);
 
       // Set bit in result
       if (bit === 1) {
@@ -117,64 +262,141 @@ export class LSBAlgorithm implements StegAlgorithm {
   }
 
   /**
-   * Calculate how many bytes can be hidden in cover media
+   * Convert replaced bytes into LSB-matched ones.
+   *
+   * For every byte whose embedded planes changed, picks the nearest value
+   * in 0..255 carrying the same bits in those planes, choosing randomly
+   * between the value above and below when both are equally near. With a
+   * single LSB plane this is classic ±1 embedding.
    */
-  public calculateCapacity(cover: Buffer): number {
-    // Each byte of cover can hold 1 bit
-    // Subtract header size
-    const totalBits = cover.length - HEADER_SIZE_BITS;
-    return Math.max(0, Math.floor(totalBits / 8));
+  private applyMatching(original: Buffer, replaced: Buffer): void {
+    const mask = this.bitPlanes.reduce((m, plane) => m | (1 << plane), 0);
+    const random = this.getMatchingRandom();
+
+    for (let i = 0; i < replaced.length; i++) {
+      const value = original[i];
+      const target = replaced[i] & mask;
+      if ((value & mask) === target) {
+        replaced[i] = value;
+        continue;
+      }
+
+      let up = -1;
+      let down = -1;
+      for (let d = 1; d < 256 && up < 0 && down < 0; d++) {
+        if (value + d <= 255 && ((value + d) & mask) === target) up = value + d;
+        if (value - d >= 0 && ((value - d) & mask) === target) down = value - d;
+      }
+
+      if (up >= 0 && down >= 0) {
+        replaced[i] = random() < 0.5 ? up : down;
+      } else {
+        replaced[i] = up >= 0 ? up : down;
+      }
+    }
   }
 
   /**
-   * Set seed for deterministic behavior.
-   * Reserved for future deterministic encoding support.
+   * Randomness for ±1 choices; seeded (deterministic) in keyed mode
    */
-  public setSeed(seed: string): void {
-    this.seed = seed;
+  private getMatchingRandom(): RandomSource {
+    return this.seed ? createSeededRandom(`${this.seed}:match`) : Math.random;
   }
 
-  /**
-   * Get current seed value
-   */
-  public getSeed(): string | null {
-    return this.seed;
+  private slotCount(coverLength: number): number {
+    return coverLength * this.bitPlanes.length;
   }
 
   /**
-   * Validate cover media suitability
+   * Map embedding slot order to cover slots.
+   * Identity when unkeyed, seed-derived permutation otherwise.
    */
-  public validateCover(cover: Buffer): boolean {
-    // LSB works with any binary data
-    // Minimum size: header + at least 1 byte of payload
-    return cover.length >= (HEADER_SIZE_BYTES + 1) * 8;
-  }
+  private getPositions(coverLength: number): Uint32Array {
+    const totalSlots = this.slotCount(coverLength);
 
-  // ─────────────────────────────────────────────────────────────
-  // Private Methods
-  // ─────────────────────────────────────────────────────────────
+    if (this.seed) {
+      return seededPermutation(totalSlots, this.seed);
+    }
 
-  private encodeLengthHeader(cover: Buffer, length: number): void {
-    for (let i = 0; i < HEADER_SIZE_BITS; i++) {
-      // Extract bit from length
-      const bit = (length >> i) & 1;
+    const positions = new Uint32Array(totalSlots);
+    for (let i = 0; i < totalSlots; i++) {
+      positions[i] = i;
+    }
+    return positions;
+  }
 
-      // Set LSB of cover byte
-      cover[i] = (cover[i] & 0xFE) | bit;
+  private encodeLengthHeader(cover: Buffer, length: number, positions: Uint32Array): void {
+    for (let i = 0; i < this.headerBits; i++) {
+      this.writeSlot(cover, positions[i], repeatedHeaderBit(length, i, HEADER_SIZE_BITS));
     }
   }
 
-  private decodeLengthHeader(stegData: Buffer): number {
-    let length = 0;
+  private decodeLengthHeader(stegData: Buffer, positions: Uint32Array): number {
+    return readRepeatedHeader(
+      (i) => this.readSlot(stegData, positions[i]),
+      HEADER_SIZE_BITS,
+      this.headerCopies
+    );
+  }
+}
 
-    for (let i = 0; i < HEADER_SIZE_BITS; i++) {
-      const bit = stegData[i] & 1;
-      if (bit === 1) {
-        length |= (1 << i);
-      }
+/**
+ * Resolve the bit planes to embed in from algorithm config.
+ * `bitPlanes` takes precedence over `bitsPerByte`; defaults to the LSB only.
+ */
+function resolveBitPlanes(config?: Record<string, unknown>): number[] {
+  const planes = config?.bitPlanes;
+  if (planes !== undefined) {
+    if (
+      !Array.isArray(planes) ||
+      planes.length === 0 ||
+      planes.some((p) => !Number.isInteger(p) || p < 0 || p > 7) ||
+      new Set(planes).size !== planes.length
+    ) {
+      throw new Error('Invalid bitPlanes: expected distinct integers between 0 and 7');
     }
+    return [...planes] as number[];
+  }
+
+  const bitsPerByte = config?.bitsPerByte ?? 1;
+  if (typeof bitsPerByte !== 'number' || !Number.isInteger(bitsPerByte) || bitsPerByte < 1 || bitsPerByte > 8) {
+    throw new Error(`Invalid bitsPerByte: ${String(bitsPerByte)} (expected 1-8)`);
+  }
+
+  return Array.from({ length: bitsPerByte }, (_, i) => i);
+}
+
+/**
+ * Resolve the embedding mode from algorithm config
+ */
+function resolveEmbeddingMode(config?: Record<string, unknown>): LSBEmbeddingMode {
+  const mode = config?.embedding ?? 'replace';
+  if (mode !== 'replace' && mode !== 'match') {
+    throw new Error(`Invalid embedding mode: ${String(mode)} (expected 'replace' or 'match')`);
+  }
+  return mode;
+}
+
+/**
+ * LSB matching (±1 embedding) algorithm.
+ *
+ * Same layout and decoder as LSBAlgorithm, but defaults to
+ * `embedding: 'match'` and is registered under its own name.
+ *
+ * @example
+ * ```typescript
+ * const matching = new LSBMatchingAlgorithm({ seed: 'shared-secret' });
+ * const encoded = matching.encode(secret, cover);
+ * ```
+ */
+export class LSBMatchingAlgorithm extends LSBAlgorithm {
+  public readonly name: string = 'lsb-matching';
 
-    return length;
+  constructor(options?: AlgorithmOptions) {
+    super({
+      ...options,
+      config: { ...options?.config, embedding: 'match' }
+    });
   }
 }
 
@@ -184,3 +406,10 @@ export class LSBAlgorithm implements StegAlgorithm {
 export function createLSBAlgorithm(options?: AlgorithmOptions): LSBAlgorithm {
   return new LSBAlgorithm(options);
 }
+
+/**
+ * Factory function for LSB matching algorithm
+ */
+export function createLSBMatchingAlgorithm(options?: AlgorithmOptions): LSBMatchingAlgorithm {
+  return new LSBMatchingAlgorithm(options);
+}
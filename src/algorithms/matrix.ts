@@ -0,0 +1,262 @@
+import { StegAlgorithm, AlgorithmOptions } from '../interfaces/algorithm.interface';
+import { readRepeatedHeader, repeatedHeaderBit, resolveHeaderCopies } from '../utils/length-header';
+
+/**
+ * Header layout: 8 bits for k followed by a 32-bit payload length,
+ * each stored in the LSB of one cover byte. With `headerCopies`, each
+ * field is repeated back to back.
+ */
+const K_HEADER_BITS = 8;
+const LENGTH_HEADER_BITS = 32;
+const HEADER_SIZE_BITS = K_HEADER_BITS + LENGTH_HEADER_BITS;
+
+/** Largest supported code parameter (block length 2^16 - 1) */
+const MAX_K = 16;
+
+/**
+ * Matrix embedding steganography using Hamming-code syndrome coding.
+ *
+ * Cover LSBs are grouped into blocks of n = 2^k - 1 bytes. Each block
+ * carries k message bits as the syndrome of its LSB vector under the
+ * (1, 2^k - 1, k) Hamming code, so embedding k bits changes at most one
+ * cover byte. Larger k means fewer changes per bit but lower capacity.
+ *
+ * By default k is chosen per payload: the largest k whose capacity still
+ * fits the payload. Set `config.k` to fix it, or `config.maxK` to bound
+ * the automatic choice. The chosen k is stored in the header so the
+ * decoder needs no configuration.
+ *
+ * `config.headerCopies` (odd, default 1) repeats the header fields and
+ * reads them by majority vote, so flipped header bits are outvoted.
+ *
+ * Capacity for a given k: floor((cover.length - 40 × headerCopies) / (2^k - 1)) * k bits.
+ *
+ * @example
+ * ```typescript
+ * const matrix = new MatrixEmbeddingAlgorithm();
+ * const cover = Buffer.alloc(4096, 0x80);
+ *
+ * const encoded = matrix.encode(Buffer.from('secret'), cover);
+ * const decoded = matrix.decode(encoded);
+ *
+ * console.log(matrix.selectK(6, cover)); // k used for a 6-byte payload
+ * ```
+ */
+export class MatrixEmbeddingAlgorithm implements StegAlgorithm {
+  public readonly name = 'matrix';
+  /** Fixed code parameter, or null for automatic selection */
+  private readonly fixedK: number | null;
+  /** Upper bound for automatic selection */
+  private readonly maxK: number;
+  /** Copies of each header field, read by majority vote */
+  private readonly headerCopies: number;
+  /** Cover bytes taken by all header copies */
+  private readonly headerBits: number;
+
+  constructor(options?: AlgorithmOptions) {
+    this.fixedK = options?.config?.k !== undefined
+      ? validateK(options.config.k, 'k')
+      : null;
+    this.maxK = options?.config?.maxK !== undefined
+      ? validateK(options.config.maxK, 'maxK')
+      : 8;
+    this.headerCopies = resolveHeaderCopies(options?.config);
+    this.headerBits = HEADER_SIZE_BITS * this.headerCopies;
+  }
+
+  /**
+   * Encode data into cover media using matrix embedding
+   */
+  public encode(data: Buffer, cover: Buffer): Buffer {
+    const k = this.selectK(data.length, cover);
+    if (k === null) {
+      throw new Error(
+        `Cover media too small: ${data.length} bytes exceeds capacity ${this.calculateCapacity(cover)}`
+      );
+    }
+
+    const result = Buffer.from(cover);
+
+    this.writeHeaderBits(result, 0, K_HEADER_BITS, k);
+    this.writeHeaderBits(result, K_HEADER_BITS * this.headerCopies, LENGTH_HEADER_BITS, data.length);
+
+    const blockSize = (1 << k) - 1;
+    const totalBits = data.length * 8;
+    const blockCount = Math.ceil(totalBits / k);
+
+    for (let block = 0; block < blockCount; block++) {
+      const offset = this.headerBits + block * blockSize;
+
+      // Gather k message bits (zero-padded past the end)
+      let message = 0;
+      for (let j = 0; j < k; j++) {
+        const bitIndex = block * k + j;
+        if (bitIndex < totalBits) {
+          message |= ((data[bitIndex >> 3] >> (bitIndex & 7)) & 1) << j;
+        }
+      }
+
+      // Flip the single LSB that turns the syndrome into the message
+      const diff = this.syndrome(result, offset, blockSize) ^ message;
+      if (diff !== 0) {
+        result[offset + diff - 1] ^= 1;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Decode hidden data from steganographic media
+   */
+  public decode(stegData: Buffer): Buffer {
+    return this.extract(stegData, Infinity);
+  }
+
+  /**
+   * Read only the first `length` payload bytes (fewer if the payload is
+   * shorter), e.g. to inspect an embedded header without a full decode
+   */
+  public peek(stegData: Buffer, length: number): Buffer {
+    return this.extract(stegData, length);
+  }
+
+  /**
+   * Calculate how many bytes can be hidden in cover media.
+   * Reports the capacity of the fixed k, or of the smallest k
+   * (the maximum capacity) when k is chosen automatically.
+   */
+  public calculateCapacity(cover: Buffer): number {
+    return this.capacityForK(cover, this.fixedK ?? 1);
+  }
+
+  /**
+   * Calculate capacity in bytes for a specific code parameter k
+   */
+  public capacityForK(cover: Buffer, k: number): number {
+    const blockSize = (1 << k) - 1;
+    const blocks = Math.floor((cover.length - this.headerBits) / blockSize);
+    return Math.max(0, Math.floor((blocks * k) / 8));
+  }
+
+  /**
+   * Choose k for a payload: the fixed k if configured, otherwise the
+   * largest k up to maxK whose capacity fits the payload.
+   * Returns null when the payload does not fit at all.
+   */
+  public selectK(payloadLength: number, cover: Buffer): number | null {
+    if (this.fixedK !== null) {
+      return this.capacityForK(cover, this.fixedK) >= payloadLength ? this.fixedK : null;
+    }
+
+    for (let k = this.maxK; k >= 1; k--) {
+      if (this.capacityForK(cover, k) >= payloadLength) {
+        return k;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate cover media suitability
+   */
+  public validateCover(cover: Buffer): boolean {
+    return this.calculateCapacity(cover) >= 1;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Validate the header and extract up to `limit` payload bytes
+   */
+  private extract(stegData: Buffer, limit: number): Buffer {
+    if (stegData.length < this.headerBits) {
+      throw new Error('Data too small to contain valid steganographic content');
+    }
+
+    const k = this.readHeaderBits(stegData, 0, K_HEADER_BITS);
+    if (k < 1 || k > MAX_K) {
+      throw new Error(`Invalid code parameter: k=${k}`);
+    }
+
+    const dataLength = this.readHeaderBits(stegData, K_HEADER_BITS * this.headerCopies, LENGTH_HEADER_BITS);
+    if (dataLength <= 0) {
+      throw new Error('Invalid data length: zero or negative');
+    }
+
+    const maxPossibleLength = this.capacityForK(stegData, k);
+    if (dataLength > maxPossibleLength) {
+      throw new Error(
+        `Invalid data length: ${dataLength} exceeds maximum ${maxPossibleLength}`
+      );
+    }
+
+    const result = Buffer.alloc(Math.min(dataLength, limit));
+    const blockSize = (1 << k) - 1;
+    const totalBits = result.length * 8;
+    const blockCount = Math.ceil(totalBits / k);
+
+    for (let block = 0; block < blockCount; block++) {
+      const offset = this.headerBits + block * blockSize;
+      const message = this.syndrome(stegData, offset, blockSize);
+
+      for (let j = 0; j < k; j++) {
+        const bitIndex = block * k + j;
+        if (bitIndex < totalBits && ((message >> j) & 1) === 1) {
+          result[bitIndex >> 3] |= 1 << (bitIndex & 7);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * XOR of the 1-based positions of all set LSBs in a block
+   */
+  private syndrome(buffer: Buffer, offset: number, blockSize: number): number {
+    let s = 0;
+    for (let i = 0; i < blockSize; i++) {
+      if (buffer[offset + i] & 1) {
+        s ^= i + 1;
+      }
+    }
+    return s;
+  }
+
+  /**
+   * Write every copy of a `count`-bit header field starting at `offset`
+   */
+  private writeHeaderBits(cover: Buffer, offset: number, count: number, value: number): void {
+    for (let i = 0; i < count * this.headerCopies; i++) {
+      const bit = repeatedHeaderBit(value, i, count);
+      cover[offset + i] = (cover[offset + i] & 0xFE) | bit;
+    }
+  }
+
+  private readHeaderBits(stegData: Buffer, offset: number, count: number): number {
+    return readRepeatedHeader((i) => stegData[offset + i] & 1, count, this.headerCopies);
+  }
+}
+
+/**
+ * Validate a code parameter from config
+ */
+function validateK(value: unknown, label: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_K) {
+    throw new Error(`Invalid ${label}: ${String(value)} (expected 1-${MAX_K})`);
+  }
+  return value;
+}
+
+/**
+ * Factory function for matrix embedding algorithm
+ */
+export function createMatrixEmbeddingAlgorithm(
+  options?: AlgorithmOptions
+): MatrixEmbeddingAlgorithm {
+  return new MatrixEmbeddingAlgorithm(options);
+}
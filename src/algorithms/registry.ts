@@ -0,0 +1,190 @@
+import {
+  StegAlgorithm,
+  AlgorithmOptions,
+  AlgorithmRegistryEntry
+} from '../interfaces/algorithm.interface';
+import { createLSBAlgorithm, createLSBMatchingAlgorithm } from './lsb';
+import { createMatrixEmbeddingAlgorithm } from './matrix';
+import { createSpreadSpectrumAlgorithm } from './spread';
+import { createDCTAlgorithm } from './dct';
+import { createZeroWidthAlgorithm } from './zero-width';
+import { createWhitespaceAlgorithm } from './whitespace';
+import { createHomoglyphAlgorithm } from './homoglyph';
+import { createSynonymAlgorithm } from './synonym';
+
+/**
+ * Registry entry metadata, without the factory
+ */
+export type AlgorithmDescriptor = Omit<AlgorithmRegistryEntry, 'factory'>;
+
+/**
+ * Registry of steganography algorithms by name.
+ *
+ * StegEngine resolves `StegConfig.algorithm` through the shared
+ * `algorithmRegistry`, so registering a factory makes an algorithm
+ * selectable by name from configuration alone.
+ *
+ * @example
+ * ```typescript
+ * algorithmRegistry.register({
+ *   name: 'my-algorithm',
+ *   factory: (options) => new MyAlgorithm(options),
+ *   description: 'My custom algorithm',
+ *   supportedMediaTypes: ['binary']
+ * });
+ *
+ * const engine = new StegEngine({ algorithm: 'my-algorithm' });
+ * ```
+ */
+export class AlgorithmRegistry {
+  private entries: Map<string, AlgorithmRegistryEntry> = new Map();
+
+  /**
+   * Register an algorithm.
+   * Throws if the name is taken, unless `overwrite` is set.
+   */
+  public register(entry: AlgorithmRegistryEntry, overwrite: boolean = false): void {
+    if (!entry.name) {
+      throw new Error('Algorithm name is required');
+    }
+    if (this.entries.has(entry.name) && !overwrite) {
+      throw new Error(`Algorithm already registered: ${entry.name}`);
+    }
+    this.entries.set(entry.name, { ...entry });
+  }
+
+  /**
+   * Remove an algorithm. Returns true if it was registered.
+   */
+  public unregister(name: string): boolean {
+    return this.entries.delete(name);
+  }
+
+  /**
+   * Check whether an algorithm is registered
+   */
+  public has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Look up a registry entry by name
+   */
+  public get(name: string): AlgorithmRegistryEntry | undefined {
+    const entry = this.entries.get(name);
+    return entry ? { ...entry } : undefined;
+  }
+
+  /**
+   * Create an algorithm instance by name
+   */
+  public create(name: string, options?: AlgorithmOptions): StegAlgorithm {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Unknown algorithm: ${name}`);
+    }
+    return entry.factory(options);
+  }
+
+  /**
+   * List registered algorithms with their descriptions, media types and
+   * `headerCopies` support
+   */
+  public list(): AlgorithmDescriptor[] {
+    return [...this.entries.values()].map(({ name, description, supportedMediaTypes, headerCopies }) => ({
+      name,
+      description,
+      supportedMediaTypes: supportedMediaTypes ? [...supportedMediaTypes] : undefined,
+      headerCopies
+    }));
+  }
+}
+
+/**
+ * Register the built-in algorithms on a registry
+ */
+export function registerBuiltinAlgorithms(registry: AlgorithmRegistry): void {
+  registry.register({
+    name: 'lsb',
+    factory: createLSBAlgorithm,
+    description: 'Least significant bit replacement with optional keyed scattering and multi-bit depth',
+    supportedMediaTypes: ['binary', 'image', 'audio', 'video', 'noise', 'pattern', 'gradient'],
+    headerCopies: true
+  }, true);
+
+  registry.register({
+    name: 'lsb-matching',
+    factory: createLSBMatchingAlgorithm,
+    description: 'LSB matching (±1 embedding), resistant to pairs-of-values analysis',
+    supportedMediaTypes: ['binary', 'image', 'audio', 'video', 'noise', 'pattern', 'gradient'],
+    headerCopies: true
+  }, true);
+
+  registry.register({
+    name: 'matrix',
+    factory: createMatrixEmbeddingAlgorithm,
+    description: 'Hamming-code matrix embedding: k bits per block with at most one change',
+    supportedMediaTypes: ['binary', 'image', 'audio', 'video', 'noise', 'pattern', 'gradient'],
+    headerCopies: true
+  }, true);
+
+  registry.register({
+    name: 'spread',
+    factory: createSpreadSpectrumAlgorithm,
+    description: 'Spread spectrum with seeded PN sequences and correlation decoding',
+    supportedMediaTypes: ['audio', 'noise'],
+    headerCopies: true
+  }, true);
+
+  registry.register({
+    name: 'dct',
+    factory: createDCTAlgorithm,
+    description: 'Blockwise 8x8 DCT embedding in quantised mid-frequency coefficients',
+    supportedMediaTypes: ['image', 'gradient', 'pattern', 'noise'],
+    headerCopies: true
+  }, true);
+
+  registry.register({
+    name: 'zero-width',
+    factory: createZeroWidthAlgorithm,
+    description: 'Zero-width Unicode characters at word boundaries of UTF-8 text',
+    supportedMediaTypes: ['text']
+  }, true);
+
+  registry.register({
+    name: 'whitespace',
+    factory: createWhitespaceAlgorithm,
+    description: 'SNOW-style inter-word spacing and trailing whitespace, skipping Markdown code',
+    supportedMediaTypes: ['text']
+  }, true);
+
+  registry.register({
+    name: 'homoglyph',
+    factory: createHomoglyphAlgorithm,
+    description: 'Latin letters swapped for Cyrillic and Greek homoglyphs, skipping URLs and code',
+    supportedMediaTypes: ['text']
+  }, true);
+
+  registry.register({
+    name: 'synonym',
+    factory: createSynonymAlgorithm,
+    description: 'Synonym choice from a bundled offline table, preserving case and punctuation',
+    supportedMediaTypes: ['text']
+  }, true);
+}
+
+/**
+ * Create a registry, populated with the built-in algorithms by default
+ */
+export function createAlgorithmRegistry(includeBuiltins: boolean = true): AlgorithmRegistry {
+  const registry = new AlgorithmRegistry();
+  if (includeBuiltins) {
+    registerBuiltinAlgorithms(registry);
+  }
+  return registry;
+}
+
+/**
+ * Shared registry used by StegEngine to resolve `StegConfig.algorithm`
+ */
+export const algorithmRegistry = createAlgorithmRegistry();
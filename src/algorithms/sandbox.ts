@@ -0,0 +1,400 @@
+import {
+  Worker,
+  MessageChannel,
+  MessagePort,
+  receiveMessageOnPort
+} from 'worker_threads';
+import { StegAlgorithm } from '../interfaces/algorithm.interface';
+import { SandboxLimits } from '../interfaces/steg-config.interface';
+
+/**
+ * Options for sandboxed algorithm creation
+ */
+export interface SandboxOptions extends SandboxLimits {
+  /** Algorithm name reported by the wrapper */
+  name?: string;
+  /** Seed forwarded to the code's `setSeed` export, if any */
+  seed?: string;
+  /** Payload for the round-trip probe */
+  probePayload?: Buffer;
+  /** Cover for the round-trip probe */
+  probeCover?: Buffer;
+}
+
+/**
+ * Extra time the host waits beyond the in-sandbox CPU limit, covering
+ * worker startup and message passing. If it elapses (e.g. the worker
+ * died from the memory limit) the worker is terminated.
+ */
+const HOST_GRACE_MS = 2000;
+const STARTUP_GRACE_MS = 5000;
+
+/**
+ * Worker program. Runs the algorithm code in a `vm` context with no
+ * require, process, Buffer, timers or string code generation, and answers
+ * synchronous calls from the host over a MessagePort.
+ *
+ * Before the code is evaluated, a setup script captures the context's
+ * pristine intrinsics and a private mailbox the code never sees. Every
+ * call into the code goes through that mailbox under the CPU limit; the
+ * host only ever hands the context primitives and arrays built from the
+ * captured constructor, copying bytes index by index in both directions.
+ * No host-realm object (and so no host `Function` constructor) can reach
+ * the code, whatever it does to the context's own globals.
+ */
+const WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+const vm = require('vm');
+const { isUint8Array } = require('util').types;
+const { port, signal, code, timeoutMs } = workerData;
+const flag = new Int32Array(signal);
+const typedArrayLength = Object.getOwnPropertyDescriptor(
+  Object.getPrototypeOf(Uint8Array.prototype), 'length'
+).get;
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false }
+});
+
+const ContextUint8Array = vm.runInContext('Uint8Array', context);
+
+const box = vm.runInContext(
+  '(function (global) {' +
+  '  "use strict";' +
+  '  var apply = Reflect.apply, define = Object.defineProperty, create = Object.create;' +
+  '  var U8 = Uint8Array, from = Uint8Array.from, toNumber = Number, toString = String;' +
+  '  var names = ["encode", "decode", "calculateCapacity", "setSeed"];' +
+  '  var box = create(null), api = null;' +
+  '  function describe(e) {' +
+  '    try { return toString((e && e.message) || e); } catch (_) { return "Unknown error"; }' +
+  '  }' +
+  '  function run() {' +
+  '    try {' +
+  '      if (box.method === "load") {' +
+  '        var m = global.module, exp = m && m.exports;' +
+  '        api = (exp && typeof exp.encode === "function") ? exp : global.exports;' +
+  '        var found = "";' +
+  '        for (var i = 0; i < names.length; i++) {' +
+  '          if (api && typeof api[names[i]] === "function") found += names[i] + ",";' +
+  '        }' +
+  '        box.result = found;' +
+  '        return;' +
+  '      }' +
+  '      var out = apply(api[box.method], api, [box.a, box.b]);' +
+  '      if (box.method === "calculateCapacity") box.result = toNumber(out);' +
+  '      else if (box.method !== "setSeed") box.result = apply(from, U8, [out]);' +
+  '    } catch (e) {' +
+  '      box.error = describe(e);' +
+  '    }' +
+  '  }' +
+  '  define(global, "__sandbox", { value: run });' +
+  '  global.module = { exports: {} };' +
+  '  global.exports = global.module.exports;' +
+  '  return box;' +
+  '})(this)',
+  context
+);
+
+const callScript = new vm.Script('__sandbox()');
+
+function toContext(bytes) {
+  if (!bytes) return null;
+  const arr = new ContextUint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) arr[i] = bytes[i];
+  return arr;
+}
+
+function fromContext(out) {
+  if (!isUint8Array(out)) {
+    throw new Error('Algorithm did not return bytes');
+  }
+  const length = typedArrayLength.call(out);
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = out[i];
+  return bytes;
+}
+
+function invoke(method, a, b) {
+  box.method = method;
+  box.a = a;
+  box.b = b;
+  box.result = null;
+  box.error = null;
+  callScript.runInContext(context, { timeout: timeoutMs });
+
+  if (box.error !== null) {
+    throw new Error(typeof box.error === 'string' ? box.error : 'Unknown error');
+  }
+  return box.result;
+}
+
+function handle(msg) {
+  if (msg.method === 'load') {
+    vm.runInContext(code, context, { timeout: timeoutMs });
+    const exported = invoke('load', null, null);
+    return { exports: typeof exported === 'string' ? exported.split(',').filter(Boolean) : [] };
+  }
+
+  if (msg.method === 'setSeed') {
+    invoke('setSeed', String(msg.seed), null);
+    return {};
+  }
+
+  const out = invoke(msg.method, toContext(msg.a), toContext(msg.b));
+  if (msg.method === 'calculateCapacity') {
+    return { value: typeof out === 'number' ? out : NaN };
+  }
+
+  return { bytes: fromContext(out) };
+}
+
+port.on('message', (msg) => {
+  let reply;
+  try {
+    reply = { ok: true, ...handle(msg) };
+  } catch (err) {
+    reply = { ok: false, error: String((err && err.message) || err) };
+  }
+  port.postMessage(reply);
+  Atomics.store(flag, 0, 1);
+  Atomics.notify(flag, 0);
+});
+`;
+
+/**
+ * Reply from the sandbox worker
+ */
+interface SandboxReply {
+  ok: boolean;
+  error?: string;
+  exports?: string[];
+  bytes?: Uint8Array;
+  value?: number;
+}
+
+/**
+ * Steganography algorithm backed by untrusted code in a sandbox.
+ *
+ * The code runs in a dedicated worker thread inside a `vm` context with
+ * no `require`, `process`, filesystem, network or timers. Each call is
+ * bounded by `timeoutMs` of CPU time and the worker heap by
+ * `memoryLimitMb`; exceeding either fails the call and, for the memory
+ * limit, terminates the worker. Calls are synchronous, so the wrapper
+ * satisfies the regular StegAlgorithm contract.
+ *
+ * The code must assign `encode(data, cover)` and `decode(stegData)` to
+ * `module.exports` or `exports`, taking and returning Uint8Arrays (or
+ * byte arrays). `calculateCapacity(cover)` and `setSeed(seed)` are
+ * optional; without `calculateCapacity` the LSB estimate is used.
+ *
+ * Prefer `createSandboxedAlgorithm`, which also verifies a round trip.
+ *
+ * @example
+ * ```typescript
+ * const algo = createSandboxedAlgorithm(`
+ *   exports.encode = (data, cover) => { ... };
+ *   exports.decode = (stegData) => { ... };
+ * `, { timeoutMs: 500, memoryLimitMb: 32 });
+ * ```
+ */
+export class SandboxedAlgorithm implements StegAlgorithm {
+  public readonly name: string;
+  private readonly timeoutMs: number;
+  private worker: Worker | null;
+  private readonly port: MessagePort;
+  private readonly flag: Int32Array;
+  private readonly exported: Set<string>;
+
+  constructor(code: string, options: SandboxOptions = {}) {
+    this.name = options.name ?? 'custom';
+    this.timeoutMs = options.timeoutMs ?? 1000;
+
+    const signal = new SharedArrayBuffer(4);
+    const { port1, port2 } = new MessageChannel();
+    this.flag = new Int32Array(signal);
+    this.port = port1;
+
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { port: port2, signal, code, timeoutMs: this.timeoutMs },
+      transferList: [port2],
+      resourceLimits: {
+        maxOldGenerationSizeMb: options.memoryLimitMb ?? 64,
+        maxYoungGenerationSizeMb: Math.min(16, options.memoryLimitMb ?? 64)
+      }
+    });
+    this.worker.unref();
+    this.port.unref();
+    // Failures are reported through call(); keep them off the process
+    this.worker.on('error', () => {});
+
+    try {
+      const loaded = this.call({ method: 'load' }, STARTUP_GRACE_MS);
+      this.exported = new Set(loaded.exports ?? []);
+    } catch (err) {
+      this.dispose();
+      throw err;
+    }
+
+    if (!this.exported.has('encode') || !this.exported.has('decode')) {
+      this.dispose();
+      throw new Error('Algorithm code must export encode(data, cover) and decode(stegData)');
+    }
+
+    if (options.seed) {
+      this.setSeed(options.seed);
+    }
+  }
+
+  /**
+   * Encode data into cover media in the sandbox
+   */
+  public encode(data: Buffer, cover: Buffer): Buffer {
+    const reply = this.call({ method: 'encode', a: data, b: cover });
+    return Buffer.from(reply.bytes ?? []);
+  }
+
+  /**
+   * Decode hidden data in the sandbox
+   */
+  public decode(stegData: Buffer): Buffer {
+    const reply = this.call({ method: 'decode', a: stegData });
+    return Buffer.from(reply.bytes ?? []);
+  }
+
+  /**
+   * Calculate capacity via the code's export, or the LSB estimate
+   */
+  public calculateCapacity(cover: Buffer): number {
+    if (!this.exported.has('calculateCapacity')) {
+      return Math.max(0, Math.floor((cover.length - 32) / 8));
+    }
+
+    const value = this.call({ method: 'calculateCapacity', a: cover }).value;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`calculateCapacity returned an invalid value: ${String(value)}`);
+    }
+    return Math.floor(value);
+  }
+
+  /**
+   * Forward the seed to the code's `setSeed` export, if present
+   */
+  public setSeed(seed: string): void {
+    if (this.exported.has('setSeed')) {
+      this.call({ method: 'setSeed', seed });
+    }
+  }
+
+  /**
+   * Check that encode/decode round-trips a probe payload.
+   * Throws with the reason on failure.
+   */
+  public verify(probePayload: Buffer = DEFAULT_PROBE_PAYLOAD, probeCover?: Buffer): void {
+    const cover = probeCover ?? createProbeCover();
+
+    const capacity = this.calculateCapacity(cover);
+    if (capacity < probePayload.length) {
+      throw new Error(
+        `Probe failed: capacity ${capacity} is below probe payload size ${probePayload.length}`
+      );
+    }
+
+    const encoded = this.encode(probePayload, cover);
+    const decoded = this.decode(encoded);
+
+    if (!decoded.equals(probePayload)) {
+      throw new Error('Probe failed: decoded payload does not match the original');
+    }
+  }
+
+  /**
+   * Terminate the sandbox worker
+   */
+  public dispose(): void {
+    if (this.worker) {
+      void this.worker.terminate();
+      this.worker = null;
+    }
+    this.port.close();
+  }
+
+  /**
+   * Whether the sandbox is still usable
+   */
+  public isDisposed(): boolean {
+    return this.worker === null;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Post a request and block until the worker answers or the host
+   * timeout elapses
+   */
+  private call(message: Record<string, unknown>, grace: number = HOST_GRACE_MS): SandboxReply {
+    if (!this.worker) {
+      throw new Error('Sandbox has been disposed');
+    }
+
+    Atomics.store(this.flag, 0, 0);
+    this.port.postMessage(message);
+
+    const status = Atomics.wait(this.flag, 0, 0, this.timeoutMs + grace);
+    const received = receiveMessageOnPort(this.port);
+
+    if (status === 'timed-out' || !received) {
+      this.dispose();
+      throw new Error('Sandbox call exceeded its time or memory limit');
+    }
+
+    const reply = received.message as SandboxReply;
+    if (!reply.ok) {
+      throw new Error(`Sandbox error: ${reply.error ?? 'unknown'}`);
+    }
+
+    return reply;
+  }
+}
+
+/**
+ * Default round-trip probe payload
+ */
+const DEFAULT_PROBE_PAYLOAD = Buffer.from('llm-steg probe payload');
+
+/**
+ * Deterministic noise cover for probing
+ */
+function createProbeCover(size: number = 4096): Buffer {
+  const cover = Buffer.alloc(size);
+  let state = 0x2545F491;
+  for (let i = 0; i < size; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    cover[i] = state & 0xFF;
+  }
+  return cover;
+}
+
+/**
+ * Load algorithm code into a sandbox and verify its round trip.
+ * Throws (and tears the sandbox down) if the code is rejected.
+ */
+export function createSandboxedAlgorithm(
+  code: string,
+  options: SandboxOptions = {}
+): SandboxedAlgorithm {
+  const algorithm = new SandboxedAlgorithm(code, options);
+
+  try {
+    algorithm.verify(options.probePayload, options.probeCover);
+  } catch (err) {
+    algorithm.dispose();
+    throw err;
+  }
+
+  return algorithm;
+}
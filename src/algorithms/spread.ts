@@ -0,0 +1,280 @@
+import { StegAlgorithm, AlgorithmOptions } from '../interfaces/algorithm.interface';
+import { createSeededRandom } from '../utils/prng';
+import { readRepeatedHeader, repeatedHeaderBit, resolveHeaderCopies } from '../utils/length-header';
+
+/**
+ * Header size in bits for storing payload length
+ */
+const HEADER_SIZE_BITS = 32;
+
+/**
+ * PN seed used when no seed is configured
+ */
+const DEFAULT_PN_SEED = 'llm-steg:spread';
+
+/**
+ * Maximum correction passes when clipping eats into the embedded signal
+ */
+const MAX_EMBED_PASSES = 4;
+
+/**
+ * Sample layouts the spread-spectrum algorithm understands
+ */
+export type SpreadSampleFormat = 'int16le' | 'uint8';
+
+/**
+ * Spread-spectrum steganography algorithm.
+ *
+ * Each payload bit is spread over `chipRate` consecutive cover samples
+ * using a ±1 pseudo-noise (PN) sequence derived from the seed. The
+ * decoder correlates each window with the same PN sequence and reads the
+ * bit from the sign, so moderate noise such as lossy re-quantisation
+ * averages out instead of flipping bits.
+ *
+ * Embedding is cover-informed: the encoder measures the cover's own
+ * correlation with the PN window and adds just enough signal to push it
+ * to `±strength`, rather than blindly adding a fixed amplitude.
+ *
+ * Trade-offs (via `config`):
+ * - `chipRate`: samples per bit (default 256). Higher is more robust,
+ *   lower gives more capacity.
+ * - `strength`: target correlation per sample (default 64 for int16,
+ *   4 for uint8). Higher survives more noise but distorts more.
+ * - `sampleFormat`: 'int16le' (default, e.g. `generateAudioLike`) or
+ *   'uint8' (byte samples centred on 128).
+ * - `headerCopies`: copies of the length header, read by majority vote
+ *   (odd, default 1).
+ *
+ * Capacity: floor(samples / chipRate) bits, minus 32 header bits per copy.
+ *
+ * @example
+ * ```typescript
+ * const spread = new SpreadSpectrumAlgorithm({ seed: 'shared-secret' });
+ * const audio = new CoverGenerator().generateAudioLike(44100);
+ *
+ * const encoded = spread.encode(Buffer.from('secret'), audio.data);
+ * const decoded = spread.decode(encoded);
+ * ```
+ */
+export class SpreadSpectrumAlgorithm implements StegAlgorithm {
+  public readonly name = 'spread';
+  /** Seed for the PN sequence (null = built-in default) */
+  private seed: string | null = null;
+  private readonly chipRate: number;
+  private readonly strength: number;
+  private readonly sampleFormat: SpreadSampleFormat;
+  /** Copies of the length header, read by majority vote */
+  private readonly headerCopies: number;
+  /** Bits taken by all copies of the length header */
+  private readonly headerBits: number;
+
+  constructor(options?: AlgorithmOptions) {
+    if (options?.seed) {
+      this.seed = options.seed;
+    }
+
+    const config = options?.config ?? {};
+
+    const sampleFormat = config.sampleFormat ?? 'int16le';
+    if (sampleFormat !== 'int16le' && sampleFormat !== 'uint8') {
+      throw new Error(`Invalid sampleFormat: ${String(sampleFormat)} (expected 'int16le' or 'uint8')`);
+    }
+    this.sampleFormat = sampleFormat;
+
+    const chipRate = config.chipRate ?? 256;
+    if (typeof chipRate !== 'number' || !Number.isInteger(chipRate) || chipRate < 1) {
+      throw new Error(`Invalid chipRate: ${String(chipRate)} (expected a positive integer)`);
+    }
+    this.chipRate = chipRate;
+
+    const strength = config.strength ?? (sampleFormat === 'int16le' ? 64 : 4);
+    if (typeof strength !== 'number' || !(strength > 0)) {
+      throw new Error(`Invalid strength: ${String(strength)} (expected a positive number)`);
+    }
+    this.strength = strength;
+
+    this.headerCopies = resolveHeaderCopies(config);
+    this.headerBits = HEADER_SIZE_BITS * this.headerCopies;
+  }
+
+  /**
+   * Encode data into cover media using spread-spectrum embedding
+   */
+  public encode(data: Buffer, cover: Buffer): Buffer {
+    const capacity = this.calculateCapacity(cover);
+    if (data.length > capacity) {
+      throw new Error(
+        `Cover media too small: ${data.length} bytes exceeds capacity ${capacity}`
+      );
+    }
+
+    const samples = this.readSamples(cover);
+    const pn = this.generatePN(samples.length);
+    const totalBits = this.headerBits + data.length * 8;
+
+    for (let i = 0; i < totalBits; i++) {
+      const bit = i < this.headerBits
+        ? repeatedHeaderBit(data.length, i, HEADER_SIZE_BITS)
+        : (data[(i - this.headerBits) >> 3] >> ((i - this.headerBits) & 7)) & 1;
+
+      this.embedBit(samples, pn, i * this.chipRate, bit === 1 ? 1 : -1);
+    }
+
+    const result = Buffer.from(cover);
+    this.writeSamples(result, samples);
+    return result;
+  }
+
+  /**
+   * Decode hidden data from steganographic media by correlation
+   */
+  public decode(stegData: Buffer): Buffer {
+    const samples = this.readSamples(stegData);
+    const windows = Math.floor(samples.length / this.chipRate);
+
+    if (windows < this.headerBits) {
+      throw new Error('Data too small to contain valid steganographic content');
+    }
+
+    const pn = this.generatePN(samples.length);
+
+    const dataLength = readRepeatedHeader(
+      (i) => (this.correlate(samples, pn, i * this.chipRate) > 0 ? 1 : 0),
+      HEADER_SIZE_BITS,
+      this.headerCopies
+    );
+
+    if (dataLength <= 0) {
+      throw new Error('Invalid data length: zero or negative');
+    }
+
+    const maxPossibleLength = Math.floor((windows - this.headerBits) / 8);
+    if (dataLength > maxPossibleLength) {
+      throw new Error(
+        `Invalid data length: ${dataLength} exceeds maximum ${maxPossibleLength}`
+      );
+    }
+
+    const result = Buffer.alloc(dataLength);
+    for (let i = 0; i < dataLength * 8; i++) {
+      const offset = (this.headerBits + i) * this.chipRate;
+      if (this.correlate(samples, pn, offset) > 0) {
+        result[i >> 3] |= 1 << (i & 7);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Calculate how many bytes can be hidden in cover media
+   */
+  public calculateCapacity(cover: Buffer): number {
+    const windows = Math.floor(this.sampleCount(cover) / this.chipRate);
+    return Math.max(0, Math.floor((windows - this.headerBits) / 8));
+  }
+
+  /**
+   * Set seed for the PN sequence.
+   * Encoder and decoder must use the same seed.
+   */
+  public setSeed(seed: string): void {
+    this.seed = seed;
+  }
+
+  /**
+   * Validate cover media suitability
+   */
+  public validateCover(cover: Buffer): boolean {
+    return this.calculateCapacity(cover) >= 1;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Push the window's correlation to at least `strength` in the bit's
+   * direction, re-measuring after rounding and clipping.
+   */
+  private embedBit(samples: Float64Array, pn: Int8Array, offset: number, sign: number): void {
+    const [min, max] = this.sampleRange();
+    // Aim slightly above the threshold so rounding cannot undercut it
+    const target = this.strength * 1.1;
+
+    for (let pass = 0; pass < MAX_EMBED_PASSES; pass++) {
+      const current = this.correlate(samples, pn, offset);
+      if (sign * current >= this.strength) {
+        return;
+      }
+
+      const alpha = sign * target - current;
+      for (let j = offset; j < offset + this.chipRate; j++) {
+        const value = Math.round(samples[j] + alpha * pn[j]);
+        samples[j] = Math.min(max, Math.max(min, value));
+      }
+    }
+  }
+
+  /**
+   * Mean of sample × PN over one window
+   */
+  private correlate(samples: Float64Array, pn: Int8Array, offset: number): number {
+    let sum = 0;
+    for (let j = offset; j < offset + this.chipRate; j++) {
+      sum += samples[j] * pn[j];
+    }
+    return sum / this.chipRate;
+  }
+
+  private generatePN(length: number): Int8Array {
+    const random = createSeededRandom(this.seed ?? DEFAULT_PN_SEED);
+    const pn = new Int8Array(length);
+    for (let i = 0; i < length; i++) {
+      pn[i] = random() < 0.5 ? -1 : 1;
+    }
+    return pn;
+  }
+
+  private sampleCount(buffer: Buffer): number {
+    return this.sampleFormat === 'int16le'
+      ? Math.floor(buffer.length / 2)
+      : buffer.length;
+  }
+
+  private sampleRange(): [number, number] {
+    return this.sampleFormat === 'int16le' ? [-32768, 32767] : [-128, 127];
+  }
+
+  private readSamples(buffer: Buffer): Float64Array {
+    const count = this.sampleCount(buffer);
+    const samples = new Float64Array(count);
+
+    for (let i = 0; i < count; i++) {
+      samples[i] = this.sampleFormat === 'int16le'
+        ? buffer.readInt16LE(i * 2)
+        : buffer[i] - 128;
+    }
+
+    return samples;
+  }
+
+  private writeSamples(buffer: Buffer, samples: Float64Array): void {
+    for (let i = 0; i < samples.length; i++) {
+      if (this.sampleFormat === 'int16le') {
+        buffer.writeInt16LE(samples[i], i * 2);
+      } else {
+        buffer[i] = samples[i] + 128;
+      }
+    }
+  }
+}
+
+/**
+ * Factory function for spread-spectrum algorithm
+ */
+export function createSpreadSpectrumAlgorithm(
+  options?: AlgorithmOptions
+): SpreadSpectrumAlgorithm {
+  return new SpreadSpectrumAlgorithm(options);
+}
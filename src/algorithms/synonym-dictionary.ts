@@ -0,0 +1,104 @@
+/**
+ * Bundled synonym table for the synonym substitution algorithm.
+ *
+ * Each set holds 2, 4 or 8 interchangeable lowercase words, and no word
+ * appears in more than one set. Members of a set share part of speech
+ * and inflection, and all take the same indefinite article, so swapping
+ * one for another never turns "a" into a mistaken "an". Words with common
+ * senses outside the set (such as "help" the noun, or "used to") are left
+ * out.
+ */
+export const DEFAULT_SYNONYM_SETS: readonly (readonly string[])[] = [
+  // Adjectives
+  ['big', 'large'],
+  ['huge', 'vast'],
+  ['small', 'little'],
+  ['quick', 'rapid'],
+  ['difficult', 'challenging'],
+  ['simple', 'straightforward'],
+  ['happy', 'cheerful'],
+  ['smart', 'clever'],
+  ['important', 'essential'],
+  ['obvious', 'evident'],
+  ['whole', 'complete'],
+  ['beautiful', 'lovely'],
+  ['strange', 'peculiar'],
+  ['odd', 'unusual'],
+  ['rich', 'wealthy'],
+  ['quiet', 'silent'],
+  ['angry', 'irate'],
+  ['brave', 'courageous'],
+  ['main', 'primary'],
+
+  // Adverbs
+  ['often', 'frequently'],
+  ['usually', 'generally', 'typically', 'normally'],
+  ['quickly', 'rapidly', 'swiftly', 'speedily'],
+  ['maybe', 'perhaps'],
+  ['almost', 'nearly'],
+  ['completely', 'entirely', 'totally', 'fully'],
+  ['really', 'truly'],
+  ['extremely', 'exceedingly'],
+  ['mostly', 'largely', 'mainly', 'chiefly'],
+  ['carefully', 'cautiously'],
+  ['eventually', 'ultimately'],
+  ['suddenly', 'abruptly'],
+  ['clearly', 'plainly', 'evidently', 'obviously'],
+
+  // Verbs
+  ['begin', 'start'],
+  ['begins', 'starts'],
+  ['beginning', 'starting'],
+  ['helps', 'assists'],
+  ['helped', 'assisted'],
+  ['helping', 'assisting'],
+  ['bought', 'purchased'],
+  ['showed', 'demonstrated'],
+  ['choose', 'select'],
+  ['chooses', 'selects'],
+  ['choosing', 'selecting'],
+  ['needed', 'required'],
+  ['tried', 'attempted'],
+  ['obtained', 'acquired'],
+  ['answered', 'replied'],
+  ['fixing', 'repairing'],
+  ['built', 'constructed'],
+  ['explain', 'clarify'],
+  ['explains', 'clarifies'],
+  ['explained', 'clarified'],
+  ['using', 'utilizing'],
+  ['ended', 'finished'],
+  ['seems', 'appears'],
+  ['seemed', 'appeared'],
+  ['gather', 'collect'],
+  ['gathered', 'collected'],
+  ['allow', 'permit'],
+  ['allows', 'permits'],
+  ['allowed', 'permitted'],
+  ['reduce', 'decrease'],
+  ['reduced', 'decreased'],
+  ['understand', 'comprehend'],
+  ['examine', 'inspect'],
+  ['examined', 'inspected'],
+
+  // Nouns
+  ['notion', 'concept'],
+  ['notions', 'concepts'],
+  ['method', 'technique'],
+  ['methods', 'techniques'],
+  ['goal', 'target'],
+  ['results', 'outcomes'],
+  ['task', 'job'],
+  ['tasks', 'jobs'],
+  ['pictures', 'images'],
+  ['chances', 'opportunities'],
+  ['example', 'instance'],
+  ['examples', 'instances'],
+  ['child', 'kid'],
+  ['children', 'kids'],
+  ['trip', 'journey'],
+  ['benefits', 'advantages'],
+  ['errors', 'mistakes'],
+  ['topic', 'subject'],
+  ['topics', 'subjects']
+];
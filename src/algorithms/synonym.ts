@@ -0,0 +1,275 @@
+import { StegAlgorithm, AlgorithmOptions } from '../interfaces/algorithm.interface';
+import { packBits, unpackBits } from '../utils/bit-utils';
+import { findProtectedText, readUtf8Text, tryReadUtf8Text } from '../utils/text';
+import { DEFAULT_SYNONYM_SETS } from './synonym-dictionary';
+
+/** Payload length header, in bytes */
+const LENGTH_HEADER_SIZE = 4;
+
+/** Allowed synonym set sizes, each a whole number of bits */
+const SET_SIZES: ReadonlyMap<number, number> = new Map([[2, 1], [4, 2], [8, 3]]);
+
+/**
+ * Words: runs of letters, digits and underscores, joined by apostrophes
+ * or hyphens, so "well-known" and "it's" are single words
+ */
+const WORD = /[\p{L}\p{N}_]+(?:['\u2019-][\p{L}\p{N}_]+)*/gu;
+
+type WordCase = 'lower' | 'title' | 'upper';
+
+interface SynonymEntry {
+  set: readonly string[];
+  bits: number;
+}
+
+/**
+ * A substitutable word occupying [start, end), with its synonym set
+ * and the case to write the chosen synonym in
+ */
+interface Slot {
+  start: number;
+  end: number;
+  entry: SynonymEntry;
+  wordCase: WordCase;
+}
+
+/**
+ * Synonym substitution steganography for natural-language UTF-8 text.
+ *
+ * Each word found in a synonym set carries log2(set size) bits: the
+ * word is replaced by the set member at the index given by those bits,
+ * e.g. "big" for 0 and "large" for 1. Words are matched case-insensitively
+ * and written back in the original case (lower, Capitalized or UPPER),
+ * and punctuation and spacing are left as they are. Words in links and
+ * code are never replaced.
+ *
+ * A 32-bit payload length is embedded first, so decoding needs only the
+ * text and the same synonym table. Capacity is the number of
+ * substitutable words times the bits of their sets, i.e.
+ * floor(bits / 8) - 4 bytes. The bundled table (`DEFAULT_SYNONYM_SETS`)
+ * is used unless `config.synonyms` provides one, as disjoint sets of 2,
+ * 4 or 8 lowercase words.
+ *
+ * @example
+ * ```typescript
+ * const syn = new SynonymAlgorithm();
+ * const cover = Buffer.from(longLlmReply);
+ *
+ * const encoded = syn.encode(Buffer.from('hi'), cover);
+ * console.log(syn.decode(encoded).toString()); // 'hi'
+ * ```
+ */
+export class SynonymAlgorithm implements StegAlgorithm {
+  public readonly name = 'synonym';
+  private readonly dictionary: ReadonlyMap<string, SynonymEntry>;
+
+  constructor(options?: AlgorithmOptions) {
+    const sets = options?.config?.synonyms ?? DEFAULT_SYNONYM_SETS;
+    this.dictionary = buildDictionary(sets);
+  }
+
+  /**
+   * Encode data by choosing among synonyms for the cover's words
+   */
+  public encode(data: Buffer, cover: Buffer): Buffer {
+    const text = readUtf8Text(cover);
+    const slots = this.findSlots(text);
+
+    const capacity = capacityFor(slots);
+    if (data.length > capacity) {
+      throw new Error(
+        `Cover media too small: ${data.length} bytes exceeds capacity ${capacity}`
+      );
+    }
+
+    const header = Buffer.alloc(LENGTH_HEADER_SIZE);
+    header.writeUInt32BE(data.length, 0);
+    const bits = unpackBits(Buffer.concat([header, data]));
+
+    const parts: string[] = [];
+    let position = 0;
+    let next = 0;
+
+    for (const slot of slots) {
+      if (next >= bits.length) break;
+
+      // The last word used may get fewer bits than its set holds; pad with 0
+      let index = 0;
+      for (let i = 0; i < slot.entry.bits; i++) {
+        index = (index << 1) | (bits[next++] ?? 0);
+      }
+
+      parts.push(text.slice(position, slot.start), applyCase(slot.entry.set[index], slot.wordCase));
+      position = slot.end;
+    }
+    parts.push(text.slice(position));
+
+    return Buffer.from(parts.join(''), 'utf8');
+  }
+
+  /**
+   * Decode data from the synonyms chosen in the text
+   */
+  public decode(stegData: Buffer): Buffer {
+    return this.extract(stegData, Infinity);
+  }
+
+  /**
+   * Read only the first `length` payload bytes (fewer if the payload is
+   * shorter), e.g. to inspect an embedded header without a full decode
+   */
+  public peek(stegData: Buffer, length: number): Buffer {
+    return this.extract(stegData, length);
+  }
+
+  /**
+   * Bytes that fit in the cover's substitutable words, or 0 for covers
+   * that are not valid UTF-8
+   */
+  public calculateCapacity(cover: Buffer): number {
+    const text = tryReadUtf8Text(cover);
+    return text === null ? 0 : capacityFor(this.findSlots(text));
+  }
+
+  /**
+   * Count the substitutable words and the bits they carry
+   */
+  public countSubstitutable(cover: Buffer): { words: number; bits: number } {
+    const slots = this.findSlots(readUtf8Text(cover));
+    return { words: slots.length, bits: totalBits(slots) };
+  }
+
+  /**
+   * Validate that the cover is UTF-8 text with room for at least one byte
+   */
+  public validateCover(cover: Buffer): boolean {
+    return this.calculateCapacity(cover) >= 1;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Words in the synonym table, in text order, outside links and code
+   */
+  private findSlots(text: string): Slot[] {
+    const isProtected = findProtectedText(text);
+    const slots: Slot[] = [];
+
+    for (const match of text.matchAll(WORD)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+
+      const entry = this.dictionary.get(match[0].toLowerCase());
+      const wordCase = caseOf(match[0]);
+      if (!entry || !wordCase || isProtected.slice(start, end).includes(true)) {
+        continue;
+      }
+
+      slots.push({ start, end, entry, wordCase });
+    }
+
+    return slots;
+  }
+
+  /**
+   * Validate the length header and extract up to `limit` payload bytes
+   */
+  private extract(stegData: Buffer, limit: number): Buffer {
+    const text = readUtf8Text(stegData);
+    const bits: number[] = [];
+
+    for (const slot of this.findSlots(text)) {
+      const index = slot.entry.set.indexOf(text.slice(slot.start, slot.end).toLowerCase());
+      for (let i = slot.entry.bits - 1; i >= 0; i--) {
+        bits.push((index >> i) & 1);
+      }
+    }
+
+    const headerBits = LENGTH_HEADER_SIZE * 8;
+    if (bits.length < headerBits) {
+      throw new Error('Data too small to contain valid steganographic content');
+    }
+
+    const dataLength = packBits(bits.slice(0, headerBits)).readUInt32BE(0);
+    if (dataLength <= 0) {
+      throw new Error('Invalid data length: zero or negative');
+    }
+
+    const available = Math.floor((bits.length - headerBits) / 8);
+    if (dataLength > available) {
+      throw new Error(`Invalid data length: ${dataLength} exceeds embedded ${available}`);
+    }
+
+    const length = Math.min(dataLength, limit);
+    return packBits(bits.slice(headerBits, headerBits + length * 8));
+  }
+}
+
+/**
+ * Index synonym sets by word, validating set sizes, spelling and that
+ * no word appears twice
+ */
+function buildDictionary(sets: unknown): Map<string, SynonymEntry> {
+  if (!Array.isArray(sets)) {
+    throw new Error(`Invalid synonyms: ${String(sets)} (expected an array of synonym sets)`);
+  }
+
+  const dictionary = new Map<string, SynonymEntry>();
+
+  sets.forEach((set: unknown, i) => {
+    const bits = Array.isArray(set) ? SET_SIZES.get(set.length) : undefined;
+    if (
+      bits === undefined ||
+      !(set as unknown[]).every((word) => typeof word === 'string' && /^[a-z]+$/.test(word))
+    ) {
+      throw new Error(
+        `Invalid synonym set ${i}: ${JSON.stringify(set)} (expected 2, 4 or 8 lowercase words)`
+      );
+    }
+
+    const entry: SynonymEntry = { set: [...(set as string[])], bits };
+    for (const word of entry.set) {
+      if (dictionary.has(word)) {
+        throw new Error(`Invalid synonym set ${i}: "${word}" already appears in another set`);
+      }
+      dictionary.set(word, entry);
+    }
+  });
+
+  return dictionary;
+}
+
+function caseOf(word: string): WordCase | null {
+  if (/^[a-z]+$/.test(word)) return 'lower';
+  if (/^[A-Z][a-z]+$/.test(word)) return 'title';
+  if (/^[A-Z]{2,}$/.test(word)) return 'upper';
+  return null;
+}
+
+function applyCase(word: string, wordCase: WordCase): string {
+  switch (wordCase) {
+    case 'lower':
+      return word;
+    case 'title':
+      return word[0].toUpperCase() + word.slice(1);
+    case 'upper':
+      return word.toUpperCase();
+  }
+}
+
+function totalBits(slots: Slot[]): number {
+  return slots.reduce((sum, slot) => sum + slot.entry.bits, 0);
+}
+
+function capacityFor(slots: Slot[]): number {
+  return Math.max(0, Math.floor(totalBits(slots) / 8) - LENGTH_HEADER_SIZE);
+}
+
+/**
+ * Factory function for synonym substitution algorithm
+ */
+export function createSynonymAlgorithm(options?: AlgorithmOptions): SynonymAlgorithm {
+  return new SynonymAlgorithm(options);
+}
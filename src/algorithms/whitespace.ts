@@ -0,0 +1,293 @@
+import { StegAlgorithm, AlgorithmOptions } from '../interfaces/algorithm.interface';
+import { packBits, unpackBits } from '../utils/bit-utils';
+import { findFencedLines, readUtf8Text, tryReadUtf8Text } from '../utils/text';
+
+/** Payload length header, in bytes */
+const LENGTH_HEADER_SIZE = 4;
+
+/** Most bits a single line end may carry */
+const MAX_BITS_PER_LINE = 64;
+
+/** Block markers whose following space sets the content indent */
+const BLOCK_MARKER = /^([-+*]|\d{1,9}[.)]|>+|#{1,6})$/;
+
+/**
+ * A place that carries bits: a gap of one or two spaces between words
+ * (1 bit), or the trailing whitespace of a line, occupying [start, end)
+ */
+interface Slot {
+  kind: 'gap' | 'line';
+  start: number;
+  end: number;
+}
+
+/**
+ * Whitespace steganography for UTF-8 text, in the style of SNOW.
+ *
+ * Bits are carried by two kinds of whitespace a reader never sees:
+ * - Inter-word gaps: one space is 0, two spaces are 1
+ * - Line ends: trailing spaces (0) and tabs (1), closed by a tab
+ *
+ * Slots are read in text order, each line's gaps before its line end,
+ * and a 32-bit payload length is embedded first, so decoding needs only
+ * the text. Capacity is floor((gaps + lines * bitsPerLine) / 8) - 4 bytes,
+ * with `config.bitsPerLine` defaulting to 8 (0 uses gaps only).
+ *
+ * Only whitespace a Markdown renderer collapses or strips is used.
+ * Code fences, indented code, inline code spans, blank lines and the
+ * space after list, quote and heading markers are left alone. Trailing
+ * runs always end in a tab, so they never become hard line breaks,
+ * and lines already ending in a hard break are skipped. The last line
+ * carries bits only if it ends in a newline, as trailing whitespace
+ * there is easily lost. LF and CRLF line endings both work.
+ *
+ * @example
+ * ```typescript
+ * const ws = new WhitespaceAlgorithm();
+ * const cover = Buffer.from(markdownReply);
+ *
+ * const encoded = ws.encode(Buffer.from('secret'), cover);
+ * console.log(ws.decode(encoded).toString()); // 'secret'
+ * ```
+ */
+export class WhitespaceAlgorithm implements StegAlgorithm {
+  public readonly name = 'whitespace';
+  private readonly bitsPerLine: number;
+
+  constructor(options?: AlgorithmOptions) {
+    const bitsPerLine = options?.config?.bitsPerLine ?? 8;
+    if (
+      typeof bitsPerLine !== 'number' ||
+      !Number.isInteger(bitsPerLine) ||
+      bitsPerLine < 0 ||
+      bitsPerLine > MAX_BITS_PER_LINE
+    ) {
+      throw new Error(`Invalid bitsPerLine: ${String(bitsPerLine)} (expected 0-${MAX_BITS_PER_LINE})`);
+    }
+    this.bitsPerLine = bitsPerLine;
+  }
+
+  /**
+   * Encode data in the cover's inter-word gaps and line ends
+   */
+  public encode(data: Buffer, cover: Buffer): Buffer {
+    const text = readUtf8Text(cover);
+    const slots = findSlots(text);
+
+    const capacity = this.capacityFor(slots);
+    if (data.length > capacity) {
+      throw new Error(
+        `Cover media too small: ${data.length} bytes exceeds capacity ${capacity}`
+      );
+    }
+
+    const header = Buffer.alloc(LENGTH_HEADER_SIZE);
+    header.writeUInt32BE(data.length, 0);
+    const bits = unpackBits(Buffer.concat([header, data]));
+
+    const parts: string[] = [];
+    let position = 0;
+    let next = 0;
+
+    for (const slot of slots) {
+      if (next >= bits.length) break;
+
+      let whitespace: string;
+      if (slot.kind === 'gap') {
+        whitespace = bits[next++] ? '  ' : ' ';
+      } else {
+        // Without line bits, clear the run so stray tabs don't read as data
+        const run = bits.slice(next, next + this.bitsPerLine);
+        next += run.length;
+        whitespace = run.length > 0 ? run.map((b) => (b ? '\t' : ' ')).join('') + '\t' : '';
+      }
+
+      parts.push(text.slice(position, slot.start), whitespace);
+      position = slot.end;
+    }
+    parts.push(text.slice(position));
+
+    return Buffer.from(parts.join(''), 'utf8');
+  }
+
+  /**
+   * Decode data from the text's inter-word gaps and line ends
+   */
+  public decode(stegData: Buffer): Buffer {
+    return this.extract(stegData, Infinity);
+  }
+
+  /**
+   * Read only the first `length` payload bytes (fewer if the payload is
+   * shorter), e.g. to inspect an embedded header without a full decode
+   */
+  public peek(stegData: Buffer, length: number): Buffer {
+    return this.extract(stegData, length);
+  }
+
+  /**
+   * Bytes that fit in the cover's gaps and line ends, or 0 for covers
+   * that are not valid UTF-8
+   */
+  public calculateCapacity(cover: Buffer): number {
+    const text = tryReadUtf8Text(cover);
+    return text === null ? 0 : this.capacityFor(findSlots(text));
+  }
+
+  /**
+   * Count the inter-word gaps and line ends available for embedding
+   */
+  public countSlots(cover: Buffer): { gaps: number; lines: number } {
+    const slots = findSlots(readUtf8Text(cover));
+    const gaps = slots.filter((slot) => slot.kind === 'gap').length;
+    return { gaps, lines: slots.length - gaps };
+  }
+
+  /**
+   * Validate that the cover is UTF-8 text with room for at least one byte
+   */
+  public validateCover(cover: Buffer): boolean {
+    return this.calculateCapacity(cover) >= 1;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private capacityFor(slots: Slot[]): number {
+    const bits = slots.reduce(
+      (sum, slot) => sum + (slot.kind === 'gap' ? 1 : this.bitsPerLine),
+      0
+    );
+    return Math.max(0, Math.floor(bits / 8) - LENGTH_HEADER_SIZE);
+  }
+
+  /**
+   * Validate the length header and extract up to `limit` payload bytes
+   */
+  private extract(stegData: Buffer, limit: number): Buffer {
+    const text = readUtf8Text(stegData);
+    const bits: number[] = [];
+
+    for (const slot of findSlots(text)) {
+      const run = text.slice(slot.start, slot.end);
+
+      if (slot.kind === 'gap') {
+        bits.push(run.length === 2 ? 1 : 0);
+      } else if (run.endsWith('\t')) {
+        for (const char of run.slice(0, -1)) {
+          bits.push(char === '\t' ? 1 : 0);
+        }
+      }
+    }
+
+    const headerBits = LENGTH_HEADER_SIZE * 8;
+    if (bits.length < headerBits) {
+      throw new Error('Data too small to contain valid steganographic content');
+    }
+
+    const dataLength = packBits(bits.slice(0, headerBits)).readUInt32BE(0);
+    if (dataLength <= 0) {
+      throw new Error('Invalid data length: zero or negative');
+    }
+
+    const available = Math.floor((bits.length - headerBits) / 8);
+    if (dataLength > available) {
+      throw new Error(`Invalid data length: ${dataLength} exceeds embedded ${available}`);
+    }
+
+    const length = Math.min(dataLength, limit);
+    return packBits(bits.slice(headerBits, headerBits + length * 8));
+  }
+}
+
+/**
+ * Slots in text order. Depends only on what embedding never changes
+ * (words, leading whitespace, fences), so cover and stego text agree.
+ */
+function findSlots(text: string): Slot[] {
+  const slots: Slot[] = [];
+  const lines = text.split('\n');
+  const fenced = findFencedLines(lines);
+  let offset = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const base = offset;
+    const line = lines[i].endsWith('\r') ? lines[i].slice(0, -1) : lines[i];
+    offset += lines[i].length + 1;
+
+    // Skip fenced code, including the fence lines
+    if (fenced[i]) {
+      continue;
+    }
+
+    // Skip blank lines and indented code
+    if (line.trim() === '' || /^( {4}|\t)/.test(line)) {
+      continue;
+    }
+
+    const contentStart = line.length - line.trimStart().length;
+    const contentEnd = line.trimEnd().length;
+    findGaps(line, contentStart, contentEnd, base, slots);
+
+    // Trailing whitespace, unless it is a hard break or the text's last line
+    const trailing = line.slice(contentEnd);
+    if (i < lines.length - 1 && !trailing.endsWith('  ')) {
+      slots.push({ kind: 'line', start: base + contentEnd, end: base + line.length });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Gaps of one or two spaces between words, outside inline code spans
+ * and not directly after a block marker
+ */
+function findGaps(line: string, start: number, end: number, base: number, slots: Slot[]): void {
+  let codeTicks = 0;
+  let firstGap = true;
+  let i = start;
+
+  while (i < end) {
+    if (line[i] === '`') {
+      let ticks = 0;
+      while (line[i] === '`') {
+        ticks++;
+        i++;
+      }
+      if (codeTicks === 0) {
+        codeTicks = ticks;
+      } else if (ticks === codeTicks) {
+        codeTicks = 0;
+      }
+      continue;
+    }
+
+    if (line[i] !== ' ' && line[i] !== '\t') {
+      i++;
+      continue;
+    }
+
+    let gapEnd = i;
+    while (line[gapEnd] === ' ' || line[gapEnd] === '\t') {
+      gapEnd++;
+    }
+
+    const gap = line.slice(i, gapEnd);
+    const afterMarker = firstGap && BLOCK_MARKER.test(line.slice(start, i));
+    if (codeTicks === 0 && !afterMarker && (gap === ' ' || gap === '  ')) {
+      slots.push({ kind: 'gap', start: base + i, end: base + gapEnd });
+    }
+
+    firstGap = false;
+    i = gapEnd;
+  }
+}
+
+/**
+ * Factory function for whitespace text algorithm
+ */
+export function createWhitespaceAlgorithm(options?: AlgorithmOptions): WhitespaceAlgorithm {
+  return new WhitespaceAlgorithm(options);
+}
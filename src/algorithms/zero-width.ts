@@ -0,0 +1,253 @@
+import { StegAlgorithm, AlgorithmOptions } from '../interfaces/algorithm.interface';
+import { readUtf8Text, tryReadUtf8Text } from '../utils/text';
+
+/**
+ * Zero-width characters, one per 2-bit symbol value:
+ * ZERO WIDTH SPACE, ZERO WIDTH NON-JOINER, ZERO WIDTH JOINER, WORD JOINER
+ */
+const SYMBOLS = ['\u200B', '\u200C', '\u200D', '\u2060'] as const;
+
+const SYMBOL_VALUES: ReadonlyMap<string, number> = new Map(SYMBOLS.map((char, i) => [char, i]));
+
+/** Payload length header, in bytes */
+const LENGTH_HEADER_SIZE = 4;
+
+/** 2 bits per symbol, so 4 symbols per byte */
+const SYMBOLS_PER_BYTE = 4;
+
+/** Longest run of symbols allowed at one boundary */
+const MAX_SYMBOLS_PER_BOUNDARY = 64;
+
+/**
+ * A word boundary: the end of a word, where any zero-width characters
+ * already present occupy [start, end)
+ */
+interface Boundary {
+  start: number;
+  end: number;
+}
+
+/**
+ * Zero-width Unicode steganography for UTF-8 text.
+ *
+ * Hides data in runs of invisible characters (ZWSP, ZWNJ, ZWJ and WORD
+ * JOINER, 2 bits each) inserted at word boundaries: directly after the
+ * last character of a word, before the following whitespace or the end
+ * of the text. The visible text is untouched, so it renders identically
+ * and stays valid UTF-8. A 32-bit payload length is embedded first.
+ *
+ * Boundaries are filled in order with up to `config.symbolsPerBoundary`
+ * characters each (default 8, i.e. 2 bytes per word), so capacity is
+ * floor(boundaries * symbolsPerBoundary / 4) - 4 bytes. Zero-width
+ * characters inside words, such as the joiners in emoji sequences, are
+ * left alone.
+ *
+ * @example
+ * ```typescript
+ * const zw = new ZeroWidthAlgorithm();
+ * const cover = Buffer.from('The quick brown fox jumps over the lazy dog.');
+ *
+ * const encoded = zw.encode(Buffer.from('hi'), cover);
+ * console.log(encoded.toString() === cover.toString()); // false, but looks the same
+ * console.log(zw.decode(encoded).toString()); // 'hi'
+ * ```
+ */
+export class ZeroWidthAlgorithm implements StegAlgorithm {
+  public readonly name = 'zero-width';
+  private readonly symbolsPerBoundary: number;
+
+  constructor(options?: AlgorithmOptions) {
+    const perBoundary = options?.config?.symbolsPerBoundary ?? 8;
+    if (
+      typeof perBoundary !== 'number' ||
+      !Number.isInteger(perBoundary) ||
+      perBoundary < 1 ||
+      perBoundary > MAX_SYMBOLS_PER_BOUNDARY
+    ) {
+      throw new Error(
+        `Invalid symbolsPerBoundary: ${String(perBoundary)} (expected 1-${MAX_SYMBOLS_PER_BOUNDARY})`
+      );
+    }
+    this.symbolsPerBoundary = perBoundary;
+  }
+
+  /**
+   * Encode data as zero-width characters at the cover's word boundaries
+   */
+  public encode(data: Buffer, cover: Buffer): Buffer {
+    const text = readUtf8Text(cover);
+    const boundaries = findBoundaries(text);
+
+    const capacity = this.capacityFor(boundaries.length);
+    if (data.length > capacity) {
+      throw new Error(
+        `Cover media too small: ${data.length} bytes exceeds capacity ${capacity}`
+      );
+    }
+
+    const header = Buffer.alloc(LENGTH_HEADER_SIZE);
+    header.writeUInt32BE(data.length, 0);
+    const symbols = toSymbols(Buffer.concat([header, data]));
+
+    // Replace any zero-width run at each boundary used with our own
+    const parts: string[] = [];
+    let position = 0;
+    let next = 0;
+
+    for (const boundary of boundaries) {
+      if (next >= symbols.length) break;
+
+      const run = symbols.slice(next, next + this.symbolsPerBoundary);
+      next += run.length;
+
+      parts.push(text.slice(position, boundary.start), run.map((s) => SYMBOLS[s]).join(''));
+      position = boundary.end;
+    }
+    parts.push(text.slice(position));
+
+    return Buffer.from(parts.join(''), 'utf8');
+  }
+
+  /**
+   * Decode data from the zero-width characters at word boundaries
+   */
+  public decode(stegData: Buffer): Buffer {
+    return this.extract(stegData, Infinity);
+  }
+
+  /**
+   * Read only the first `length` payload bytes (fewer if the payload is
+   * shorter), e.g. to inspect an embedded header without a full decode
+   */
+  public peek(stegData: Buffer, length: number): Buffer {
+    return this.extract(stegData, length);
+  }
+
+  /**
+   * Bytes that fit in the cover's word boundaries, or 0 for covers
+   * that are not valid UTF-8
+   */
+  public calculateCapacity(cover: Buffer): number {
+    const text = tryReadUtf8Text(cover);
+    return text === null ? 0 : this.capacityFor(findBoundaries(text).length);
+  }
+
+  /**
+   * Number of insertion points (word boundaries) in a cover
+   */
+  public countBoundaries(cover: Buffer): number {
+    return findBoundaries(readUtf8Text(cover)).length;
+  }
+
+  /**
+   * Validate that the cover is UTF-8 text with room for at least one byte
+   */
+  public validateCover(cover: Buffer): boolean {
+    return this.calculateCapacity(cover) >= 1;
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  private capacityFor(boundaries: number): number {
+    const bytes = Math.floor((boundaries * this.symbolsPerBoundary) / SYMBOLS_PER_BYTE);
+    return Math.max(0, bytes - LENGTH_HEADER_SIZE);
+  }
+
+  /**
+   * Validate the length header and extract up to `limit` payload bytes
+   */
+  private extract(stegData: Buffer, limit: number): Buffer {
+    const text = readUtf8Text(stegData);
+    const symbols: number[] = [];
+
+    for (const { start, end } of findBoundaries(text)) {
+      for (let i = start; i < end; i++) {
+        symbols.push(SYMBOL_VALUES.get(text[i])!);
+      }
+    }
+
+    const headerSymbols = LENGTH_HEADER_SIZE * SYMBOLS_PER_BYTE;
+    if (symbols.length < headerSymbols) {
+      throw new Error('Data too small to contain valid steganographic content');
+    }
+
+    const dataLength = fromSymbols(symbols, 0, LENGTH_HEADER_SIZE).readUInt32BE(0);
+    if (dataLength <= 0) {
+      throw new Error('Invalid data length: zero or negative');
+    }
+
+    const available = Math.floor((symbols.length - headerSymbols) / SYMBOLS_PER_BYTE);
+    if (dataLength > available) {
+      throw new Error(`Invalid data length: ${dataLength} exceeds embedded ${available}`);
+    }
+
+    return fromSymbols(symbols, headerSymbols, Math.min(dataLength, limit));
+  }
+}
+
+function isWhitespace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+/**
+ * Word ends, in order, with the zero-width run (if any) that follows
+ * each word's last visible character
+ */
+function findBoundaries(text: string): Boundary[] {
+  const boundaries: Boundary[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (isWhitespace(text[i])) {
+      i++;
+      continue;
+    }
+
+    let end = i;
+    while (end < text.length && !isWhitespace(text[end])) {
+      end++;
+    }
+
+    let start = end;
+    while (start > i && SYMBOL_VALUES.has(text[start - 1])) {
+      start--;
+    }
+
+    // Runs of nothing but zero-width characters are not words
+    if (start > i) {
+      boundaries.push({ start, end });
+    }
+    i = end;
+  }
+
+  return boundaries;
+}
+
+/**
+ * Split bytes into 2-bit symbols, most significant first
+ */
+function toSymbols(bytes: Buffer): number[] {
+  const symbols: number[] = [];
+  for (const byte of bytes) {
+    symbols.push((byte >> 6) & 3, (byte >> 4) & 3, (byte >> 2) & 3, byte & 3);
+  }
+  return symbols;
+}
+
+function fromSymbols(symbols: number[], offset: number, length: number): Buffer {
+  const bytes = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    const base = offset + i * SYMBOLS_PER_BYTE;
+    bytes[i] = (symbols[base] << 6) | (symbols[base + 1] << 4) | (symbols[base + 2] << 2) | symbols[base + 3];
+  }
+  return bytes;
+}
+
+/**
+ * Factory function for zero-width text algorithm
+ */
+export function createZeroWidthAlgorithm(options?: AlgorithmOptions): ZeroWidthAlgorithm {
+  return new ZeroWidthAlgorithm(options);
+}
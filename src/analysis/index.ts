@@ -0,0 +1,16 @@
+export {
+  ChiSquareOptions,
+  chiSquareAttack
+} from './chi-square';
+export {
+  RSAnalysisOptions,
+  rsAnalysis
+} from './rs-analysis';
+export {
+  SamplePairOptions,
+  samplePairAnalysis
+} from './sample-pair';
+export {
+  SteganalysisOptions,
+  analyze
+} from './steganalysis';
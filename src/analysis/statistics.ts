@@ -0,0 +1,157 @@
+/**
+ * Numeric helpers shared by the steganalysis detectors
+ */
+
+/**
+ * Probability that a chi-square variable with `df` degrees of freedom
+ * is at most `x` (the regularized lower incomplete gamma P(df/2, x/2))
+ */
+export function chiSquareCdf(x: number, df: number): number {
+  if (x <= 0 || df <= 0) {
+    return 0;
+  }
+  return regularizedGammaP(df / 2, x / 2);
+}
+
+/**
+ * Confidence that grows with the number of independent observations
+ * behind an estimate: 0 with none, 0.5 at `scale`, approaching 1
+ */
+export function sampleConfidence(count: number, scale: number): number {
+  return count <= 0 ? 0 : count / (count + scale);
+}
+
+export function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Mean squared relative imbalance between neighbouring values, beyond
+ * sampling noise, below which a histogram counts as smooth and above
+ * which (by the margin) it counts as fully rough. Sampled signals such
+ * as images, audio and noise sit near zero; text sits well above.
+ */
+const ROUGHNESS_FLOOR = 0.02;
+const ROUGHNESS_MARGIN = 0.2;
+
+/**
+ * How uneven a byte histogram is between neighbouring values: 0 for
+ * smooth histograms (sampled signals), 1 for rough ones (text and other
+ * symbol data). Measured on the pairs 2k-1, 2k, which LSB replacement
+ * never merges, so embedding barely changes it.
+ *
+ * The chi-square attack needs a rough histogram to see LSB replacement
+ * even it out; RS and sample pair analysis assume a smooth one.
+ */
+export function histogramRoughness(data: Buffer): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const byte of data) {
+    histogram[byte]++;
+  }
+
+  let excess = 0;
+  let counted = 0;
+  for (let k = 1; k + 1 < 256; k += 2) {
+    const n = histogram[k] + histogram[k + 1];
+    if (n < 10) {
+      continue;
+    }
+    // (a - b)² / n averages 1 when the two values are equally likely
+    excess += (histogram[k] - histogram[k + 1]) ** 2 / n - 1;
+    counted += n;
+  }
+
+  return counted === 0 ? 0 : clamp01((excess / counted - ROUGHNESS_FLOOR) / ROUGHNESS_MARGIN);
+}
+
+/**
+ * Root of a·x² + b·x + c = 0 with the smaller magnitude. When sampling
+ * noise pushes the roots off the real line (typical near full
+ * embedding) their common real part is returned. Null if the equation
+ * is degenerate.
+ */
+export function smallerRoot(a: number, b: number, c: number): number | null {
+  if (Math.abs(a) < 1e-12) {
+    return Math.abs(b) < 1e-12 ? null : -c / b;
+  }
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) {
+    return -b / (2 * a);
+  }
+
+  const sqrt = Math.sqrt(discriminant);
+  const r1 = (-b + sqrt) / (2 * a);
+  const r2 = (-b - sqrt) / (2 * a);
+  return Math.abs(r1) < Math.abs(r2) ? r1 : r2;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Incomplete Gamma Function
+// ─────────────────────────────────────────────────────────────
+
+const EPSILON = 1e-12;
+const MAX_ITERATIONS = 1000;
+
+function regularizedGammaP(a: number, x: number): number {
+  return x < a + 1
+    ? gammaSeries(a, x)
+    : 1 - gammaContinuedFraction(a, x);
+}
+
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) {
+      break;
+    }
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+/**
+ * Upper tail Q(a, x) by Lentz's continued fraction
+ */
+function gammaContinuedFraction(a: number, x: number): number {
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) {
+      break;
+    }
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/**
+ * Lanczos approximation of ln Γ(x)
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.1800917294715, -86.5053203294168, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return -tmp + Math.log((2.506628274631 * series) / x);
+}
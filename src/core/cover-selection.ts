@@ -0,0 +1,169 @@
+import {
+  CoverMedia,
+  CoverSelectionConfig,
+  CoverSelectionRequest,
+  CoverSelectionStrategy,
+  CoverSelector
+} from '../interfaces/steg-config.interface';
+import { RandomSource, createSeededRandom } from '../utils/prng';
+
+const STRATEGIES: readonly CoverSelectionStrategy[] = ['round-robin', 'best-fit', 'random', 'lru'];
+
+/**
+ * Rotates through the pool in order, regardless of payload size.
+ * Removing a cover keeps the rotation on the cover that was next.
+ */
+export class RoundRobinSelector implements CoverSelector {
+  public readonly name = 'round-robin';
+  private next = 0;
+
+  public select(pool: readonly CoverMedia[], request: CoverSelectionRequest): CoverMedia | null {
+    for (let i = 0; i < pool.length; i++) {
+      const index = (this.next + i) % pool.length;
+      if (!request.exclude?.has(pool[index])) {
+        this.next = (index + 1) % pool.length;
+        return pool[index];
+      }
+    }
+    return null;
+  }
+
+  public onRemove(index: number): void {
+    if (index < this.next) {
+      this.next--;
+    }
+  }
+}
+
+/**
+ * Picks the smallest cover that holds the payload, keeping large covers
+ * free for large payloads. When none holds it, picks the cover with the
+ * most room so split payloads need as few covers as possible.
+ */
+export class BestFitSelector implements CoverSelector {
+  public readonly name = 'best-fit';
+
+  public select(pool: readonly CoverMedia[], request: CoverSelectionRequest): CoverMedia | null {
+    let best: CoverMedia | null = null;
+    let bestRoom = 0;
+    let largest: CoverMedia | null = null;
+    let largestRoom = -Infinity;
+
+    for (const cover of pool) {
+      if (request.exclude?.has(cover)) continue;
+
+      const room = request.room(cover);
+      if (room >= request.size && (best === null || room < bestRoom)) {
+        best = cover;
+        bestRoom = room;
+      }
+      if (room > largestRoom) {
+        largest = cover;
+        largestRoom = room;
+      }
+    }
+
+    return best ?? largest;
+  }
+}
+
+/**
+ * Picks a random cover that holds the payload
+ */
+export class RandomSelector implements CoverSelector {
+  public readonly name = 'random';
+  private readonly random: RandomSource;
+
+  constructor(seed?: string) {
+    this.random = seed !== undefined ? createSeededRandom(seed) : Math.random;
+  }
+
+  public select(pool: readonly CoverMedia[], request: CoverSelectionRequest): CoverMedia | null {
+    const candidates = fittingCovers(pool, request);
+    if (candidates.length === 0) {
+      return null;
+    }
+    return candidates[Math.floor(this.random() * candidates.length)];
+  }
+}
+
+/**
+ * Picks the least recently selected cover that holds the payload.
+ * Covers never selected come first, in pool order.
+ */
+export class LeastRecentlyUsedSelector implements CoverSelector {
+  public readonly name = 'lru';
+  private readonly lastUsed = new WeakMap<CoverMedia, number>();
+  private clock = 0;
+
+  public select(pool: readonly CoverMedia[], request: CoverSelectionRequest): CoverMedia | null {
+    let chosen: CoverMedia | null = null;
+    let oldest = Infinity;
+
+    for (const cover of fittingCovers(pool, request)) {
+      const used = this.lastUsed.get(cover) ?? -1;
+      if (used < oldest) {
+        chosen = cover;
+        oldest = used;
+      }
+    }
+
+    if (chosen) {
+      this.lastUsed.set(chosen, this.clock++);
+    }
+    return chosen;
+  }
+}
+
+/**
+ * Covers that hold the whole payload; failing that, covers with any
+ * room; failing that, every cover not excluded
+ */
+function fittingCovers(pool: readonly CoverMedia[], request: CoverSelectionRequest): CoverMedia[] {
+  const open = pool.filter((cover) => !request.exclude?.has(cover));
+  const rooms = open.map((cover) => request.room(cover));
+
+  const fitting = open.filter((_, i) => rooms[i] >= request.size);
+  if (fitting.length > 0) {
+    return fitting;
+  }
+
+  const usable = open.filter((_, i) => rooms[i] > 0);
+  return usable.length > 0 ? usable : open;
+}
+
+/**
+ * Create the selector for a cover selection config.
+ * Custom selectors are returned as-is.
+ *
+ * @example
+ * ```typescript
+ * const selector = createCoverSelector({ strategy: 'random', seed: 'covers' });
+ * const cover = selector.select(pool, { size: 64, room: (c) => c.capacity ?? 0 });
+ * ```
+ */
+export function createCoverSelector(config: CoverSelectionConfig = {}): CoverSelector {
+  const strategy = config.strategy ?? 'round-robin';
+
+  if (typeof strategy === 'object' && strategy !== null) {
+    if (typeof strategy.select !== 'function') {
+      throw new Error('Invalid cover selector: missing select() method');
+    }
+    return strategy;
+  }
+
+  switch (strategy) {
+    case 'round-robin':
+      return new RoundRobinSelector();
+    case 'best-fit':
+      return new BestFitSelector();
+    case 'random':
+      return new RandomSelector(config.seed);
+    case 'lru':
+      return new LeastRecentlyUsedSelector();
+    default:
+      throw new Error(
+        `Invalid cover selection strategy: ${String(strategy)} (expected ${STRATEGIES.join(', ')})`
+      );
+  }
+}
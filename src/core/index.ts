@@ -1,2 +1,31 @@
 export { StegEngine, StegEngineOptions, createStegEngine } from './steg-engine';
 export { StegTransport, createStegTransport } from './steg-transport';
+export {
+  Reassembler,
+  ReassemblerOptions,
+  FRAGMENT_HEADER_SIZE,
+  MAX_FRAGMENTS,
+  encodeFragment,
+  decodeFragment,
+  createMessageId,
+  createReassembler
+} from './reassembler';
+export {
+  StegMetrics,
+  StegMetricsSnapshot,
+  StegTransportMetricsSnapshot,
+  TransportMetricsSnapshot,
+  LatencyHistogramSnapshot,
+  PrometheusFormatOptions,
+  DEFAULT_LATENCY_BUCKETS_MS,
+  createStegMetrics,
+  createTransportMetrics,
+  formatPrometheusMetrics
+} from './metrics';
+export {
+  RoundRobinSelector,
+  BestFitSelector,
+  RandomSelector,
+  LeastRecentlyUsedSelector,
+  createCoverSelector
+} from './cover-selection';
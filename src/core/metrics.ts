@@ -0,0 +1,359 @@
+import { StegDecodeErrorCode } from '../interfaces/steg-config.interface';
+
+/**
+ * Default latency histogram bucket upper bounds in milliseconds
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS: readonly number[] = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000
+];
+
+/**
+ * Cumulative latency histogram
+ */
+export interface LatencyHistogramSnapshot {
+  /** Bucket upper bounds in milliseconds (an implicit +Inf bucket follows) */
+  bucketsMs: number[];
+  /** Observations at or below each bound, then the total (+Inf) */
+  counts: number[];
+  /** Sum of observed latencies in milliseconds */
+  sumMs: number;
+  /** Number of observations */
+  count: number;
+}
+
+/**
+ * Counters collected by a StegEngine
+ */
+export interface StegMetricsSnapshot {
+  encodes: { success: number; failure: number };
+  decodes: { success: number; failure: number };
+  /** Decode failures by error code */
+  decodeErrors: Partial<Record<StegDecodeErrorCode, number>>;
+  /** Encode failures by the `onError` strategy that handled them */
+  onError: { passthrough: number; drop: number; throw: number };
+  /** Payload bytes hidden (before compression and framing) */
+  bytesHidden: number;
+  /** Bytes embedded, including container, cipher and FEC overhead */
+  bytesEmbedded: number;
+  /** Size of the covers used */
+  coverBytesConsumed: number;
+  /** Capacity of the covers used */
+  capacityOffered: number;
+  /** bytesEmbedded / capacityOffered (0 before the first encode) */
+  capacityUtilisation: number;
+  /** Latency of successful encodes */
+  encodeLatency: LatencyHistogramSnapshot;
+  /** Latency of successful decodes */
+  decodeLatency: LatencyHistogramSnapshot;
+}
+
+/**
+ * Packet counters collected by a StegTransport
+ */
+export interface TransportMetricsSnapshot {
+  /** Packets handed to the inner transport */
+  packetsSent: number;
+  /** Packets received from the inner transport */
+  packetsReceived: number;
+  /** Payloads delivered to data handlers */
+  delivered: number;
+  /** Packets that failed to decode and were delivered raw */
+  rawPassthrough: number;
+  /** Packets not sent or not delivered, by reason */
+  dropped: { encodeFailed: number; authFailed: number; checksumFailed: number };
+  /** Fragmented messages completed */
+  messagesReassembled: number;
+  /** Incomplete messages dropped by the reassembler */
+  staleMessages: number;
+}
+
+/**
+ * Metrics of a StegTransport: its engine's counters plus packet counters
+ */
+export interface StegTransportMetricsSnapshot extends StegMetricsSnapshot {
+  transport: TransportMetricsSnapshot;
+}
+
+/**
+ * Options for the Prometheus exporter
+ */
+export interface PrometheusFormatOptions {
+  /** Metric name prefix (default: 'llm_steg') */
+  prefix?: string;
+  /** Labels added to every sample, e.g. `{ instance: 'relay-1' }` */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Latency histogram with fixed buckets
+ */
+class LatencyHistogram {
+  private counts: number[];
+  private sumMs = 0;
+  private count = 0;
+
+  constructor(private readonly bucketsMs: readonly number[]) {
+    this.counts = new Array<number>(bucketsMs.length).fill(0);
+  }
+
+  public observe(ms: number): void {
+    const index = this.bucketsMs.findIndex((bound) => ms <= bound);
+    if (index >= 0) {
+      this.counts[index]++;
+    }
+    this.sumMs += ms;
+    this.count++;
+  }
+
+  public snapshot(): LatencyHistogramSnapshot {
+    const counts: number[] = [];
+    let running = 0;
+    for (const c of this.counts) {
+      running += c;
+      counts.push(running);
+    }
+    counts.push(this.count);
+
+    return { bucketsMs: [...this.bucketsMs], counts, sumMs: this.sumMs, count: this.count };
+  }
+}
+
+/**
+ * Runtime metrics for a StegEngine.
+ *
+ * Counters are cumulative from creation or the last `reset()`, the way
+ * Prometheus expects. Take a `snapshot()` for the current values, or
+ * render one with `formatPrometheusMetrics`.
+ *
+ * @example
+ * ```typescript
+ * const engine = new StegEngine({ coverMedia: covers });
+ * engine.encode(Buffer.from('secret'));
+ *
+ * const snapshot = engine.getMetrics();
+ * console.log(snapshot.encodes.success, snapshot.capacityUtilisation);
+ * ```
+ */
+export class StegMetrics {
+  private readonly bucketsMs: readonly number[];
+  private state!: Omit<StegMetricsSnapshot, 'capacityUtilisation' | 'encodeLatency' | 'decodeLatency'>;
+  private encodeLatency!: LatencyHistogram;
+  private decodeLatency!: LatencyHistogram;
+
+  constructor(bucketsMs: readonly number[] = DEFAULT_LATENCY_BUCKETS_MS) {
+    if (bucketsMs.some((b, i) => !(b > 0) || (i > 0 && b <= bucketsMs[i - 1]))) {
+      throw new Error(
+        `Invalid latency buckets: [${bucketsMs.join(', ')}] (expected increasing positive numbers)`
+      );
+    }
+    this.bucketsMs = [...bucketsMs];
+    this.reset();
+  }
+
+  /**
+   * Record a successful encode into one cover
+   */
+  public recordEncode(
+    durationMs: number,
+    sizes: { payload: number; embedded: number; cover: number; capacity: number }
+  ): void {
+    this.state.encodes.success++;
+    this.state.bytesHidden += sizes.payload;
+    this.state.bytesEmbedded += sizes.embedded;
+    this.state.coverBytesConsumed += sizes.cover;
+    this.state.capacityOffered += sizes.capacity;
+    this.encodeLatency.observe(durationMs);
+  }
+
+  /**
+   * Record a failed encode and the strategy that handled it
+   */
+  public recordEncodeFailure(strategy: 'passthrough' | 'drop' | 'throw'): void {
+    this.state.encodes.failure++;
+    this.state.onError[strategy]++;
+  }
+
+  public recordDecode(durationMs: number): void {
+    this.state.decodes.success++;
+    this.decodeLatency.observe(durationMs);
+  }
+
+  public recordDecodeFailure(errorCode: StegDecodeErrorCode): void {
+    this.state.decodes.failure++;
+    this.state.decodeErrors[errorCode] = (this.state.decodeErrors[errorCode] ?? 0) + 1;
+  }
+
+  public snapshot(): StegMetricsSnapshot {
+    const s = this.state;
+    return {
+      encodes: { ...s.encodes },
+      decodes: { ...s.decodes },
+      decodeErrors: { ...s.decodeErrors },
+      onError: { ...s.onError },
+      bytesHidden: s.bytesHidden,
+      bytesEmbedded: s.bytesEmbedded,
+      coverBytesConsumed: s.coverBytesConsumed,
+      capacityOffered: s.capacityOffered,
+      capacityUtilisation: s.capacityOffered > 0 ? s.bytesEmbedded / s.capacityOffered : 0,
+      encodeLatency: this.encodeLatency.snapshot(),
+      decodeLatency: this.decodeLatency.snapshot()
+    };
+  }
+
+  /**
+   * Zero all counters
+   */
+  public reset(): void {
+    this.state = {
+      encodes: { success: 0, failure: 0 },
+      decodes: { success: 0, failure: 0 },
+      decodeErrors: {},
+      onError: { passthrough: 0, drop: 0, throw: 0 },
+      bytesHidden: 0,
+      bytesEmbedded: 0,
+      coverBytesConsumed: 0,
+      capacityOffered: 0
+    };
+    this.encodeLatency = new LatencyHistogram(this.bucketsMs);
+    this.decodeLatency = new LatencyHistogram(this.bucketsMs);
+  }
+}
+
+/**
+ * Zeroed transport counters
+ */
+export function createTransportMetrics(): TransportMetricsSnapshot {
+  return {
+    packetsSent: 0,
+    packetsReceived: 0,
+    delivered: 0,
+    rawPassthrough: 0,
+    dropped: { encodeFailed: 0, authFailed: 0, checksumFailed: 0 },
+    messagesReassembled: 0,
+    staleMessages: 0
+  };
+}
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format.
+ *
+ * A pure function of the snapshot, so the output can be served by any
+ * HTTP framework, pushed to a gateway or written to a file for the
+ * node exporter's textfile collector. Latencies are exported in seconds.
+ *
+ * @example
+ * ```typescript
+ * const text = formatPrometheusMetrics(transport.getMetrics(), {
+ *   labels: { instance: 'relay-1' }
+ * });
+ * ```
+ */
+export function formatPrometheusMetrics(
+  snapshot: StegMetricsSnapshot | StegTransportMetricsSnapshot,
+  options: PrometheusFormatOptions = {}
+): string {
+  const prefix = options.prefix ?? 'llm_steg';
+  if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(prefix)) {
+    throw new Error(`Invalid prefix: ${prefix} (expected a Prometheus metric name)`);
+  }
+  const base = options.labels ?? {};
+  for (const name of Object.keys(base)) {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid label name: ${name}`);
+    }
+  }
+
+  const lines: string[] = [];
+
+  const family = (
+    name: string,
+    type: 'counter' | 'gauge' | 'histogram',
+    help: string,
+    samples: Array<[Record<string, string>, number, string?]>
+  ): void => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${prefix}_${name} ${type}`);
+    for (const [labels, value, suffix] of samples) {
+      lines.push(`${prefix}_${name}${suffix ?? ''}${formatLabels({ ...base, ...labels })} ${formatValue(value)}`);
+    }
+  };
+
+  const histogram = (name: string, help: string, h: LatencyHistogramSnapshot): void => {
+    const bounds = [...h.bucketsMs.map((ms) => formatValue(ms / 1000)), '+Inf'];
+    family(name, 'histogram', help, [
+      ...bounds.map((le, i): [Record<string, string>, number, string] => [{ le }, h.counts[i], '_bucket']),
+      [{}, h.sumMs / 1000, '_sum'],
+      [{}, h.count, '_count']
+    ]);
+  };
+
+  family('encodes_total', 'counter', 'Encode operations by outcome', [
+    [{ outcome: 'success' }, snapshot.encodes.success],
+    [{ outcome: 'failure' }, snapshot.encodes.failure]
+  ]);
+  family('decodes_total', 'counter', 'Decode operations by outcome', [
+    [{ outcome: 'success' }, snapshot.decodes.success],
+    [{ outcome: 'failure' }, snapshot.decodes.failure]
+  ]);
+  family('decode_errors_total', 'counter', 'Decode failures by error code',
+    Object.entries(snapshot.decodeErrors).map(([code, n]) => [{ code }, n ?? 0]));
+  family('encode_errors_total', 'counter', 'Encode failures by onError strategy',
+    Object.entries(snapshot.onError).map(([strategy, n]) => [{ strategy }, n]));
+  family('bytes_hidden_total', 'counter', 'Payload bytes hidden', [[{}, snapshot.bytesHidden]]);
+  family('bytes_embedded_total', 'counter', 'Bytes embedded including framing overhead',
+    [[{}, snapshot.bytesEmbedded]]);
+  family('cover_bytes_consumed_total', 'counter', 'Size of covers used', [[{}, snapshot.coverBytesConsumed]]);
+  family('capacity_offered_bytes_total', 'counter', 'Capacity of covers used',
+    [[{}, snapshot.capacityOffered]]);
+  family('capacity_utilisation_ratio', 'gauge', 'Embedded bytes over capacity of covers used',
+    [[{}, snapshot.capacityUtilisation]]);
+  histogram('encode_duration_seconds', 'Latency of successful encodes', snapshot.encodeLatency);
+  histogram('decode_duration_seconds', 'Latency of successful decodes', snapshot.decodeLatency);
+
+  if ('transport' in snapshot) {
+    const t = snapshot.transport;
+    family('transport_packets_total', 'counter', 'Packets by direction', [
+      [{ direction: 'sent' }, t.packetsSent],
+      [{ direction: 'received' }, t.packetsReceived]
+    ]);
+    family('transport_delivered_total', 'counter', 'Payloads delivered to data handlers',
+      [[{}, t.delivered]]);
+    family('transport_raw_passthrough_total', 'counter', 'Undecodable packets delivered raw',
+      [[{}, t.rawPassthrough]]);
+    family('transport_dropped_total', 'counter', 'Packets dropped by reason', [
+      [{ reason: 'encode_failed' }, t.dropped.encodeFailed],
+      [{ reason: 'auth_failed' }, t.dropped.authFailed],
+      [{ reason: 'checksum_failed' }, t.dropped.checksumFailed]
+    ]);
+    family('transport_messages_reassembled_total', 'counter', 'Fragmented messages completed',
+      [[{}, t.messagesReassembled]]);
+    family('transport_stale_messages_total', 'counter', 'Incomplete messages dropped',
+      [[{}, t.staleMessages]]);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escape = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Create a metrics collector
+ */
+export function createStegMetrics(bucketsMs?: readonly number[]): StegMetrics {
+  return new StegMetrics(bucketsMs);
+}
@@ -0,0 +1,260 @@
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { FragmentHeader } from '../interfaces/steg-config.interface';
+
+/**
+ * Fragment header size in bytes: message ID (4), sequence (2), total (2)
+ */
+export const FRAGMENT_HEADER_SIZE = 8;
+
+/**
+ * Largest number of fragments a message can be split into
+ */
+export const MAX_FRAGMENTS = 0xFFFF;
+
+/**
+ * Options for the fragment reassembler
+ */
+export interface ReassemblerOptions {
+  /** Time in milliseconds before an incomplete message is dropped (default 30000) */
+  timeoutMs?: number;
+  /** Most incomplete messages held at once (default 256) */
+  maxPending?: number;
+}
+
+/**
+ * Partially received message
+ */
+interface PendingMessage {
+  total: number;
+  fragments: Map<number, Buffer>;
+  updatedAt: number;
+}
+
+/**
+ * Reassembles fragmented payloads.
+ *
+ * Fragments may arrive in any order and duplicates are ignored. A
+ * message is returned once every fragment has arrived; messages that
+ * stay incomplete for longer than `timeoutMs` since their last fragment
+ * are dropped and reported with a 'stale' event. At most `maxPending`
+ * incomplete messages are held: a new message beyond that evicts the
+ * one with the oldest last fragment, also reported as 'stale'.
+ *
+ * @example
+ * ```typescript
+ * const reassembler = new Reassembler({ timeoutMs: 10000 });
+ * reassembler.on('stale', ({ messageId, received, total }) => { ... });
+ *
+ * for (const packet of packets) {
+ *   const result = engine.decode(packet);
+ *   const message = reassembler.push(result.fragment!, result.data);
+ *   if (message) {
+ *     console.log('Reassembled:', message.toString());
+ *   }
+ * }
+ * ```
+ */
+export class Reassembler extends EventEmitter {
+  private timeoutMs: number = 30000;
+  private maxPending: number = 256;
+  // Ordered by last fragment, oldest first
+  private pending: Map<number, PendingMessage> = new Map();
+
+  constructor(options: ReassemblerOptions = {}) {
+    super();
+    this.configure(options);
+  }
+
+  /**
+   * Replace the timeout and cap; unset options revert to their defaults.
+   * Messages over a lowered cap are evicted right away.
+   */
+  public configure(options: ReassemblerOptions): void {
+    const timeoutMs = options.timeoutMs ?? 30000;
+    if (typeof timeoutMs !== 'number' || !(timeoutMs > 0)) {
+      throw new Error(`Invalid timeoutMs: ${String(timeoutMs)} (expected a positive number)`);
+    }
+
+    const maxPending = options.maxPending ?? 256;
+    if (typeof maxPending !== 'number' || !Number.isInteger(maxPending) || maxPending < 1) {
+      throw new Error(`Invalid maxPending: ${String(maxPending)} (expected a positive integer)`);
+    }
+
+    this.timeoutMs = timeoutMs;
+    this.maxPending = maxPending;
+    this.evictOverCap(maxPending);
+  }
+
+  /**
+   * Add a fragment. Returns the full payload when the message is
+   * complete, otherwise null.
+   */
+  public push(header: FragmentHeader, data: Buffer): Buffer | null {
+    const now = Date.now();
+    this.prune(now);
+
+    if (header.total === 1) {
+      return Buffer.from(data);
+    }
+
+    let message = this.pending.get(header.messageId);
+    if (message && message.total !== header.total) {
+      // Conflicting totals: the ID was reused, so start over
+      this.pending.delete(header.messageId);
+      message = undefined;
+    }
+
+    if (message) {
+      // Move to the back of the map, which stays ordered by last fragment
+      this.pending.delete(header.messageId);
+    } else {
+      this.evictOverCap(this.maxPending - 1);
+      message = { total: header.total, fragments: new Map(), updatedAt: now };
+    }
+    this.pending.set(header.messageId, message);
+
+    if (!message.fragments.has(header.sequence)) {
+      message.fragments.set(header.sequence, Buffer.from(data));
+    }
+    message.updatedAt = now;
+
+    if (message.fragments.size < message.total) {
+      return null;
+    }
+
+    this.pending.delete(header.messageId);
+
+    const parts: Buffer[] = [];
+    for (let i = 0; i < message.total; i++) {
+      parts.push(message.fragments.get(i)!);
+    }
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Drop incomplete messages older than the timeout.
+   * Returns the number of messages dropped.
+   */
+  public prune(now: number = Date.now()): number {
+    let dropped = 0;
+
+    for (const [messageId, message] of this.pending) {
+      if (now - message.updatedAt > this.timeoutMs) {
+        this.drop(messageId, message);
+        dropped++;
+      }
+    }
+
+    return dropped;
+  }
+
+  /**
+   * Time in milliseconds before an incomplete message is dropped
+   */
+  public getTimeoutMs(): number {
+    return this.timeoutMs;
+  }
+
+  /**
+   * Most incomplete messages held at once
+   */
+  public getMaxPending(): number {
+    return this.maxPending;
+  }
+
+  /**
+   * Number of incomplete messages being held
+   */
+  public getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Drop all incomplete messages
+   */
+  public clear(): void {
+    this.pending.clear();
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Evict the messages with the oldest last fragment until at most
+   * `limit` remain
+   */
+  private evictOverCap(limit: number): void {
+    for (const [messageId, message] of this.pending) {
+      if (this.pending.size <= limit) {
+        break;
+      }
+      this.drop(messageId, message);
+    }
+  }
+
+  private drop(messageId: number, message: PendingMessage): void {
+    this.pending.delete(messageId);
+    this.emit('stale', {
+      messageId,
+      received: message.fragments.size,
+      total: message.total
+    });
+  }
+}
+
+/**
+ * Prefix fragment data with its header
+ */
+export function encodeFragment(header: FragmentHeader, data: Buffer): Buffer {
+  if (header.total < 1 || header.total > MAX_FRAGMENTS) {
+    throw new Error(`Invalid fragment total: ${header.total} (expected 1-${MAX_FRAGMENTS})`);
+  }
+  if (header.sequence < 0 || header.sequence >= header.total) {
+    throw new Error(`Invalid fragment sequence: ${header.sequence} of ${header.total}`);
+  }
+
+  const out = Buffer.alloc(FRAGMENT_HEADER_SIZE + data.length);
+  out.writeUInt32BE(header.messageId >>> 0, 0);
+  out.writeUInt16BE(header.sequence, 4);
+  out.writeUInt16BE(header.total, 6);
+  data.copy(out, FRAGMENT_HEADER_SIZE);
+  return out;
+}
+
+/**
+ * Split a fragment into its header and data.
+ * Throws if the header is missing or inconsistent.
+ */
+export function decodeFragment(fragment: Buffer): { header: FragmentHeader; data: Buffer } {
+  if (fragment.length < FRAGMENT_HEADER_SIZE) {
+    throw new Error('Data too small to contain a fragment header');
+  }
+
+  const header: FragmentHeader = {
+    messageId: fragment.readUInt32BE(0),
+    sequence: fragment.readUInt16BE(4),
+    total: fragment.readUInt16BE(6)
+  };
+
+  if (header.total === 0 || header.sequence >= header.total) {
+    throw new Error(`Invalid fragment header: sequence ${header.sequence} of ${header.total}`);
+  }
+
+  return { header, data: fragment.subarray(FRAGMENT_HEADER_SIZE) };
+}
+
+/**
+ * Random 32-bit message identifier
+ */
+export function createMessageId(): number {
+  return randomBytes(4).readUInt32BE(0);
+}
+
+/**
+ * Factory function to create a Reassembler
+ */
+export function createReassembler(options?: ReassemblerOptions): Reassembler {
+  return new Reassembler(options);
+}
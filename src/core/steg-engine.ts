@@ -1,23 +1,98 @@
 import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
 import {
   StegConfig,
   StegEncodeResult,
   StegDecodeResult,
-  CoverMedia
+  CoverMedia,
+  FragmentHeader,
+  StegDecodeErrorCode,
+  StegProbeResult,
+  CompressionMethod,
+  ContainerHeader,
+  CoverSelector,
+  CoverPoolConfig,
+  CoverPoolEntry
 } from '../interfaces/steg-config.interface';
 import { StegAlgorithm } from '../interfaces/algorithm.interface';
+import { algorithmRegistry } from '../algorithms/registry';
+import { SandboxedAlgorithm, createSandboxedAlgorithm } from '../algorithms/sandbox';
+import { LLMAlgorithmGenerator } from '../algorithms/llm-generator';
+import { PayloadCipher, CIPHER_OVERHEAD, createPayloadCipher } from '../utils/cipher';
+import { COMPRESSION_OVERHEAD, compressPayload, decompressPayload } from '../utils/compression';
+import { ReedSolomonCodec } from '../utils/reed-solomon';
+import {
+  CONTAINER_HEADER_SIZE,
+  REPEATED_HEADER_SIZE,
+  writeContainer,
+  readContainer,
+  verifyContainer,
+  parseContainerHeader,
+  parseRepeatedContainerHeader,
+  getAlgorithmName
+} from '../utils/container';
+import {
+  FRAGMENT_HEADER_SIZE,
+  MAX_FRAGMENTS,
+  encodeFragment,
+  decodeFragment,
+  createMessageId
+} from './reassembler';
+import { StegMetrics, StegMetricsSnapshot } from './metrics';
+import { createCoverSelector } from './cover-selection';
 
 /**
  * Options for StegEngine constructor (alias for StegConfig)
  */
 export type StegEngineOptions = StegConfig;
 
+/**
+ * A slice of a split payload and the cover it is bound for
+ */
+interface PlannedChunk {
+  cover: CoverMedia;
+  chunk: Buffer;
+  compressed: Buffer;
+}
+
+/**
+ * Config with defaults applied. `llmProvider` has no default and stays
+ * optional.
+ */
+type ResolvedStegConfig = Required<Omit<StegConfig, 'llmProvider'>> & Pick<StegConfig, 'llmProvider'>;
+
+/**
+ * Length header copies for registry algorithms when FEC is configured
+ * and `algorithmOptions.headerCopies` is not set. Parity cannot reach
+ * the algorithm's length header, so it is repeated instead.
+ */
+const FEC_HEADER_COPIES = 3;
+
+/**
+ * A container extracted from steg data, or why extraction failed
+ * (the algorithm's decode, or the container itself)
+ */
+type ContainerExtraction =
+  | { container: ReturnType<typeof readContainer> }
+  | { error: Error; decodeFailed: boolean };
+
+/**
+ * Decode stages to undo for one payload, from the container header
+ * or, for bare payloads, from config
+ */
+interface DecodeStages {
+  fec: ReedSolomonCodec | null;
+  encrypted: boolean;
+  fragmented: boolean;
+  compression: CompressionMethod;
+}
+
 /**
  * Core steganography engine that manages encoding/decoding operations.
  *
  * The StegEngine is the central component that:
- * - Manages cover media pool
- * - Coordinates algorithm selection
+ * - Manages cover media pool (limits, expiry, refill)
+ * - Coordinates algorithm selection (by name, via the algorithm registry)
  * - Handles encode/decode operations
  * - Emits events for monitoring
  *
@@ -37,10 +112,21 @@ export type StegEngineOptions = StegConfig;
  * ```
  */
 export class StegEngine extends EventEmitter {
-  private config: Required<StegConfig>;
+  private config: ResolvedStegConfig;
   private algorithm: StegAlgorithm | null = null;
+  private ownedAlgorithm: StegAlgorithm | null = null;
+  private headerFallback: StegAlgorithm | null = null;
   private coverMediaPool: CoverMedia[] = [];
-  private coverIndex: number = 0;
+  private coverSelector: CoverSelector;
+  private retiredCovers: Set<string> = new Set();
+  private coverAddedAt: WeakMap<CoverMedia, number> = new WeakMap();
+  private measuredCovers: WeakSet<CoverMedia> = new WeakSet();
+  private refilling: boolean = false;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private disposed: boolean = false;
+  private cipher: PayloadCipher | null = null;
+  private fec: ReedSolomonCodec | null = null;
+  private metrics: StegMetrics = new StegMetrics();
 
   constructor(config: StegConfig) {
     super();
@@ -49,16 +135,38 @@ export class StegEngine extends EventEmitter {
     this.config = {
       enabled: config.enabled ?? true,
       algorithm: config.algorithm ?? 'lsb',
+      algorithmOptions: config.algorithmOptions ?? {},
       coverMedia: config.coverMedia ?? [],
+      coverSelection: config.coverSelection ?? {},
+      coverPool: config.coverPool ?? {},
       algorithmCode: config.algorithmCode ?? '',
+      sandbox: config.sandbox ?? {},
       llmPrompt: config.llmPrompt ?? '',
-      llmProvider: config.llmProvider ?? undefined as any,
-      seed: config.seed ?? this.generateRandomSeed(),
+      llmProvider: config.llmProvider,
+      seed: config.seed ?? '',
       encodingRatio: config.encodingRatio ?? 100,
+      fragmentation: config.fragmentation ?? {},
+      encryption: config.encryption ?? {},
+      compression: config.compression ?? 'none',
+      fec: config.fec ?? {},
+      container: config.container ?? true,
       onError: config.onError ?? 'passthrough',
       debug: config.debug ?? false
     };
 
+    this.validateAlgorithmName(this.config.algorithm);
+    this.validateEncodingRatio(this.config.encodingRatio);
+    this.validateCompression(this.config.compression);
+    this.validateCoverPool(this.config.coverPool);
+
+    // Derive the encryption key once, up front
+    this.cipher = createPayloadCipher(this.config.encryption);
+    this.fec = this.buildFec();
+    this.coverSelector = createCoverSelector(this.config.coverSelection);
+
+    // Build algorithm from config before sizing covers
+    this.buildAlgorithm();
+
     // Normalize cover media
     this.normalizeCoverMedia();
 
@@ -71,13 +179,25 @@ export class StegEngine extends EventEmitter {
   }
 
   /**
-   * Register an algorithm implementation
+   * Register an algorithm implementation. Pooled cover capacities the
+   * engine measured are re-measured with it; capacities supplied with
+   * the cover media are kept. The caller keeps ownership of the
+   * algorithm (e.g. disposing a `SandboxedAlgorithm`); one the engine
+   * built from config is disposed when replaced.
    */
   public setAlgorithm(algorithm: StegAlgorithm): void {
+    if (algorithm !== this.ownedAlgorithm) {
+      this.disposeOwnedAlgorithm();
+    }
     this.algorithm = algorithm;
     if (this.config.seed && algorithm.setSeed) {
       algorithm.setSeed(this.config.seed);
     }
+    for (const cover of this.coverMediaPool) {
+      if (this.measuredCovers.has(cover)) {
+        cover.capacity = algorithm.calculateCapacity(cover.data);
+      }
+    }
     this.log('Algorithm set', { name: algorithm.name });
   }
 
@@ -88,6 +208,44 @@ export class StegEngine extends EventEmitter {
     return this.algorithm;
   }
 
+  /**
+   * Generate the algorithm from `llmPrompt` using `llmProvider`.
+   *
+   * The completion's code is validated in the sandbox (round-trip and
+   * capacity self-tests) and retried with error feedback on failure.
+   * Accepted code is cached by prompt hash and stored in
+   * `algorithmCode`, so it can be persisted and reused without the LLM.
+   */
+  public async generateAlgorithm(): Promise<StegAlgorithm> {
+    if (!this.config.llmProvider) {
+      throw new Error('No llmProvider configured');
+    }
+    if (!this.config.llmPrompt) {
+      throw new Error('No llmPrompt configured');
+    }
+
+    const generator = new LLMAlgorithmGenerator({
+      provider: this.config.llmProvider,
+      seed: this.config.seed || undefined,
+      sandbox: this.config.sandbox
+    });
+
+    const generated = await generator.generate(this.config.llmPrompt);
+
+    this.disposeOwnedAlgorithm();
+    this.config.algorithmCode = generated.code;
+    this.ownedAlgorithm = generated.algorithm;
+    this.setAlgorithm(generated.algorithm);
+
+    this.emit('algorithmGenerated', {
+      promptHash: generated.promptHash,
+      attempts: generated.attempts,
+      cached: generated.cached
+    });
+
+    return generated.algorithm;
+  }
+
   /**
    * Encode data into cover media
    */
@@ -110,52 +268,119 @@ export class StegEngine extends EventEmitter {
       return this.handleError('No algorithm set', data);
     }
 
+    const compressed = compressPayload(data, this.config.compression);
+
     // Get cover media
-    const cover = this.getNextCover();
+    const cover = this.selectCover(compressed.length, 0);
     if (!cover) {
       return this.handleError('No cover media available', data);
     }
 
-    // Check capacity
-    const capacity = this.algorithm.calculateCapacity(cover.data);
-    if (data.length > capacity) {
+    // Check capacity (capped by encodingRatio, less FEC and encryption overhead)
+    const capacity = Math.max(0, this.payloadRoom(cover.data));
+    if (compressed.length > capacity) {
       return this.handleError(
-        `Data too large: ${data.length} bytes > ${capacity} capacity`,
+        `Data too large: ${compressed.length} bytes > ${capacity} capacity`,
         data
       );
     }
 
-    try {
-      // Encode
-      const encoded = this.algorithm.encode(data, cover.data);
+    return this.encodeIntoCover(data, compressed, cover, startTime);
+  }
 
-      const result: StegEncodeResult = {
-        data: encoded,
-        payloadSize: data.length,
-        coverSize: cover.data.length,
-        algorithm: this.config.algorithm,
-        success: true
-      };
+  /**
+   * Encode data split across as many covers as needed.
+   *
+   * Each chunk is sized to the next cover's effective capacity (after
+   * `encodingRatio`), taking covers in `coverSelection` order. With
+   * compression on, each chunk is compressed on its own and takes as
+   * much of the payload as fits once compressed. Decode each result in
+   * order and concatenate to recover the payload. On failure the
+   * returned list ends with the failed result.
+   */
+  public encodeSplit(data: Buffer): StegEncodeResult[] {
+    if (!this.config.enabled) {
+      return [this.encode(data)];
+    }
 
-      this.emit('encode', {
-        ...result,
-        durationMs: Date.now() - startTime
-      });
+    if (!this.algorithm) {
+      return [this.handleError('No algorithm set', data)];
+    }
 
-      this.log('Encoded successfully', {
-        payloadSize: data.length,
-        coverSize: cover.data.length,
-        outputSize: encoded.length
-      });
+    const plan = this.planSplit(data, 0);
+    if (typeof plan === 'string') {
+      return [this.handleError(plan, data)];
+    }
 
-      return result;
+    const results: StegEncodeResult[] = [];
 
-    } catch (err) {
-      return this.handleError(
-        `Encoding failed: ${(err as Error).message}`,
+    for (const { cover, chunk, compressed } of plan) {
+      const result = this.encodeIntoCover(chunk, compressed, cover, Date.now());
+      results.push(result);
+
+      if (!result.success) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Encode data as self-describing fragments, one per cover.
+   *
+   * Like `encodeSplit`, but each fragment is prefixed with a header
+   * (message ID, sequence number, total count) so the receiver can
+   * reassemble fragments delivered out of order with a `Reassembler`.
+   * Fragments are decoded with fragmentation enabled, which reports the
+   * header in `StegDecodeResult.fragment`.
+   */
+  public encodeFragments(data: Buffer): StegEncodeResult[] {
+    if (!this.config.enabled) {
+      return [this.encode(data)];
+    }
+
+    if (!this.algorithm) {
+      return [this.handleError('No algorithm set', data)];
+    }
+
+    const plan = this.planSplit(data, FRAGMENT_HEADER_SIZE);
+    if (typeof plan === 'string') {
+      return [this.handleError(plan, data)];
+    }
+    if (plan.length > MAX_FRAGMENTS) {
+      return [this.handleError(
+        `Too many fragments: ${plan.length} > ${MAX_FRAGMENTS}`,
         data
-      );
+      )];
+    }
+
+    const messageId = createMessageId();
+    const results: StegEncodeResult[] = [];
+
+    for (let sequence = 0; sequence < plan.length; sequence++) {
+      const { cover, chunk, compressed } = plan[sequence];
+      const header: FragmentHeader = { messageId, sequence, total: plan.length };
+
+      const result = this.encodeIntoCover(chunk, compressed, cover, Date.now(), header);
+      results.push(result);
+
+      if (!result.success) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Capacity of a cover under the configured `encodingRatio`
+   */
+  public getEffectiveCapacity(cover: Buffer): number {
+    if (!this.algorithm) {
+      return 0;
     }
+    return this.applyEncodingRatio(this.algorithm.calculateCapacity(cover));
   }
 
   /**
@@ -179,20 +404,110 @@ export class StegEngine extends EventEmitter {
         payloadSize: 0,
         algorithm: this.config.algorithm,
         success: false,
-        error: 'No algorithm set'
+        error: 'No algorithm set',
+        errorCode: 'no_algorithm'
       };
     }
 
     try {
-      const decoded = this.algorithm.decode(stegData);
+      let decoded: Buffer;
+      let fragment: FragmentHeader | undefined;
+      let fecCorrected: number | undefined;
+      let stages: DecodeStages = {
+        fec: this.fec,
+        encrypted: this.cipher !== null,
+        fragmented: this.config.fragmentation.enabled ?? false,
+        compression: this.config.compression
+      };
+      let unverified: ContainerHeader | null = null;
+
+      if (this.config.container) {
+        const extracted = this.extractContainer(stegData);
+        if ('error' in extracted) {
+          if (extracted.decodeFailed) {
+            throw extracted.error;
+          }
+          return this.handleDecodeError(
+            `Invalid container: ${extracted.error.message}`,
+            'invalid_container',
+            extracted.error
+          );
+        }
+
+        const { header, body, crcValid } = extracted.container;
+        if (!crcValid) {
+          if (!header.flags.fec) {
+            return this.handleDecodeError('Checksum mismatch: payload is corrupted', 'checksum_failed');
+          }
+          // Parity may still repair the body; re-check the CRC afterwards
+          unverified = header;
+        }
+
+        const parity = header.fecParitySymbols;
+        stages = {
+          fec: header.flags.fec
+            ? (this.fec?.paritySymbols === parity ? this.fec : new ReedSolomonCodec(parity))
+            : null,
+          encrypted: header.flags.encrypted,
+          fragmented: header.flags.fragmented,
+          compression: header.flags.compressed ? 'auto' : 'none'
+        };
+        decoded = body;
+      } else {
+        decoded = this.algorithm.decode(stegData);
+      }
+
+      if (stages.fec) {
+        const repaired = stages.fec.decode(decoded);
+        if (!repaired) {
+          return this.handleDecodeError(
+            'FEC failed: too many corrupted bytes to correct',
+            'fec_unrecoverable'
+          );
+        }
+        if (unverified && !verifyContainer(unverified, stages.fec.encode(repaired.data))) {
+          return this.handleDecodeError('Checksum mismatch: payload is corrupted', 'checksum_failed');
+        }
+        decoded = repaired.data;
+        fecCorrected = repaired.corrected;
+      }
+
+      if (stages.encrypted !== (this.cipher !== null)) {
+        return this.handleDecodeError(
+          stages.encrypted
+            ? 'Authentication failed: payload is encrypted but no key is configured'
+            : 'Authentication failed: payload is not encrypted',
+          'auth_failed'
+        );
+      }
+
+      if (this.cipher) {
+        const opened = this.cipher.decrypt(decoded);
+        if (!opened) {
+          return this.handleDecodeError(
+            'Authentication failed: wrong key or tampered data',
+            'auth_failed'
+          );
+        }
+        decoded = opened;
+      }
+
+      if (stages.fragmented) {
+        ({ header: fragment, data: decoded } = decodeFragment(decoded));
+      }
+
+      decoded = decompressPayload(decoded, stages.compression);
 
       const result: StegDecodeResult = {
         data: decoded,
         payloadSize: decoded.length,
         algorithm: this.config.algorithm,
-        success: true
+        success: true,
+        ...(fecCorrected !== undefined ? { fecCorrected } : {}),
+        ...(fragment ? { fragment } : {})
       };
 
+      this.metrics.recordDecode(Date.now() - startTime);
       this.emit('decode', {
         ...result,
         durationMs: Date.now() - startTime
@@ -203,31 +518,115 @@ export class StegEngine extends EventEmitter {
       return result;
 
     } catch (err) {
-      const result: StegDecodeResult = {
-        data: Buffer.alloc(0),
-        payloadSize: 0,
-        algorithm: this.config.algorithm,
-        success: false,
-        error: `Decoding failed: ${(err as Error).message}`
-      };
+      return this.handleDecodeError(
+        `Decoding failed: ${(err as Error).message}`,
+        'decode_failed',
+        err as Error
+      );
+    }
+  }
 
-      this.emit('error', { type: 'decode', error: err });
+  /**
+   * Check whether media likely carries a payload, without a full decode.
+   *
+   * Reads only the container header (when the algorithm supports
+   * `peek`) and checks the magic, version, flags and that the recorded
+   * length fits the media's capacity. The CRC-32 is not verified, so a
+   * likely result can still fail to decode.
+   */
+  public probe(stegData: Buffer): StegProbeResult {
+    if (!this.algorithm) {
+      return { likely: false, reason: 'No algorithm set' };
+    }
+
+    const result = this.probeWith(this.algorithm, stegData);
+    if (result.likely || !this.headerFallback) {
       return result;
     }
+    const fallback = this.probeWith(this.headerFallback, stegData);
+    return fallback.likely ? fallback : result;
   }
 
   /**
-   * Add cover media to the pool
+   * Add cover media to the pool. When the pool is over `maxSize` or
+   * `maxBytes`, the oldest covers are evicted.
    */
   public addCoverMedia(media: Buffer | CoverMedia): void {
     const normalized = this.normalizeSingleCover(media);
-    if (normalized) {
-      this.coverMediaPool.push(normalized);
+    if (normalized && this.admitCover(normalized)) {
       this.log('Cover media added', {
         capacity: normalized.capacity,
         poolSize: this.coverMediaPool.length
       });
+      this.enforcePoolLimits();
+    }
+  }
+
+  /**
+   * Remove every cover with the given `id` from the pool.
+   * Returns the number of covers removed.
+   */
+  public removeCoverMedia(id: string): number {
+    const previousSize = this.coverMediaPool.length;
+
+    for (let i = this.coverMediaPool.length - 1; i >= 0; i--) {
+      if (this.coverMediaPool[i].id === id) {
+        this.removeCoverAt(i);
+      }
+    }
+
+    const removed = previousSize - this.coverMediaPool.length;
+    if (removed > 0) {
+      this.log('Cover media removed', { id, poolSize: this.coverMediaPool.length });
+      this.onPoolShrink(previousSize);
+    }
+    return removed;
+  }
+
+  /**
+   * Drop covers older than `coverPool.ttlMs`.
+   * Returns the number of covers dropped.
+   */
+  public pruneCoverMedia(now: number = Date.now()): number {
+    const ttlMs = this.config.coverPool.ttlMs ?? 0;
+    if (ttlMs <= 0) {
+      return 0;
+    }
+
+    const previousSize = this.coverMediaPool.length;
+
+    for (let i = this.coverMediaPool.length - 1; i >= 0; i--) {
+      const addedAt = this.coverAddedAt.get(this.coverMediaPool[i]) ?? now;
+      if (now - addedAt >= ttlMs) {
+        this.removeCoverAt(i);
+      }
+    }
+
+    const expired = previousSize - this.coverMediaPool.length;
+    if (expired > 0) {
+      this.log('Cover media expired', { expired, poolSize: this.coverMediaPool.length });
+      this.onPoolShrink(previousSize);
     }
+    return expired;
+  }
+
+  /**
+   * List the covers in the pool, oldest first, without their data
+   */
+  public listCoverMedia(): CoverPoolEntry[] {
+    const ttlMs = this.config.coverPool.ttlMs ?? 0;
+
+    return this.coverMediaPool.map((cover) => {
+      const addedAt = this.coverAddedAt.get(cover) ?? 0;
+      return {
+        ...(cover.id !== undefined ? { id: cover.id } : {}),
+        ...(cover.type !== undefined ? { type: cover.type } : {}),
+        size: cover.data.length,
+        capacity: cover.capacity ?? 0,
+        addedAt,
+        ...(ttlMs > 0 ? { expiresAt: addedAt + ttlMs } : {})
+      };
+    });
   }
 
   /**
@@ -241,14 +640,56 @@ export class StegEngine extends EventEmitter {
    * Update configuration
    */
   public updateConfig(config: Partial<StegConfig>): void {
+    if (config.algorithm !== undefined) {
+      this.validateAlgorithmName(config.algorithm);
+    }
+    if (config.encodingRatio !== undefined) {
+      this.validateEncodingRatio(config.encodingRatio);
+    }
+    if (config.compression !== undefined) {
+      this.validateCompression(config.compression);
+    }
+    if (config.coverPool !== undefined) {
+      this.validateCoverPool(config.coverPool);
+    }
+
     Object.assign(this.config, config);
 
+    // FEC first: it decides the default length header copies
+    if (config.fec !== undefined) {
+      this.fec = this.buildFec();
+    }
+
+    if (
+      config.algorithm !== undefined ||
+      config.algorithmOptions !== undefined ||
+      config.algorithmCode !== undefined ||
+      (config.fec !== undefined && this.headerFallback !== null)
+    ) {
+      this.buildAlgorithm();
+    }
+
+    if (config.encryption !== undefined) {
+      this.cipher = createPayloadCipher(this.config.encryption);
+    }
+
+    if (config.coverSelection !== undefined) {
+      this.coverSelector = createCoverSelector(this.config.coverSelection);
+    }
+
     if (config.coverMedia) {
       this.normalizeCoverMedia();
+    } else if (config.coverPool !== undefined) {
+      this.enforcePoolLimits();
+    }
+
+    if (config.coverPool !== undefined) {
+      this.scheduleExpiry();
     }
 
     if (config.seed && this.algorithm?.setSeed) {
       this.algorithm.setSeed(config.seed);
+      this.headerFallback?.setSeed?.(config.seed);
     }
 
     this.emit('configUpdated', this.config);
@@ -256,85 +697,685 @@ export class StegEngine extends EventEmitter {
   }
 
   /**
-   * Get pool statistics
+   * Get pool statistics.
+   * `effectiveCapacity` is the total capacity usable under `encodingRatio`.
    */
   public getPoolStats(): {
     size: number;
+    bytes: number;
     totalCapacity: number;
     averageCapacity: number;
+    effectiveCapacity: number;
+    encodingRatio: number;
   } {
+    this.pruneCoverMedia();
+
     const totalCapacity = this.coverMediaPool.reduce(
       (sum, c) => sum + (c.capacity ?? 0),
       0
     );
+    const effectiveCapacity = this.coverMediaPool.reduce(
+      (sum, c) => sum + this.applyEncodingRatio(c.capacity ?? 0),
+      0
+    );
 
     return {
       size: this.coverMediaPool.length,
+      bytes: this.poolBytes(),
       totalCapacity,
       averageCapacity: this.coverMediaPool.length > 0
         ? Math.floor(totalCapacity / this.coverMediaPool.length)
-        : 0
+        : 0,
+      effectiveCapacity,
+      encodingRatio: this.config.encodingRatio
     };
   }
 
+  /**
+   * Runtime counters since creation or the last `resetMetrics()`: encode
+   * and decode outcomes, bytes hidden, cover consumed, capacity
+   * utilisation, latency histograms and failures by `onError` strategy.
+   * Render with `formatPrometheusMetrics`.
+   */
+  public getMetrics(): StegMetricsSnapshot {
+    return this.metrics.snapshot();
+  }
+
+  /**
+   * Zero the runtime counters
+   */
+  public resetMetrics(): void {
+    this.metrics.reset();
+  }
+
+  /**
+   * Release the engine's resources: stop the cover expiry timer and tear
+   * down the sandbox of an algorithm the engine built. Algorithms passed
+   * to `setAlgorithm` are left to the caller.
+   */
+  public dispose(): void {
+    this.disposed = true;
+    this.clearExpiryTimer();
+    if (this.algorithm === this.ownedAlgorithm) {
+      this.algorithm = null;
+    }
+    this.disposeOwnedAlgorithm();
+  }
+
   // ─────────────────────────────────────────────────────────────
   // Private Methods
   // ─────────────────────────────────────────────────────────────
 
-  private getNextCover(): CoverMedia | null {
+  /**
+   * Instantiate the configured algorithm: sandboxed `algorithmCode` for
+   * 'custom' and 'llm-generated', otherwise by name from the registry.
+   * 'custom' without code (and 'llm-generated' before
+   * `generateAlgorithm`) leaves no algorithm set.
+   *
+   * Registry algorithms that accept `headerCopies` default to
+   * FEC_HEADER_COPIES when FEC is configured. The engine then keeps the
+   * other layout as `headerFallback`, so it still decodes senders with
+   * the opposite FEC setting.
+   */
+  private buildAlgorithm(): void {
+    const name = this.config.algorithm;
+
+    this.disposeOwnedAlgorithm();
+
+    let algorithm: StegAlgorithm | null = null;
+    if ((name === 'custom' || name === 'llm-generated') && this.config.algorithmCode) {
+      algorithm = createSandboxedAlgorithm(this.config.algorithmCode, {
+        ...this.config.sandbox,
+        name,
+        seed: this.config.seed || undefined
+      });
+    } else if (algorithmRegistry.has(name)) {
+      const defaultCopies = algorithmRegistry.get(name)!.headerCopies === true &&
+        this.config.algorithmOptions.headerCopies === undefined;
+
+      algorithm = this.createRegistryAlgorithm(
+        name,
+        defaultCopies && this.fec ? FEC_HEADER_COPIES : undefined
+      );
+      if (defaultCopies) {
+        this.headerFallback = this.createRegistryAlgorithm(
+          name,
+          this.fec ? undefined : FEC_HEADER_COPIES
+        );
+      }
+    }
+
+    this.ownedAlgorithm = algorithm;
+    if (algorithm) {
+      this.setAlgorithm(algorithm);
+    } else {
+      this.algorithm = null;
+    }
+  }
+
+  private createRegistryAlgorithm(name: string, headerCopies?: number): StegAlgorithm {
+    return algorithmRegistry.create(name, {
+      seed: this.config.seed || undefined,
+      config: headerCopies === undefined
+        ? this.config.algorithmOptions
+        : { ...this.config.algorithmOptions, headerCopies },
+      debug: this.config.debug
+    });
+  }
+
+  /**
+   * Tear down the sandbox of an algorithm the engine created, and drop
+   * its header fallback. Algorithms passed to `setAlgorithm` belong to
+   * the caller and are left alone.
+   */
+  private disposeOwnedAlgorithm(): void {
+    if (this.ownedAlgorithm instanceof SandboxedAlgorithm) {
+      this.ownedAlgorithm.dispose();
+    }
+    this.ownedAlgorithm = null;
+    this.headerFallback = null;
+  }
+
+  /**
+   * Extract the container with the algorithm, then with `headerFallback`.
+   * When both fail, the algorithm's failure is reported.
+   */
+  private extractContainer(stegData: Buffer): ContainerExtraction {
+    let failure: ContainerExtraction | null = null;
+
+    for (const algorithm of [this.algorithm, this.headerFallback]) {
+      if (!algorithm) {
+        continue;
+      }
+
+      let decoded: Buffer;
+      try {
+        decoded = algorithm.decode(stegData);
+      } catch (err) {
+        failure ??= { error: err as Error, decodeFailed: true };
+        continue;
+      }
+
+      try {
+        return { container: readContainer(decoded) };
+      } catch (err) {
+        failure ??= { error: err as Error, decodeFailed: false };
+      }
+    }
+
+    return failure!;
+  }
+
+  /**
+   * Probe with one algorithm: read the leading bytes, parse a repeated
+   * or single container header and check the length against capacity
+   */
+  private probeWith(algorithm: StegAlgorithm, stegData: Buffer): StegProbeResult {
+    let header: ContainerHeader;
+    let headerSize = REPEATED_HEADER_SIZE;
+    try {
+      const head = algorithm.peek
+        ? algorithm.peek(stegData, REPEATED_HEADER_SIZE)
+        : algorithm.decode(stegData).subarray(0, REPEATED_HEADER_SIZE);
+      try {
+        header = parseRepeatedContainerHeader(head);
+      } catch {
+        header = parseContainerHeader(head);
+        headerSize = CONTAINER_HEADER_SIZE;
+      }
+    } catch (err) {
+      return { likely: false, reason: (err as Error).message };
+    }
+
+    const capacity = algorithm.calculateCapacity(stegData);
+    if (headerSize + header.length > capacity) {
+      return {
+        likely: false,
+        header,
+        reason: `Container length ${header.length} exceeds capacity ${capacity}`
+      };
+    }
+
+    const name = getAlgorithmName(header.algorithmId);
+    return { likely: true, header, ...(name ? { algorithm: name } : {}) };
+  }
+
+  /**
+   * Embed a payload into a specific cover and report the result.
+   * `compressed` is the (possibly compressed) form of `chunk`; it is
+   * framed with the fragment header, if any, then encrypted and embedded.
+   */
+  private encodeIntoCover(
+    chunk: Buffer,
+    compressed: Buffer,
+    cover: CoverMedia,
+    startTime: number,
+    fragment?: FragmentHeader
+  ): StegEncodeResult {
+    try {
+      // Frame, encrypt, add parity, wrap in the container, then embed
+      const framed = fragment ? encodeFragment(fragment, compressed) : compressed;
+      const sealed = this.cipher ? this.cipher.encrypt(framed) : framed;
+      const protectedPayload = this.fec ? this.fec.encode(sealed) : sealed;
+      const payload = this.config.container
+        ? writeContainer(protectedPayload, {
+          flags: {
+            compressed: this.config.compression !== 'none',
+            encrypted: this.cipher !== null,
+            fec: this.fec !== null,
+            fragmented: fragment !== undefined
+          },
+          algorithm: this.algorithm!.name,
+          fecParitySymbols: this.fec?.paritySymbols,
+          repeatHeader: this.fec !== null
+        })
+        : protectedPayload;
+      const encoded = this.algorithm!.encode(payload, cover.data);
+
+      if (this.config.coverSelection.singleUse) {
+        this.retireCover(cover);
+      }
+
+      const result: StegEncodeResult = {
+        data: encoded,
+        payloadSize: chunk.length,
+        coverSize: cover.data.length,
+        algorithm: this.config.algorithm,
+        success: true,
+        rawSize: chunk.length,
+        compressedSize: compressed.length,
+        ...(fragment ? { fragment } : {})
+      };
+
+      this.metrics.recordEncode(Date.now() - startTime, {
+        payload: chunk.length,
+        embedded: payload.length,
+        cover: cover.data.length,
+        capacity: cover.capacity ?? this.algorithm!.calculateCapacity(cover.data)
+      });
+      this.emit('encode', {
+        ...result,
+        durationMs: Date.now() - startTime
+      });
+
+      this.log('Encoded successfully', {
+        payloadSize: chunk.length,
+        compressedSize: compressed.length,
+        coverSize: cover.data.length,
+        outputSize: encoded.length
+      });
+
+      return result;
+
+    } catch (err) {
+      return this.handleError(
+        `Encoding failed: ${(err as Error).message}`,
+        chunk
+      );
+    }
+  }
+
+  /**
+   * Cut the payload into chunks for covers taken by the cover selector,
+   * so that each compressed chunk plus `overhead` bytes fits the cover's
+   * payload room. Covers without room are skipped. In single-use mode
+   * cover bytes are planned at most once. Returns an error message if the pool
+   * cannot hold the payload.
+   */
+  private planSplit(data: Buffer, overhead: number): PlannedChunk[] | string {
+    const plan: PlannedChunk[] = [];
+    const planned = this.config.coverSelection.singleUse ? new Set<CoverMedia>() : undefined;
+    let offset = 0;
+    let skipped = 0;
+
+    while (offset < data.length || plan.length === 0) {
+      const cover = this.selectCover(data.length - offset, overhead, planned);
+      if (!cover) {
+        return 'No cover media available';
+      }
+
+      const room = this.payloadRoom(cover.data) - overhead;
+      const fitted = this.fitChunk(data.subarray(offset), room);
+      if (!fitted || (fitted.chunk.length === 0 && offset < data.length)) {
+        // Give up after a full rotation of unusable covers
+        if (++skipped >= this.coverMediaPool.length) {
+          return 'No cover media with usable capacity';
+        }
+        continue;
+      }
+      skipped = 0;
+
+      plan.push({ cover, ...fitted });
+      for (const other of planned ? this.coverMediaPool : []) {
+        if (other === cover || other.data.equals(cover.data)) {
+          planned!.add(other);
+        }
+      }
+      offset += fitted.chunk.length;
+    }
+
+    return plan;
+  }
+
+  /**
+   * Longest prefix of `rest` whose compressed form fits in `room` bytes,
+   * or null if not even an empty chunk fits.
+   *
+   * Without compression this is a plain slice. With compression the
+   * prefix grows by doubling while it fits, then is narrowed by
+   * bisection; storing raw guarantees `room - 1` bytes always fit.
+   */
+  private fitChunk(rest: Buffer, room: number): { chunk: Buffer; compressed: Buffer } | null {
+    const method = this.config.compression;
+
+    if (method === 'none') {
+      if (room < 0) return null;
+      const chunk = rest.subarray(0, room);
+      return { chunk, compressed: chunk };
+    }
+
+    if (room < COMPRESSION_OVERHEAD) {
+      return null;
+    }
+
+    const pack = (length: number) => compressPayload(rest.subarray(0, length), method);
+
+    let fit = Math.min(rest.length, room - COMPRESSION_OVERHEAD);
+    let best = pack(fit);
+    let miss = rest.length + 1;
+
+    while (fit < rest.length) {
+      const next = Math.min(rest.length, fit * 2 + 1);
+      const packed = pack(next);
+      if (packed.length > room) {
+        miss = next;
+        break;
+      }
+      fit = next;
+      best = packed;
+    }
+
+    while (miss - fit > 1) {
+      const mid = (fit + miss) >>> 1;
+      const packed = pack(mid);
+      if (packed.length <= room) {
+        fit = mid;
+        best = packed;
+      } else {
+        miss = mid;
+      }
+    }
+
+    return { chunk: rest.subarray(0, fit), compressed: best };
+  }
+
+  /**
+   * Bytes available for the framed payload in a cover: the effective
+   * capacity less container, FEC parity and encryption overhead
+   * (may be negative)
+   */
+  private payloadRoom(cover: Buffer): number {
+    const containerSize = this.fec ? REPEATED_HEADER_SIZE : CONTAINER_HEADER_SIZE;
+    const capacity = this.getEffectiveCapacity(cover) -
+      (this.config.container ? containerSize : 0);
+    const protectedCapacity = this.fec ? this.fec.dataCapacity(capacity) : capacity;
+    return protectedCapacity - (this.cipher ? CIPHER_OVERHEAD : 0);
+  }
+
+  /**
+   * Cap a capacity by `encodingRatio` (percentage of capacity to use)
+   */
+  private applyEncodingRatio(capacity: number): number {
+    return Math.floor((capacity * this.config.encodingRatio) / 100);
+  }
+
+  private buildFec(): ReedSolomonCodec | null {
+    const paritySymbols = this.config.fec.paritySymbols ?? 0;
+    return paritySymbols === 0 ? null : new ReedSolomonCodec(paritySymbols);
+  }
+
+  private validateAlgorithmName(name: string): void {
+    if (name === 'custom' || name === 'llm-generated' || algorithmRegistry.has(name)) {
+      return;
+    }
+    const known = [...algorithmRegistry.list().map((entry) => entry.name), 'custom', 'llm-generated'];
+    throw new Error(`Invalid algorithm: ${String(name)} (expected one of ${known.join(', ')})`);
+  }
+
+  private validateCompression(method: string): void {
+    if (!['none', 'deflate', 'brotli', 'auto'].includes(method)) {
+      throw new Error(
+        `Invalid compression: ${String(method)} (expected none, deflate, brotli or auto)`
+      );
+    }
+  }
+
+  private validateEncodingRatio(ratio: number): void {
+    if (typeof ratio !== 'number' || !(ratio >= 0 && ratio <= 100)) {
+      throw new Error(`Invalid encodingRatio: ${String(ratio)} (expected 0-100)`);
+    }
+  }
+
+  private validateCoverPool(pool: CoverPoolConfig): void {
+    for (const key of ['maxSize', 'maxBytes', 'ttlMs', 'lowWatermark'] as const) {
+      const value = pool[key];
+      if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+        throw new Error(`Invalid coverPool.${key}: ${String(value)} (expected an integer >= 0)`);
+      }
+    }
+
+    const lowWatermark = pool.lowWatermark ?? 1;
+    if (
+      pool.refillTarget !== undefined &&
+      !(Number.isInteger(pool.refillTarget) && pool.refillTarget > lowWatermark)
+    ) {
+      throw new Error(
+        `Invalid coverPool.refillTarget: ${String(pool.refillTarget)} (expected an integer > lowWatermark)`
+      );
+    }
+    if (pool.refill !== undefined && typeof pool.refill !== 'function') {
+      throw new Error('Invalid coverPool.refill: expected a function');
+    }
+  }
+
+  /**
+   * Pick a cover for `size` payload bytes plus `overhead` framing bytes
+   */
+  private selectCover(
+    size: number,
+    overhead: number,
+    exclude?: ReadonlySet<CoverMedia>
+  ): CoverMedia | null {
+    this.pruneCoverMedia();
+    this.refillPool();
+
     if (this.coverMediaPool.length === 0) {
       return null;
     }
 
-    // Round-robin selection
-    const cover = this.coverMediaPool[this.coverIndex];
-    this.coverIndex = (this.coverIndex + 1) % this.coverMediaPool.length;
+    return this.coverSelector.select(this.coverMediaPool, {
+      size,
+      room: (cover) => this.payloadRoom(cover.data) - overhead,
+      exclude
+    });
+  }
 
-    return cover;
+  /**
+   * Remove a used cover, and any pool entries with the same bytes, and
+   * remember its digest so it is not accepted back
+   */
+  private retireCover(cover: CoverMedia): void {
+    const previousSize = this.coverMediaPool.length;
+    this.retiredCovers.add(coverDigest(cover.data));
+
+    for (let i = this.coverMediaPool.length - 1; i >= 0; i--) {
+      const candidate = this.coverMediaPool[i];
+      if (candidate === cover || candidate.data.equals(cover.data)) {
+        this.removeCoverAt(i);
+      }
+    }
+
+    this.log('Cover media retired', { poolSize: this.coverMediaPool.length });
+    this.onPoolShrink(previousSize);
+  }
+
+  /**
+   * Put a normalized cover in the pool, unless it is retired or over
+   * `maxBytes` on its own. Does not enforce the pool limits.
+   */
+  private admitCover(cover: CoverMedia): boolean {
+    if (this.isRetired(cover)) {
+      this.log('Retired cover media rejected', { size: cover.data.length });
+      return false;
+    }
+
+    const maxBytes = this.config.coverPool.maxBytes ?? 0;
+    if (maxBytes > 0 && cover.data.length > maxBytes) {
+      this.log('Cover media rejected', { size: cover.data.length, maxBytes });
+      return false;
+    }
+
+    this.coverMediaPool.push(cover);
+    this.coverAddedAt.set(cover, Date.now());
+    if (!this.expiryTimer) {
+      this.scheduleExpiry();
+    }
+    return true;
+  }
+
+  private removeCoverAt(index: number): void {
+    this.coverMediaPool.splice(index, 1);
+    this.coverSelector.onRemove?.(index);
+  }
+
+  /**
+   * Prune when the oldest cover expires, so 'poolLow' and 'poolEmpty'
+   * fire from expiry alone. The timer never keeps the process alive.
+   */
+  private scheduleExpiry(): void {
+    this.clearExpiryTimer();
+
+    const ttlMs = this.config.coverPool.ttlMs ?? 0;
+    if (ttlMs <= 0 || this.disposed || this.coverMediaPool.length === 0) {
+      return;
+    }
+
+    const oldest = Math.min(
+      ...this.coverMediaPool.map((cover) => this.coverAddedAt.get(cover) ?? Date.now())
+    );
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      this.pruneCoverMedia();
+      this.scheduleExpiry();
+    }, Math.max(0, oldest + ttlMs - Date.now()));
+    this.expiryTimer.unref();
+  }
+
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Evict the oldest covers until the pool is within `maxSize` and `maxBytes`
+   */
+  private enforcePoolLimits(): void {
+    const previousSize = this.coverMediaPool.length;
+    if (this.evictOverLimits() > 0) {
+      this.onPoolShrink(previousSize);
+    }
+  }
+
+  private evictOverLimits(): number {
+    const maxSize = this.config.coverPool.maxSize ?? 0;
+    const maxBytes = this.config.coverPool.maxBytes ?? 0;
+    let bytes = this.poolBytes();
+    let evicted = 0;
+
+    while (
+      this.coverMediaPool.length > 0 &&
+      ((maxSize > 0 && this.coverMediaPool.length > maxSize) || (maxBytes > 0 && bytes > maxBytes))
+    ) {
+      bytes -= this.coverMediaPool[0].data.length;
+      this.removeCoverAt(0);
+      evicted++;
+    }
+
+    if (evicted > 0) {
+      this.log('Cover media evicted', { evicted, poolSize: this.coverMediaPool.length });
+    }
+    return evicted;
+  }
+
+  /**
+   * Emit 'poolLow' and 'poolEmpty' when the pool crosses those levels,
+   * then top it up
+   */
+  private onPoolShrink(previousSize: number): void {
+    const size = this.coverMediaPool.length;
+    const lowWatermark = this.config.coverPool.lowWatermark ?? 1;
+    const level = { size, bytes: this.poolBytes() };
+
+    if (size <= lowWatermark && previousSize > lowWatermark) {
+      this.emit('poolLow', level);
+    }
+    if (size === 0 && previousSize > 0) {
+      this.emit('poolEmpty', level);
+    }
+
+    this.refillPool();
+  }
+
+  /**
+   * Ask `coverPool.refill` for covers when the pool is at or below the
+   * low watermark, up to `refillTarget`
+   */
+  private refillPool(): void {
+    const { refill } = this.config.coverPool;
+    const lowWatermark = this.config.coverPool.lowWatermark ?? 1;
+    const size = this.coverMediaPool.length;
+
+    if (!refill || this.refilling || size > lowWatermark) {
+      return;
+    }
+
+    const count = (this.config.coverPool.refillTarget ?? lowWatermark + 1) - size;
+    this.refilling = true;
+
+    try {
+      let added = 0;
+      for (const media of refill(count)) {
+        const normalized = this.normalizeSingleCover(media);
+        if (normalized && this.admitCover(normalized)) {
+          added++;
+        }
+      }
+      this.log('Cover pool refilled', { added, poolSize: this.coverMediaPool.length });
+      this.enforcePoolLimits();
+    } catch (err) {
+      this.emit('error', { type: 'refill', error: err as Error });
+      this.log('Error', { message: `Refill failed: ${(err as Error).message}` });
+    } finally {
+      this.refilling = false;
+    }
+  }
+
+  private poolBytes(): number {
+    return this.coverMediaPool.reduce((sum, c) => sum + c.data.length, 0);
+  }
+
+  private isRetired(cover: CoverMedia): boolean {
+    return this.config.coverSelection.singleUse === true &&
+      this.retiredCovers.size > 0 &&
+      this.retiredCovers.has(coverDigest(cover.data));
   }
 
   private normalizeCoverMedia(): void {
+    const previousSize = this.coverMediaPool.length;
     this.coverMediaPool = [];
 
     for (const media of this.config.coverMedia ?? []) {
       const normalized = this.normalizeSingleCover(media);
       if (normalized) {
-        this.coverMediaPool.push(normalized);
+        this.admitCover(normalized);
       }
     }
+
+    this.evictOverLimits();
+    if (this.coverMediaPool.length < previousSize) {
+      this.onPoolShrink(previousSize);
+    }
   }
 
   private normalizeSingleCover(media: Buffer | CoverMedia): CoverMedia | null {
     if (Buffer.isBuffer(media)) {
-      const capacity = this.algorithm
-        ? this.algorithm.calculateCapacity(media)
-        : Math.floor((media.length - 4) / 8); // Default LSB estimate
-
-      return {
-        data: media,
-        type: 'binary',
-        capacity
-      };
+      return this.measureCover({ data: media, type: 'binary' });
     }
 
     if (media && typeof media === 'object' && 'data' in media) {
-      const capacity = media.capacity ?? (
-        this.algorithm
-          ? this.algorithm.calculateCapacity(media.data)
-          : Math.floor((media.data.length - 4) / 8)
-      );
-
-      return {
-        ...media,
-        capacity
-      };
+      return media.capacity !== undefined ? { ...media } : this.measureCover({ ...media });
     }
 
     return null;
   }
 
+  /**
+   * Set a cover's capacity under the current algorithm, remembering that
+   * the engine measured it so an algorithm switch re-measures it
+   */
+  private measureCover(cover: CoverMedia): CoverMedia {
+    cover.capacity = this.algorithm
+      ? this.algorithm.calculateCapacity(cover.data)
+      : Math.floor((cover.data.length - 4) / 8); // Default LSB estimate
+    this.measuredCovers.add(cover);
+    return cover;
+  }
+
   private handleError(message: string, originalData: Buffer): StegEncodeResult {
     const error = new Error(message);
+    this.metrics.recordEncodeFailure(this.config.onError);
     this.emit('error', { type: 'encode', error });
     this.log('Error', { message });
 
@@ -365,9 +1406,23 @@ export class StegEngine extends EventEmitter {
     }
   }
 
-  private generateRandomSeed(): string {
-    return Math.random().toString(36).substring(2, 15) +
-           Math.random().toString(36).substring(2, 15);
+  private handleDecodeError(
+    message: string,
+    errorCode: StegDecodeErrorCode,
+    error: Error = new Error(message)
+  ): StegDecodeResult {
+    this.metrics.recordDecodeFailure(errorCode);
+    this.emit('error', { type: 'decode', error, errorCode });
+    this.log('Error', { message });
+
+    return {
+      data: Buffer.alloc(0),
+      payloadSize: 0,
+      algorithm: this.config.algorithm,
+      success: false,
+      error: message,
+      errorCode
+    };
   }
 
   private log(message: string, data?: Record<string, unknown>): void {
@@ -377,6 +1432,13 @@ export class StegEngine extends EventEmitter {
   }
 }
 
+/**
+ * SHA-256 of cover bytes, for recognising retired covers
+ */
+function coverDigest(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
 /**
  * Create a StegEngine with default LSB configuration
  */
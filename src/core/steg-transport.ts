@@ -8,6 +8,12 @@ import {
 import { StegConfig } from '../interfaces/steg-config.interface';
 import { StegAlgorithm } from '../interfaces/algorithm.interface';
 import { StegEngine } from './steg-engine';
+import { Reassembler } from './reassembler';
+import {
+  StegTransportMetricsSnapshot,
+  TransportMetricsSnapshot,
+  createTransportMetrics
+} from './metrics';
 
 /**
  * Transport wrapper that applies steganography to data.
@@ -28,17 +34,36 @@ import { StegEngine } from './steg-engine';
  *
  * steg.send(Buffer.from('secret message'));
  * ```
+ *
+ * With `fragmentation.enabled`, payloads larger than one cover are
+ * split across the pool and sent as one packet per fragment; incoming
+ * fragments are reassembled (in any order) before reaching data
+ * handlers, and incomplete messages are dropped after
+ * `fragmentation.reassemblyTimeoutMs` with a 'stale' event. Partial
+ * messages are checked once per timeout, so one is dropped within two
+ * timeouts of its last fragment even if no other packet arrives. At
+ * most `fragmentation.maxPendingMessages` are held; beyond that the
+ * oldest is dropped, also with a 'stale' event.
+ *
+ * With `encryption` configured, payloads are sealed before embedding and
+ * incoming packets that fail authentication are dropped (the engine's
+ * 'error' event reports them with `errorCode: 'auth_failed'`).
  */
 export class StegTransport extends EventEmitter implements TransportStream {
   private innerTransport: TransportStream;
   private engine: StegEngine;
+  private ownsEngine: boolean;
   private dataHandlers: DataHandler[] = [];
+  private reassembler: Reassembler;
+  private pruneTimer: NodeJS.Timeout | null = null;
   private closed: boolean = false;
+  private metrics: TransportMetricsSnapshot = createTransportMetrics();
 
   constructor(innerTransport: TransportStream, configOrEngine: StegConfig | StegEngine) {
     super();
 
     this.innerTransport = innerTransport;
+    this.ownsEngine = !(configOrEngine instanceof StegEngine);
     this.engine = configOrEngine instanceof StegEngine
       ? configOrEngine
       : new StegEngine(configOrEngine);
@@ -47,6 +72,15 @@ export class StegTransport extends EventEmitter implements TransportStream {
     this.engine.on('encode', (data) => this.emit('encode', data));
     this.engine.on('decode', (data) => this.emit('decode', data));
     this.engine.on('error', (data) => this.emit('error', data));
+    this.engine.on('poolLow', (data) => this.emit('poolLow', data));
+    this.engine.on('poolEmpty', (data) => this.emit('poolEmpty', data));
+
+    this.reassembler = new Reassembler();
+    this.reassembler.on('stale', (data) => {
+      this.metrics.staleMessages++;
+      this.emit('stale', data);
+    });
+    this.configureReassembly();
 
     // Setup incoming data handling if supported
     if (this.innerTransport.onData) {
@@ -74,15 +108,22 @@ export class StegTransport extends EventEmitter implements TransportStream {
 
     const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
 
+    if (this.engine.getConfig().fragmentation?.enabled) {
+      this.sendFragments(buffer, callback);
+      return;
+    }
+
     // Encode with steganography
     const result = this.engine.encode(buffer);
 
     if (!result.success && this.engine.getConfig().onError === 'drop') {
+      this.metrics.dropped.encodeFailed++;
       callback?.(new Error(result.error ?? 'Encoding failed'));
       return;
     }
 
     // Send through inner transport
+    this.metrics.packetsSent++;
     this.innerTransport.send(result.data, callback);
   }
 
@@ -94,12 +135,17 @@ export class StegTransport extends EventEmitter implements TransportStream {
   }
 
   /**
-   * Close the transport
+   * Close the transport, disposing the engine if it was built from config
    */
   public close(): void {
     if (this.closed) return;
 
     this.closed = true;
+    this.stopPruneTimer();
+    this.reassembler.clear();
+    if (this.ownsEngine) {
+      this.engine.dispose();
+    }
 
     if (this.innerTransport.close) {
       this.innerTransport.close();
@@ -164,6 +210,10 @@ export class StegTransport extends EventEmitter implements TransportStream {
    */
   public updateConfig(config: Partial<StegConfig>): void {
     this.engine.updateConfig(config);
+
+    if (config.fragmentation !== undefined) {
+      this.configureReassembly();
+    }
   }
 
   /**
@@ -173,6 +223,24 @@ export class StegTransport extends EventEmitter implements TransportStream {
     this.engine.addCoverMedia(media);
   }
 
+  /**
+   * Engine metrics plus packet counters for this transport
+   */
+  public getMetrics(): StegTransportMetricsSnapshot {
+    return {
+      ...this.engine.getMetrics(),
+      transport: { ...this.metrics, dropped: { ...this.metrics.dropped } }
+    };
+  }
+
+  /**
+   * Zero the engine and transport counters
+   */
+  public resetMetrics(): void {
+    this.engine.resetMetrics();
+    this.metrics = createTransportMetrics();
+  }
+
   /**
    * Get the underlying engine
    */
@@ -191,14 +259,101 @@ export class StegTransport extends EventEmitter implements TransportStream {
   // Private Methods
   // ─────────────────────────────────────────────────────────────
 
+  /**
+   * Apply the fragmentation config to the reassembler and run the prune
+   * timer, at the current timeout, only while fragmentation is enabled
+   */
+  private configureReassembly(): void {
+    const fragmentation = this.engine.getConfig().fragmentation ?? {};
+    this.reassembler.configure({
+      timeoutMs: fragmentation.reassemblyTimeoutMs,
+      maxPending: fragmentation.maxPendingMessages
+    });
+
+    this.stopPruneTimer();
+    if (fragmentation.enabled && !this.closed) {
+      // Prune without waiting for the next fragment; never keeps the process alive
+      this.pruneTimer = setInterval(() => this.reassembler.prune(), this.reassembler.getTimeoutMs());
+      this.pruneTimer.unref();
+    }
+  }
+
+  private stopPruneTimer(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  /**
+   * Encode a payload as fragments and send one packet per fragment.
+   * The callback fires once, after the last packet, with the first error.
+   */
+  private sendFragments(buffer: Buffer, callback?: SendCallback): void {
+    const results = this.engine.encodeFragments(buffer);
+    const failed = results.find((r) => !r.success);
+
+    if (failed && this.engine.getConfig().onError === 'drop') {
+      this.metrics.dropped.encodeFailed++;
+      callback?.(new Error(failed.error ?? 'Encoding failed'));
+      return;
+    }
+
+    // On passthrough, send the whole original payload once instead of
+    // fragments (a failed fragment's data is only its own chunk)
+    const packets = failed ? [buffer] : results.map((r) => r.data);
+
+    let pending = packets.length;
+    let firstError: Error | undefined;
+
+    for (const packet of packets) {
+      this.metrics.packetsSent++;
+      this.innerTransport.send(packet, (err) => {
+        firstError = firstError ?? err;
+        if (--pending === 0) {
+          callback?.(firstError);
+        }
+      });
+    }
+  }
+
   private handleIncomingData(data: Buffer | Uint8Array): void {
     const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
 
+    this.metrics.packetsReceived++;
+
     // Decode steganography
     const result = this.engine.decode(buffer);
 
-    // Emit raw data if decoding fails
-    const outputData = result.success ? result.data : buffer;
+    // Never hand on data that failed authentication or its checksum
+    if (result.errorCode === 'auth_failed') {
+      this.metrics.dropped.authFailed++;
+      return;
+    }
+    if (result.errorCode === 'checksum_failed') {
+      this.metrics.dropped.checksumFailed++;
+      return;
+    }
+
+    let outputData: Buffer;
+    if (result.success && result.fragment) {
+      const message = this.reassembler.push(result.fragment, result.data);
+      if (!message) {
+        return; // Wait for the remaining fragments
+      }
+      if (result.fragment.total > 1) {
+        this.metrics.messagesReassembled++;
+      }
+      outputData = message;
+    } else {
+      // Emit raw data if decoding fails
+      outputData = result.success ? result.data : buffer;
+      if (!result.success) {
+        this.metrics.rawPassthrough++;
+      }
+    }
+
+    this.metrics.delivered++;
 
     // Call all handlers
     for (const handler of this.dataHandlers) {
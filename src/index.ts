@@ -54,6 +54,38 @@ export {
   createStegTransport
 } from './core/steg-transport';
 
+export {
+  Reassembler,
+  ReassemblerOptions,
+  FRAGMENT_HEADER_SIZE,
+  MAX_FRAGMENTS,
+  encodeFragment,
+  decodeFragment,
+  createMessageId,
+  createReassembler
+} from './core/reassembler';
+
+export {
+  StegMetrics,
+  StegMetricsSnapshot,
+  StegTransportMetricsSnapshot,
+  TransportMetricsSnapshot,
+  LatencyHistogramSnapshot,
+  PrometheusFormatOptions,
+  DEFAULT_LATENCY_BUCKETS_MS,
+  createStegMetrics,
+  createTransportMetrics,
+  formatPrometheusMetrics
+} from './core/metrics';
+
+export {
+  RoundRobinSelector,
+  BestFitSelector,
+  RandomSelector,
+  LeastRecentlyUsedSelector,
+  createCoverSelector
+} from './core/cover-selection';
+
 // ─────────────────────────────────────────────────────────────
 // Interfaces
 // ─────────────────────────────────────────────────────────────
@@ -71,9 +103,27 @@ export {
   // Steganography Config
   StegConfig,
   StegAlgorithmMode,
+  StegLLMProvider,
   CoverMedia,
+  CoverSelectionStrategy,
+  CoverSelectionRequest,
+  CoverSelector,
+  CoverSelectionConfig,
+  CoverPoolConfig,
+  CoverPoolEntry,
   StegEncodeResult,
   StegDecodeResult,
+  SandboxLimits,
+  FragmentationConfig,
+  FragmentHeader,
+  EncryptionConfig,
+  PayloadCipherAlgorithm,
+  StegDecodeErrorCode,
+  CompressionMethod,
+  FecConfig,
+  ContainerFlags,
+  ContainerHeader,
+  StegProbeResult,
 
   // LLM Stream
   LLMStream,
@@ -85,8 +135,15 @@ export {
 
   // Algorithm
   StegAlgorithm,
+  AlgorithmOptions,
   AlgorithmFactory,
-  AlgorithmMetrics
+  AlgorithmRegistryEntry,
+  AlgorithmMetrics,
+
+  // Steganalysis
+  SteganalysisMethod,
+  SteganalysisResult,
+  SteganalysisReport
 } from './interfaces';
 
 // ─────────────────────────────────────────────────────────────
@@ -95,7 +152,56 @@ export {
 
 export {
   LSBAlgorithm,
-  createLSBAlgorithm
+  LSBMatchingAlgorithm,
+  LSBEmbeddingMode,
+  createLSBAlgorithm,
+  createLSBMatchingAlgorithm,
+  MatrixEmbeddingAlgorithm,
+  createMatrixEmbeddingAlgorithm,
+  SpreadSpectrumAlgorithm,
+  SpreadSampleFormat,
+  createSpreadSpectrumAlgorithm,
+  DCTAlgorithm,
+  createDCTAlgorithm,
+  ZeroWidthAlgorithm,
+  createZeroWidthAlgorithm,
+  WhitespaceAlgorithm,
+  createWhitespaceAlgorithm,
+  HomoglyphAlgorithm,
+  createHomoglyphAlgorithm,
+  SynonymAlgorithm,
+  createSynonymAlgorithm,
+  DEFAULT_SYNONYM_SETS,
+
+  // Registry
+  AlgorithmRegistry,
+  AlgorithmDescriptor,
+  algorithmRegistry,
+  createAlgorithmRegistry,
+  registerBuiltinAlgorithms,
+
+  // Sandboxed custom code
+  SandboxedAlgorithm,
+  SandboxOptions,
+  createSandboxedAlgorithm,
+
+  // LLM-generated algorithms
+  LLMAlgorithmGenerator,
+  LLMAlgorithmGeneratorOptions,
+  GeneratedAlgorithm,
+  createLLMAlgorithmGenerator,
+  extractAlgorithmCode,
+  clearGeneratedAlgorithmCache,
+
+  // Benchmarking
+  AlgorithmBenchmark,
+  BenchmarkOptions,
+  BenchmarkCoverType,
+  LatencyPercentiles,
+  CoverBenchmarkResult,
+  AlgorithmBenchmarkResult,
+  createAlgorithmBenchmark,
+  benchmarkAlgorithm
 } from './algorithms';
 
 // ─────────────────────────────────────────────────────────────
@@ -119,9 +225,34 @@ export {
   StreamNormalizer,
   StreamNormalizerOptions,
   createStreamNormalizer,
-  normalizeResponse
+  normalizeResponse,
+
+  // Generative token steganography
+  GenerativeSteg,
+  GenerativeStegOptions,
+  GenerativeEncodeResult,
+  NextTokenDistribution,
+  TokenProbability,
+  TokenLogprob,
+  createGenerativeSteg,
+  fromLogprobs
 } from './llm';
 
+// ─────────────────────────────────────────────────────────────
+// Steganalysis
+// ─────────────────────────────────────────────────────────────
+
+export {
+  ChiSquareOptions,
+  chiSquareAttack,
+  RSAnalysisOptions,
+  rsAnalysis,
+  SamplePairOptions,
+  samplePairAnalysis,
+  SteganalysisOptions,
+  analyze
+} from './analysis';
+
 // ─────────────────────────────────────────────────────────────
 // Utilities
 // ─────────────────────────────────────────────────────────────
@@ -149,5 +280,54 @@ export {
   interleaveBits,
   parity,
   checksum,
-  crc8
+  crc8,
+  crc32,
+
+  // Seeded Randomness
+  RandomSource,
+  createSeededRandom,
+  seededPermutation,
+
+  // Payload Encryption
+  PayloadCipher,
+  CIPHER_OVERHEAD,
+  createPayloadCipher,
+
+  // Payload Compression
+  StoredCompressionMethod,
+  COMPRESSION_OVERHEAD,
+  compressPayload,
+  decompressPayload,
+  getStoredCompressionMethod,
+
+  // Forward Error Correction
+  ReedSolomonCodec,
+  ReedSolomonDecodeResult,
+  createReedSolomonCodec,
+
+  // Container Format
+  CONTAINER_VERSION,
+  CONTAINER_HEADER_SIZE,
+  REPEATED_HEADER_COPIES,
+  REPEATED_HEADER_SIZE,
+  ALGORITHM_IDS,
+  writeContainer,
+  readContainer,
+  verifyContainer,
+  parseContainerHeader,
+  parseRepeatedContainerHeader,
+  getAlgorithmId,
+  getAlgorithmName,
+
+  // Repeated Length Headers
+  MAX_HEADER_COPIES,
+  resolveHeaderCopies,
+  repeatedHeaderBit,
+  readRepeatedHeader,
+
+  // Text Covers
+  findFencedLines,
+  findProtectedText,
+  readUtf8Text,
+  tryReadUtf8Text
 } from './utils';
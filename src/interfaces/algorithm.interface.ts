@@ -71,6 +71,17 @@ export interface StegAlgorithm {
    * @returns True if cover is valid, false otherwise
    */
   validateCover?(cover: Buffer): boolean;
+
+  /**
+   * Optional: Extract only the first bytes of the payload, so headers
+   * can be inspected without a full decode (used by `StegEngine.probe`).
+   *
+   * @param stegData - The steganographic media containing hidden data
+   * @param length - Maximum number of payload bytes to extract
+   * @returns Up to `length` leading payload bytes
+   * @throws Error if no valid payload is present
+   */
+  peek?(stegData: Buffer, length: number): Buffer;
 }
 
 /**
@@ -102,6 +113,8 @@ export interface AlgorithmRegistryEntry {
   description?: string;
   /** Supported cover media types */
   supportedMediaTypes?: string[];
+  /** Whether the algorithm accepts `config.headerCopies` */
+  headerCopies?: boolean;
 }
 
 /**
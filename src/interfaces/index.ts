@@ -17,6 +17,23 @@ export {
   StegDecodeResult,
   CoverMedia,
   CoverMediaType,
+  CoverSelectionStrategy,
+  CoverSelectionRequest,
+  CoverSelector,
+  CoverSelectionConfig,
+  CoverPoolConfig,
+  CoverPoolEntry,
+  SandboxLimits,
+  FragmentationConfig,
+  FragmentHeader,
+  EncryptionConfig,
+  PayloadCipherAlgorithm,
+  StegDecodeErrorCode,
+  CompressionMethod,
+  FecConfig,
+  ContainerFlags,
+  ContainerHeader,
+  StegProbeResult,
   LLMProvider as StegLLMProvider
 } from './steg-config.interface';
 
@@ -43,3 +60,10 @@ export {
   AlgorithmRegistryEntry,
   AlgorithmMetrics
 } from './algorithm.interface';
+
+// Steganalysis interfaces
+export {
+  SteganalysisMethod,
+  SteganalysisResult,
+  SteganalysisReport
+} from './steganalysis.interface';
@@ -3,10 +3,17 @@
  */
 export type StegAlgorithmMode =
   | 'lsb'           // Least Significant Bit
+  | 'lsb-matching'  // LSB matching (±1 embedding)
+  | 'matrix'        // Matrix embedding (Hamming syndrome coding)
   | 'dct'           // Discrete Cosine Transform
   | 'spread'        // Spread Spectrum
+  | 'zero-width'    // Zero-width Unicode characters in text
+  | 'whitespace'    // Inter-word and trailing whitespace in text
+  | 'homoglyph'     // Cyrillic and Greek homoglyphs in text
+  | 'synonym'       // Synonym substitution in text
   | 'llm-generated' // Dynamically generated by LLM
-  | 'custom';       // User-provided algorithm
+  | 'custom'        // User-provided algorithm
+  | (string & {});  // Any name registered in the algorithm registry (keeps the literals above)
 
 /**
  * Cover media types supported for steganography
@@ -36,6 +43,290 @@ export interface CoverMedia {
   capacity?: number;
 }
 
+/**
+ * Resource limits for sandboxed algorithm code
+ */
+export interface SandboxLimits {
+  /**
+   * CPU time limit per call in milliseconds.
+   * @default 1000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Heap limit for the sandbox worker in megabytes.
+   * @default 64
+   */
+  memoryLimitMb?: number;
+}
+
+/**
+ * Payload fragmentation settings
+ */
+export interface FragmentationConfig {
+  /**
+   * Split payloads into fragments with a message ID, sequence number
+   * and total count, one per cover. StegTransport sends one packet per
+   * fragment and reassembles on receive.
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * Time in milliseconds after which an incomplete message is dropped.
+   * @default 30000
+   */
+  reassemblyTimeoutMs?: number;
+
+  /**
+   * Most incomplete messages held for reassembly. Beyond it, the
+   * message with the oldest last fragment is dropped.
+   * @default 256
+   */
+  maxPendingMessages?: number;
+}
+
+/**
+ * Authenticated cipher used for payload encryption
+ */
+export type PayloadCipherAlgorithm = 'aes-256-gcm' | 'chacha20-poly1305';
+
+/**
+ * Payload encryption settings.
+ * Encryption is active when `passphrase` or `key` is set.
+ */
+export interface EncryptionConfig {
+  /** Passphrase the key is derived from */
+  passphrase?: string;
+
+  /** Key material the key is derived from (alternative to `passphrase`) */
+  key?: Buffer;
+
+  /**
+   * Authenticated cipher.
+   * @default 'aes-256-gcm'
+   */
+  cipher?: PayloadCipherAlgorithm;
+
+  /**
+   * Key derivation function. Use 'scrypt' for passphrases and 'hkdf'
+   * for high-entropy key material.
+   * @default 'scrypt'
+   */
+  kdf?: 'scrypt' | 'hkdf';
+
+  /**
+   * Salt for key derivation; sender and receiver must agree.
+   * @default 'llm-steg'
+   */
+  salt?: string | Buffer;
+}
+
+/**
+ * Forward error correction settings
+ */
+export interface FecConfig {
+  /**
+   * Reed-Solomon parity bytes per 255-byte block (1-254). Each block
+   * corrects up to half this many corrupted bytes. 0 disables FEC.
+   * @default 0
+   */
+  paritySymbols?: number;
+}
+
+/**
+ * Built-in cover selection strategies
+ * - 'round-robin': Rotate through the pool in order, regardless of size
+ * - 'best-fit': Smallest cover that holds the payload
+ * - 'random': Random cover that holds the payload (seeded)
+ * - 'lru': Least recently used cover that holds the payload
+ * When no cover holds the whole payload, 'best-fit' takes the cover with
+ * the most room and 'random' and 'lru' choose among covers with any room.
+ */
+export type CoverSelectionStrategy = 'round-robin' | 'best-fit' | 'random' | 'lru';
+
+/**
+ * What the engine needs from a cover for the next payload
+ */
+export interface CoverSelectionRequest {
+  /** Bytes the payload needs */
+  size: number;
+  /** Bytes of payload a cover can hold */
+  room(cover: CoverMedia): number;
+  /** Covers already planned for the current message */
+  exclude?: ReadonlySet<CoverMedia>;
+}
+
+/**
+ * Picks a cover from the pool for each payload
+ */
+export interface CoverSelector {
+  /** Strategy name, for logging */
+  readonly name: string;
+
+  /** Choose a cover, or null when none is available */
+  select(pool: readonly CoverMedia[], request: CoverSelectionRequest): CoverMedia | null;
+
+  /** Called after the cover at `index` leaves the pool */
+  onRemove?(index: number): void;
+}
+
+/**
+ * Cover selection settings
+ */
+export interface CoverSelectionConfig {
+  /**
+   * Built-in strategy name or a custom selector.
+   * @default 'round-robin'
+   */
+  strategy?: CoverSelectionStrategy | CoverSelector;
+
+  /**
+   * Seed for the 'random' strategy. Unseeded selection uses Math.random.
+   */
+  seed?: string;
+
+  /**
+   * Retire each cover from the pool once a payload is embedded in it,
+   * along with any other pool entries with identical bytes. Retired
+   * cover bytes are not accepted back into the pool, so the same cover
+   * never carries two different payloads.
+   * @default false
+   */
+  singleUse?: boolean;
+}
+
+/**
+ * Cover pool limits, expiry and refill settings
+ */
+export interface CoverPoolConfig {
+  /**
+   * Most covers the pool holds; adding more evicts the oldest.
+   * 0 means unlimited.
+   * @default 0
+   */
+  maxSize?: number;
+
+  /**
+   * Most cover bytes the pool holds; adding more evicts the oldest.
+   * Covers larger than this are rejected. 0 means unlimited.
+   * @default 0
+   */
+  maxBytes?: number;
+
+  /**
+   * Time in milliseconds after which a cover expires from the pool.
+   * Expired covers are pruned when they expire, before each cover
+   * selection and in `getPoolStats()`. 0 disables expiry.
+   * @default 0
+   */
+  ttlMs?: number;
+
+  /**
+   * Pool size at or below which 'poolLow' is emitted and `refill` runs.
+   * @default 1
+   */
+  lowWatermark?: number;
+
+  /**
+   * Called with the number of covers wanted when the pool runs low.
+   * Returned covers are added to the pool, e.g. from CoverGenerator.
+   */
+  refill?: (count: number) => Array<Buffer | CoverMedia>;
+
+  /**
+   * Pool size `refill` tops the pool up to.
+   * @default lowWatermark + 1
+   */
+  refillTarget?: number;
+}
+
+/**
+ * A cover in the pool, without its data
+ */
+export interface CoverPoolEntry {
+  /** Identifier of the cover, if it has one */
+  id?: string;
+  /** Type of cover media */
+  type?: CoverMediaType;
+  /** Cover size in bytes */
+  size: number;
+  /** Capacity in bytes */
+  capacity: number;
+  /** Time the cover joined the pool (ms since epoch) */
+  addedAt: number;
+  /** Time the cover expires (ms since epoch), when `ttlMs` is set */
+  expiresAt?: number;
+}
+
+/**
+ * Processing stages recorded in a container header
+ */
+export interface ContainerFlags {
+  /** Payload is compressed (method tag inside) */
+  compressed: boolean;
+  /** Payload is encrypted */
+  encrypted: boolean;
+  /** Body carries Reed-Solomon parity */
+  fec: boolean;
+  /** Payload is a fragment of a larger message */
+  fragmented: boolean;
+}
+
+/**
+ * Self-describing header in front of every embedded payload
+ */
+export interface ContainerHeader {
+  /** Container format version */
+  version: number;
+  /** Processing stages applied to the body */
+  flags: ContainerFlags;
+  /** Numeric ID of the embedding algorithm */
+  algorithmId: number;
+  /** Reed-Solomon parity symbols per block (0 without FEC) */
+  fecParitySymbols: number;
+  /** Body length in bytes */
+  length: number;
+  /** CRC-32 over the header fields and body */
+  crc32: number;
+}
+
+/**
+ * Result of probing media for an embedded payload
+ */
+export interface StegProbeResult {
+  /** Whether the media likely carries a payload */
+  likely: boolean;
+  /** Parsed container header, when one was found */
+  header?: ContainerHeader;
+  /** Algorithm name for the header's algorithm ID, when known */
+  algorithm?: string;
+  /** Why the media was rejected */
+  reason?: string;
+}
+
+/**
+ * Payload compression method
+ * - 'none': No compression
+ * - 'deflate': Raw deflate
+ * - 'brotli': Brotli
+ * - 'auto': Whichever of deflate and brotli is smallest
+ * Payloads that do not shrink are stored raw.
+ */
+export type CompressionMethod = 'none' | 'deflate' | 'brotli' | 'auto';
+
+/**
+ * Fragment header carried in front of each fragment's data
+ */
+export interface FragmentHeader {
+  /** Identifier shared by all fragments of a message */
+  messageId: number;
+  /** Zero-based position of this fragment */
+  sequence: number;
+  /** Number of fragments in the message */
+  total: number;
+}
+
 /**
  * Configuration for steganography operations
  */
@@ -49,22 +340,49 @@ export interface StegConfig {
 
   /**
    * Algorithm to use for encoding/decoding.
+   * Resolved by name through the algorithm registry; names that are not
+   * registered (other than 'custom' and 'llm-generated') are rejected.
    * @default 'lsb'
    */
   algorithm?: StegAlgorithmMode;
 
+  /**
+   * Algorithm-specific options passed as `config` to the registry
+   * factory (e.g. `{ bitsPerByte: 2 }` for LSB).
+   */
+  algorithmOptions?: Record<string, unknown>;
+
   /**
    * Cover media buffers to embed data into.
    * For LSB, each buffer should be at least 8x the data size.
    */
   coverMedia?: Array<Buffer | CoverMedia>;
 
+  /**
+   * How covers are picked from the pool for each payload, and whether
+   * they are retired after use.
+   */
+  coverSelection?: CoverSelectionConfig;
+
+  /**
+   * Cover pool size and byte limits, expiry and automatic refill.
+   * The engine emits 'poolLow' and 'poolEmpty' as covers leave the pool.
+   */
+  coverPool?: CoverPoolConfig;
+
   /**
    * Custom algorithm code (when algorithm is 'custom' or 'llm-generated').
    * Must export `encode(data, cover)` and `decode(stegData)` functions.
+   * Runs in an isolated sandbox without require, fs or network access and
+   * is rejected unless it round-trips a probe payload.
    */
   algorithmCode?: string;
 
+  /**
+   * CPU-time and memory limits for sandboxed `algorithmCode`.
+   */
+  sandbox?: SandboxLimits;
+
   /**
    * Prompt for LLM algorithm generation.
    * Only used when algorithm is 'llm-generated'.
@@ -78,18 +396,65 @@ export interface StegConfig {
   llmProvider?: LLMProvider;
 
   /**
-   * Random seed for deterministic encoding.
-   * Useful for testing and reproducibility.
+   * Shared secret seed passed to the algorithm via `setSeed`.
+   * Keyed algorithms (e.g. LSB) use it to scatter bits over a
+   * pseudo-random permutation of cover positions; sender and
+   * receiver must use the same seed. When omitted, algorithms
+   * run unkeyed.
    */
   seed?: string;
 
   /**
-   * Percentage of data to encode (0-100).
-   * Lower values leave more cover media unchanged.
+   * Percentage of each cover's capacity to use (0-100).
+   * Lower values leave more cover media unchanged, lowering embedding
+   * density at the cost of throughput: payloads that exceed the capped
+   * capacity must be split across more covers (`encodeSplit`).
    * @default 100
    */
   encodingRatio?: number;
 
+  /**
+   * Fragment payloads across multiple covers.
+   */
+  fragmentation?: FragmentationConfig;
+
+  /**
+   * Encrypt payloads with an authenticated cipher before embedding.
+   * Each embedded payload gets a random nonce and an authentication tag,
+   * so extracted bits are unreadable without the key and tampering is
+   * detected on decode (`errorCode: 'auth_failed'`).
+   */
+  encryption?: EncryptionConfig;
+
+  /**
+   * Compress payloads before encryption and embedding. The method used
+   * is recorded with each payload, so `decode` inflates transparently;
+   * sender and receiver only need to agree that compression is on.
+   * @default 'none'
+   */
+  compression?: CompressionMethod;
+
+  /**
+   * Protect embedded payloads with Reed-Solomon FEC, so bytes flipped
+   * by a lossy channel are corrected on decode. FEC covers the container
+   * body (compressed, framed and encrypted payload). Headers outside its
+   * reach are repeated and read by majority vote instead: the container
+   * header is written three times, and registry algorithms that accept
+   * `headerCopies` (lsb, lsb-matching, matrix, spread and dct) default to
+   * three copies of their length header unless `algorithmOptions` sets it.
+   */
+  fec?: FecConfig;
+
+  /**
+   * Wrap embedded payloads in a self-describing container (magic,
+   * version, flags, algorithm ID, length and CRC-32). Decoding is driven
+   * by the recorded flags and random covers fail cleanly instead of
+   * decoding as garbage. Disable to read or write the legacy format of
+   * a bare payload.
+   * @default true
+   */
+  container?: boolean;
+
   /**
    * Error handling strategy when encoding fails.
    * - 'passthrough': Send original data without steganography
@@ -136,8 +501,31 @@ export interface StegEncodeResult {
   success: boolean;
   /** Error message if encoding failed */
   error?: string;
+  /** Payload size before compression */
+  rawSize?: number;
+  /** Payload size after compression (including the method tag) */
+  compressedSize?: number;
+  /** Fragment header, when produced by `encodeFragments` */
+  fragment?: FragmentHeader;
 }
 
+/**
+ * Reason a decode failed
+ * - 'no_algorithm': No algorithm set
+ * - 'decode_failed': The algorithm could not extract a payload
+ * - 'invalid_container': No valid container header (e.g. a cover with no payload)
+ * - 'checksum_failed': The container CRC-32 did not match
+ * - 'auth_failed': Decryption or authentication failed (wrong key or tampered data)
+ * - 'fec_unrecoverable': More corrupted bytes than FEC can correct
+ */
+export type StegDecodeErrorCode =
+  | 'no_algorithm'
+  | 'decode_failed'
+  | 'invalid_container'
+  | 'checksum_failed'
+  | 'auth_failed'
+  | 'fec_unrecoverable';
+
 /**
  * Result of a steganography decoding operation
  */
@@ -152,4 +540,10 @@ export interface StegDecodeResult {
   success: boolean;
   /** Error message if decoding failed */
   error?: string;
+  /** Reason decoding failed */
+  errorCode?: StegDecodeErrorCode;
+  /** Bytes corrected by FEC, when FEC is enabled */
+  fecCorrected?: number;
+  /** Fragment header, when fragmentation is enabled (`data` is the fragment) */
+  fragment?: FragmentHeader;
 }
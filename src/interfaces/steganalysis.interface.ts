@@ -0,0 +1,39 @@
+/**
+ * Steganalysis detector identifiers
+ */
+export type SteganalysisMethod = 'chi-square' | 'rs' | 'sample-pair';
+
+/**
+ * Outcome of running one LSB detector on a buffer
+ */
+export interface SteganalysisResult {
+  /** Detector that produced the result */
+  method: SteganalysisMethod;
+  /**
+   * Estimated embedding rate: the fraction of samples whose LSB carries
+   * message bits (0 = clean, 1 = fully embedded)
+   */
+  embeddingRate: number;
+  /** Confidence in the estimate, 0-1 */
+  confidence: number;
+  /** Number of samples, pairs or groups the estimate rests on */
+  samples: number;
+  /** Detector-specific statistics */
+  details: Record<string, number>;
+}
+
+/**
+ * Results of all LSB detectors on one buffer
+ */
+export interface SteganalysisReport {
+  chiSquare: SteganalysisResult;
+  rs: SteganalysisResult;
+  samplePair: SteganalysisResult;
+  /**
+   * Confidence-weighted mean of the detectors' embedding rates, with any
+   * shortfall of the total confidence below 1 counted as a clean reading
+   */
+  embeddingRate: number;
+  /** Whether the weighted rate reaches the detection threshold */
+  detected: boolean;
+}
@@ -0,0 +1,372 @@
+import { packBits, unpackBits } from '../utils/bit-utils';
+import { createSeededRandom } from '../utils/prng';
+
+/**
+ * A candidate next token and its probability
+ */
+export interface TokenProbability {
+  token: string;
+  probability: number;
+}
+
+/**
+ * A candidate next token and its log probability, as returned by LLM
+ * APIs (e.g. OpenAI `top_logprobs`)
+ */
+export interface TokenLogprob {
+  token: string;
+  logprob: number;
+}
+
+/**
+ * Next-token distribution of a language model, given the tokens
+ * generated so far. Must return the same distribution for the same
+ * tokens when encoding and decoding.
+ */
+export type NextTokenDistribution = (
+  tokens: readonly string[]
+) => TokenProbability[] | Promise<TokenProbability[]>;
+
+/**
+ * Options for generative token steganography
+ */
+export interface GenerativeStegOptions {
+  /** Next-token distribution of the model (with the prompt already applied) */
+  distribution: NextTokenDistribution;
+  /** Only choose among the most probable candidates at each step (default: all) */
+  topK?: number;
+  /** Tokens to generate before giving up (default 1024) */
+  maxTokens?: number;
+  /** Seed whitening the bits before they select tokens (not encryption) */
+  seed?: string;
+}
+
+/**
+ * Result of encoding data as generated tokens
+ */
+export interface GenerativeEncodeResult {
+  /** Chosen tokens, needed in this form to decode */
+  tokens: string[];
+  /** The tokens joined into text */
+  text: string;
+  /** Bits embedded, including the 32-bit length header */
+  bits: number;
+  /** Embedded bits per generated token */
+  bitsPerToken: number;
+}
+
+/** Payload length header, in bytes */
+const LENGTH_HEADER_SIZE = 4;
+
+/** Bits in the coding interval */
+const PRECISION = 32;
+const WHOLE = 2 ** PRECISION;
+const HALF = WHOLE / 2;
+const QUARTER = WHOLE / 4;
+
+/**
+ * Total of the integer token frequencies. At most QUARTER, so every
+ * token keeps a non-empty interval, and small enough that interval
+ * width times frequency stays an exact integer (2^32 * 2^20 < 2^53).
+ */
+const FREQUENCY_TOTAL = 2 ** 20;
+
+/**
+ * A distribution quantized to integer frequencies: token i covers
+ * [cumulative[i], cumulative[i + 1]) out of cumulative[n]
+ */
+interface QuantizedDistribution {
+  tokens: string[];
+  cumulative: number[];
+}
+
+/**
+ * Generative token-choice steganography over LLM next-token distributions.
+ *
+ * Rather than altering existing text, the secret selects the text as it
+ * is generated. The payload (behind a 32-bit length header) is read as a
+ * binary fraction, and each token is the one whose slice of the model's
+ * distribution contains it, i.e. arithmetic decoding of the secret with
+ * the model as the probability model. Each token carries about as many
+ * bits as the entropy of its distribution, and when the bits are uniformly
+ * random (encrypt the payload first) tokens are chosen with the model's
+ * own probabilities, so the text reads like an ordinary sample.
+ * Decoding replays the distribution over the received tokens and
+ * arithmetic-codes the choices back into bits, in the style of Meteor
+ * and Ziegler et al.
+ *
+ * Both sides need the same `distribution` (same model, prompt and
+ * settings) and the exact token sequence, since re-tokenizing text may
+ * split it differently. Exclude stop tokens from the distribution, or
+ * generation may end mid-payload.
+ *
+ * @example
+ * ```typescript
+ * const steg = new GenerativeSteg({
+ *   distribution: async (tokens) => fromLogprobs(await topLogprobs(prompt, tokens)),
+ *   topK: 20
+ * });
+ *
+ * const { tokens, text } = await steg.encode(encryptedSecret);
+ * const secret = await steg.decode(tokens);
+ * ```
+ */
+export class GenerativeSteg {
+  private readonly distribution: NextTokenDistribution;
+  private readonly topK: number;
+  private readonly maxTokens: number;
+  private readonly seed: string | undefined;
+
+  constructor(options: GenerativeStegOptions) {
+    if (typeof options.distribution !== 'function') {
+      throw new Error(`Invalid distribution: ${String(options.distribution)} (expected a function)`);
+    }
+    this.distribution = options.distribution;
+    this.topK = validatePositiveInteger(options.topK ?? Infinity, 'topK');
+    this.maxTokens = validatePositiveInteger(options.maxTokens ?? 1024, 'maxTokens');
+    this.seed = options.seed;
+  }
+
+  /**
+   * Generate tokens whose choices encode the data
+   */
+  public async encode(data: Buffer): Promise<GenerativeEncodeResult> {
+    const header = Buffer.alloc(LENGTH_HEADER_SIZE);
+    header.writeUInt32BE(data.length, 0);
+    const message = unpackBits(Buffer.concat([header, data]));
+
+    // Past the end of the message any bits will do, but not a constant run:
+    // that can keep the interval straddling the midpoint, so the last message
+    // bits never settle
+    const mask = this.createMask();
+    const padding = createBitStream(`${this.seed ?? ''}:padding`);
+    const bitAt = (i: number): number => (i < message.length ? message[i] ^ mask(i) : padding(i));
+
+    const interval = { low: 0, high: WHOLE - 1, pending: 0 };
+    let value = 0;
+    let read = 0;
+    for (; read < PRECISION; read++) {
+      value = value * 2 + bitAt(read);
+    }
+
+    const tokens: string[] = [];
+    let determined = 0;
+
+    while (determined < message.length) {
+      if (tokens.length >= this.maxTokens) {
+        throw new Error(
+          `Token limit reached: ${determined} of ${message.length} bits encoded in ${this.maxTokens} tokens`
+        );
+      }
+
+      const distribution = quantize(await this.distribution(tokens), this.topK);
+      const { cumulative } = distribution;
+      const total = cumulative[cumulative.length - 1];
+      const range = interval.high - interval.low + 1;
+      const target = Math.floor(((value - interval.low + 1) * total - 1) / range);
+
+      let index = 0;
+      while (cumulative[index + 1] <= target) {
+        index++;
+      }
+      tokens.push(distribution.tokens[index]);
+
+      narrow(interval, distribution, index);
+      renormalize(
+        interval,
+        () => determined++,
+        (offset) => {
+          value = (value - offset) * 2 + bitAt(read++);
+        }
+      );
+    }
+
+    return {
+      tokens,
+      text: tokens.join(''),
+      bits: message.length,
+      bitsPerToken: tokens.length > 0 ? message.length / tokens.length : 0
+    };
+  }
+
+  /**
+   * Recover data from the generated tokens
+   */
+  public async decode(tokens: readonly string[]): Promise<Buffer> {
+    const interval = { low: 0, high: WHOLE - 1, pending: 0 };
+    const bits: number[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const distribution = quantize(await this.distribution(tokens.slice(0, i)), this.topK);
+      const index = distribution.tokens.indexOf(tokens[i]);
+      if (index === -1) {
+        throw new Error(`Token ${JSON.stringify(tokens[i])} at position ${i} is not in the distribution`);
+      }
+
+      narrow(interval, distribution, index);
+      renormalize(interval, (bit) => bits.push(bit), () => undefined);
+    }
+
+    const mask = this.createMask();
+    const message = bits.map((bit, i) => bit ^ mask(i));
+
+    const headerBits = LENGTH_HEADER_SIZE * 8;
+    if (message.length < headerBits) {
+      throw new Error('Data too small to contain valid steganographic content');
+    }
+
+    const dataLength = packBits(message.slice(0, headerBits)).readUInt32BE(0);
+    if (dataLength <= 0) {
+      throw new Error('Invalid data length: zero or negative');
+    }
+
+    const available = Math.floor((message.length - headerBits) / 8);
+    if (dataLength > available) {
+      throw new Error(`Invalid data length: ${dataLength} exceeds embedded ${available}`);
+    }
+
+    return packBits(message.slice(headerBits, headerBits + dataLength * 8));
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Keystream bit at each position, or 0 without a seed
+   */
+  private createMask(): (i: number) => number {
+    return this.seed === undefined ? () => 0 : createBitStream(this.seed);
+  }
+}
+
+/**
+ * Seeded pseudo-random bit at each position
+ */
+function createBitStream(seed: string): (i: number) => number {
+  const random = createSeededRandom(seed);
+  const stream: number[] = [];
+
+  return (i) => {
+    while (stream.length <= i) {
+      stream.push(random() < 0.5 ? 0 : 1);
+    }
+    return stream[i];
+  };
+}
+
+/**
+ * Convert log probabilities to probabilities
+ */
+export function fromLogprobs(candidates: readonly TokenLogprob[]): TokenProbability[] {
+  return candidates.map(({ token, logprob }) => ({ token, probability: Math.exp(logprob) }));
+}
+
+function validatePositiveInteger(value: number, name: string): number {
+  if (typeof value !== 'number' || !(value === Infinity || (Number.isInteger(value) && value >= 1))) {
+    throw new Error(`Invalid ${name}: ${String(value)} (expected a positive integer)`);
+  }
+  return value;
+}
+
+/**
+ * Keep the topK most probable candidates, in a fixed order (by token),
+ * with integer frequencies of at least 1 summing to at most FREQUENCY_TOTAL
+ */
+function quantize(candidates: readonly TokenProbability[], topK: number): QuantizedDistribution {
+  const seen = new Set<string>();
+  for (const { token } of candidates) {
+    if (seen.has(token)) {
+      throw new Error(`Invalid distribution: duplicate token ${JSON.stringify(token)}`);
+    }
+    seen.add(token);
+  }
+
+  const kept = candidates
+    .filter(({ probability }) => Number.isFinite(probability) && probability > 0)
+    .sort((a, b) => b.probability - a.probability || compareTokens(a.token, b.token))
+    .slice(0, topK)
+    .sort((a, b) => compareTokens(a.token, b.token));
+
+  if (kept.length === 0) {
+    throw new Error('Invalid distribution: no tokens with positive probability');
+  }
+  if (kept.length > FREQUENCY_TOTAL) {
+    throw new Error(`Invalid distribution: ${kept.length} tokens (expected at most ${FREQUENCY_TOTAL})`);
+  }
+
+  const sum = kept.reduce((total, { probability }) => total + probability, 0);
+  const spare = FREQUENCY_TOTAL - kept.length;
+  const cumulative = [0];
+  for (const { probability } of kept) {
+    cumulative.push(cumulative[cumulative.length - 1] + 1 + Math.floor((probability / sum) * spare));
+  }
+
+  return { tokens: kept.map(({ token }) => token), cumulative };
+}
+
+function compareTokens(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Narrow the interval to the slice of token `index`
+ */
+function narrow(
+  interval: { low: number; high: number },
+  distribution: QuantizedDistribution,
+  index: number
+): void {
+  const { cumulative } = distribution;
+  const total = cumulative[cumulative.length - 1];
+  const range = interval.high - interval.low + 1;
+
+  interval.high = interval.low + Math.floor((range * cumulative[index + 1]) / total) - 1;
+  interval.low = interval.low + Math.floor((range * cumulative[index]) / total);
+}
+
+/**
+ * Rescale the interval until it straddles the midpoint and is wider than
+ * a quarter, emitting each settled bit (followed by any bits held while
+ * the interval straddled the midpoint) and reporting the offset removed
+ * before each doubling
+ */
+function renormalize(
+  interval: { low: number; high: number; pending: number },
+  emit: (bit: number) => void,
+  shift: (offset: number) => void
+): void {
+  const settle = (bit: number): void => {
+    emit(bit);
+    for (; interval.pending > 0; interval.pending--) {
+      emit(1 - bit);
+    }
+  };
+
+  for (;;) {
+    let offset: number;
+    if (interval.high < HALF) {
+      settle(0);
+      offset = 0;
+    } else if (interval.low >= HALF) {
+      settle(1);
+      offset = HALF;
+    } else if (interval.low >= QUARTER && interval.high < 3 * QUARTER) {
+      interval.pending++;
+      offset = QUARTER;
+    } else {
+      return;
+    }
+
+    interval.low = (interval.low - offset) * 2;
+    interval.high = (interval.high - offset) * 2 + 1;
+    shift(offset);
+  }
+}
+
+/**
+ * Factory function for generative token steganography
+ */
+export function createGenerativeSteg(options: GenerativeStegOptions): GenerativeSteg {
+  return new GenerativeSteg(options);
+}
@@ -4,3 +4,13 @@ export {
   createStreamNormalizer,
   normalizeResponse
 } from './stream-normalizer';
+export {
+  GenerativeSteg,
+  GenerativeStegOptions,
+  GenerativeEncodeResult,
+  NextTokenDistribution,
+  TokenProbability,
+  TokenLogprob,
+  createGenerativeSteg,
+  fromLogprobs
+} from './generative-steg';
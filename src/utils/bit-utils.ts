@@ -207,3 +207,32 @@ export function crc8(buffer: Buffer, polynomial: number = 0x07): number {
 
   return crc;
 }
+
+/**
+ * CRC-32 lookup table (IEEE 802.3, reflected polynomial 0xEDB88320)
+ */
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Calculate CRC-32 (IEEE) for data integrity.
+ * Pass a previous result as `crc` to continue over several buffers.
+ */
+export function crc32(buffer: Buffer, crc: number = 0): number {
+  let c = (crc ^ 0xFFFFFFFF) >>> 0;
+
+  for (const byte of buffer) {
+    c = CRC32_TABLE[(c ^ byte) & 0xFF] ^ (c >>> 8);
+  }
+
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
@@ -0,0 +1,167 @@
+/**
+ * Authenticated payload encryption for steganography.
+ *
+ * Payloads are sealed with AES-256-GCM or ChaCha20-Poly1305 under a key
+ * derived once from a passphrase (scrypt) or key material (HKDF). Each
+ * sealed payload is self-contained:
+ *
+ *   [cipher id: 1][nonce: 12][auth tag: 16][ciphertext]
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+  hkdfSync,
+  CipherGCM,
+  CipherGCMTypes,
+  DecipherGCM,
+  CipherChaCha20Poly1305,
+  DecipherChaCha20Poly1305
+} from 'crypto';
+import { EncryptionConfig, PayloadCipherAlgorithm } from '../interfaces/steg-config.interface';
+
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DEFAULT_SALT = 'llm-steg';
+const HKDF_INFO = 'llm-steg payload key';
+
+/**
+ * Cipher identifiers stored in the first byte of a sealed payload
+ */
+const CIPHER_IDS: Record<PayloadCipherAlgorithm, number> = {
+  'aes-256-gcm': 1,
+  'chacha20-poly1305': 2
+};
+
+/**
+ * Bytes a sealed payload adds to the plaintext
+ */
+export const CIPHER_OVERHEAD = 1 + NONCE_LENGTH + TAG_LENGTH;
+
+/**
+ * Seals and opens payloads with an authenticated cipher.
+ *
+ * Sender and receiver must share the passphrase (or key), salt, KDF and
+ * cipher. Every call to `encrypt` uses a fresh random nonce, so the same
+ * plaintext never produces the same ciphertext.
+ *
+ * @example
+ * ```typescript
+ * const cipher = new PayloadCipher({ passphrase: 'correct horse battery staple' });
+ *
+ * const sealed = cipher.encrypt(Buffer.from('secret'));
+ * const opened = cipher.decrypt(sealed); // null if tampered or wrong key
+ * ```
+ */
+export class PayloadCipher {
+  public readonly algorithm: PayloadCipherAlgorithm;
+  private readonly key: Buffer;
+
+  constructor(config: EncryptionConfig) {
+    const algorithm = config.cipher ?? 'aes-256-gcm';
+    if (!(algorithm in CIPHER_IDS)) {
+      throw new Error(`Invalid cipher: ${String(algorithm)} (expected aes-256-gcm or chacha20-poly1305)`);
+    }
+    this.algorithm = algorithm;
+
+    const secret = config.key ?? (config.passphrase !== undefined ? Buffer.from(config.passphrase) : undefined);
+    if (!secret || secret.length === 0) {
+      throw new Error('Encryption requires a passphrase or key');
+    }
+
+    const salt = config.salt ?? DEFAULT_SALT;
+    const kdf = config.kdf ?? 'scrypt';
+
+    switch (kdf) {
+      case 'scrypt':
+        this.key = scryptSync(secret, salt, KEY_LENGTH);
+        break;
+
+      case 'hkdf':
+        this.key = Buffer.from(hkdfSync('sha256', secret, salt, HKDF_INFO, KEY_LENGTH));
+        break;
+
+      default:
+        throw new Error(`Invalid kdf: ${String(kdf)} (expected scrypt or hkdf)`);
+    }
+  }
+
+  /**
+   * Encrypt and authenticate a payload
+   */
+  public encrypt(plaintext: Buffer): Buffer {
+    const nonce = randomBytes(NONCE_LENGTH);
+    const cipher = createAeadCipher(this.algorithm, this.key, nonce);
+
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return Buffer.concat([
+      Buffer.from([CIPHER_IDS[this.algorithm]]),
+      nonce,
+      cipher.getAuthTag(),
+      ciphertext
+    ]);
+  }
+
+  /**
+   * Verify and decrypt a sealed payload.
+   * Returns null if it is malformed, tampered with or sealed under a
+   * different key or cipher.
+   */
+  public decrypt(sealed: Buffer): Buffer | null {
+    if (sealed.length < CIPHER_OVERHEAD || sealed[0] !== CIPHER_IDS[this.algorithm]) {
+      return null;
+    }
+
+    const nonce = sealed.subarray(1, 1 + NONCE_LENGTH);
+    const tag = sealed.subarray(1 + NONCE_LENGTH, CIPHER_OVERHEAD);
+    const ciphertext = sealed.subarray(CIPHER_OVERHEAD);
+
+    try {
+      const decipher = createAeadDecipher(this.algorithm, this.key, nonce);
+      decipher.setAuthTag(tag);
+
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Create an AEAD cipher for either algorithm. Node's overloads are keyed
+ * by cipher name and have no signature for the union, so the name is
+ * narrowed to the GCM overload, whose returned API (setAAD, getAuthTag)
+ * ChaCha20-Poly1305 shares.
+ */
+function createAeadCipher(
+  algorithm: PayloadCipherAlgorithm,
+  key: Buffer,
+  nonce: Buffer
+): CipherGCM | CipherChaCha20Poly1305 {
+  return createCipheriv(algorithm as CipherGCMTypes, key, nonce, { authTagLength: TAG_LENGTH });
+}
+
+/**
+ * Create an AEAD decipher for either algorithm (see createAeadCipher)
+ */
+function createAeadDecipher(
+  algorithm: PayloadCipherAlgorithm,
+  key: Buffer,
+  nonce: Buffer
+): DecipherGCM | DecipherChaCha20Poly1305 {
+  return createDecipheriv(algorithm as CipherGCMTypes, key, nonce, { authTagLength: TAG_LENGTH });
+}
+
+/**
+ * Create a payload cipher, or null if the config has no passphrase or key
+ */
+export function createPayloadCipher(config?: EncryptionConfig): PayloadCipher | null {
+  if (!config || (config.passphrase === undefined && config.key === undefined)) {
+    return null;
+  }
+  return new PayloadCipher(config);
+}
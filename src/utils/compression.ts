@@ -0,0 +1,109 @@
+/**
+ * Payload compression for steganography.
+ *
+ * Compressed payloads start with a one-byte method tag so the decoder
+ * can inflate them without knowing which method the encoder picked:
+ *
+ *   [method tag: 1][body]
+ *
+ * Whatever the requested method, the payload is stored raw when
+ * compression would not make it smaller.
+ */
+
+import {
+  deflateRawSync,
+  inflateRawSync,
+  brotliCompressSync,
+  brotliDecompressSync,
+  constants
+} from 'zlib';
+import { CompressionMethod } from '../interfaces/steg-config.interface';
+
+/**
+ * Method actually used for a compressed payload
+ */
+export type StoredCompressionMethod = 'raw' | 'deflate' | 'brotli';
+
+const METHOD_TAGS: Record<StoredCompressionMethod, number> = {
+  raw: 0,
+  deflate: 1,
+  brotli: 2
+};
+
+/**
+ * Bytes the method tag adds to a compressed payload
+ */
+export const COMPRESSION_OVERHEAD = 1;
+
+/**
+ * Largest size a payload may inflate to, guarding against
+ * decompression bombs
+ */
+export const MAX_INFLATED_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Compress a payload and prefix the method tag.
+ * Returns the payload unchanged for 'none'.
+ */
+export function compressPayload(data: Buffer, method: CompressionMethod): Buffer {
+  if (method === 'none') {
+    return data;
+  }
+
+  const candidates: Array<[StoredCompressionMethod, Buffer]> = [['raw', data]];
+
+  if (method === 'deflate' || method === 'auto') {
+    candidates.push(['deflate', deflateRawSync(data, { level: 9 })]);
+  }
+  if (method === 'brotli' || method === 'auto') {
+    candidates.push(['brotli', brotliCompressSync(data, {
+      params: { [constants.BROTLI_PARAM_SIZE_HINT]: data.length }
+    })]);
+  }
+  if (candidates.length === 1) {
+    throw new Error(`Invalid compression method: ${String(method)} (expected none, deflate, brotli or auto)`);
+  }
+
+  // Smallest wins; raw comes first so ties keep the payload uncompressed
+  const [stored, body] = candidates.reduce((a, b) => (b[1].length < a[1].length ? b : a));
+
+  return Buffer.concat([Buffer.from([METHOD_TAGS[stored]]), body]);
+}
+
+/**
+ * Inflate a payload produced by `compressPayload`.
+ * Returns the payload unchanged for 'none'.
+ */
+export function decompressPayload(data: Buffer, method: CompressionMethod): Buffer {
+  if (method === 'none') {
+    return data;
+  }
+
+  if (data.length < COMPRESSION_OVERHEAD) {
+    throw new Error('Data too small to contain a compression header');
+  }
+
+  const body = data.subarray(COMPRESSION_OVERHEAD);
+
+  switch (data[0]) {
+    case METHOD_TAGS.raw:
+      return body;
+
+    case METHOD_TAGS.deflate:
+      return inflateRawSync(body, { maxOutputLength: MAX_INFLATED_SIZE });
+
+    case METHOD_TAGS.brotli:
+      return brotliDecompressSync(body, { maxOutputLength: MAX_INFLATED_SIZE });
+
+    default:
+      throw new Error(`Unknown compression method tag: ${data[0]}`);
+  }
+}
+
+/**
+ * Method recorded in a compressed payload's tag, or null if unknown
+ */
+export function getStoredCompressionMethod(data: Buffer): StoredCompressionMethod | null {
+  const entry = Object.entries(METHOD_TAGS).find(([, tag]) => tag === data[0]);
+  return entry ? entry[0] as StoredCompressionMethod : null;
+}
@@ -0,0 +1,271 @@
+/**
+ * Versioned, self-describing container for embedded payloads.
+ *
+ * Layout (multi-byte fields big-endian):
+ *
+ *   [magic 'LS': 2][version: 1][flags: 1][algorithm ID: 1]
+ *   [FEC parity symbols: 1][body length: 4][CRC-32: 4][body]
+ *
+ * The CRC-32 covers the first ten header bytes and the body, so random
+ * cover bits are rejected by the magic and version, and corrupted
+ * payloads by the checksum.
+ *
+ * FEC parity only covers the body, so containers with the FEC flag may
+ * repeat the header REPEATED_HEADER_COPIES times before the body. The
+ * reader takes each header bit by majority vote, so a flipped bit in
+ * one copy does not lose the payload.
+ */
+
+import { crc32 } from './bit-utils';
+import { ContainerFlags, ContainerHeader } from '../interfaces/steg-config.interface';
+
+/**
+ * Magic bytes opening every container ('LS')
+ */
+export const CONTAINER_MAGIC = Buffer.from([0x4C, 0x53]);
+
+/**
+ * Current container format version
+ */
+export const CONTAINER_VERSION = 1;
+
+/**
+ * Container header size in bytes
+ */
+export const CONTAINER_HEADER_SIZE = 14;
+
+/**
+ * Header copies written when `repeatHeader` is set
+ */
+export const REPEATED_HEADER_COPIES = 3;
+
+/**
+ * Size in bytes of a repeated container header
+ */
+export const REPEATED_HEADER_SIZE = CONTAINER_HEADER_SIZE * REPEATED_HEADER_COPIES;
+
+/**
+ * Offset of the CRC-32 field (the checksum covers everything before it)
+ */
+const CRC_OFFSET = 10;
+
+const FLAG_BITS: Record<keyof ContainerFlags, number> = {
+  compressed: 0x01,
+  encrypted: 0x02,
+  fec: 0x04,
+  fragmented: 0x08
+};
+
+const KNOWN_FLAGS = Object.values(FLAG_BITS).reduce((a, b) => a | b, 0);
+
+/**
+ * Numeric algorithm IDs recorded in container headers.
+ * Algorithms not listed are recorded as 0.
+ */
+export const ALGORITHM_IDS: Readonly<Record<string, number>> = {
+  'lsb': 1,
+  'lsb-matching': 2,
+  'matrix': 3,
+  'spread': 4,
+  'dct': 5,
+  'zero-width': 6,
+  'whitespace': 7,
+  'homoglyph': 8,
+  'synonym': 9,
+  'llm-generated': 0xFD,
+  'custom': 0xFE
+};
+
+/**
+ * Header fields chosen by the writer
+ */
+export interface ContainerOptions {
+  /** Processing stages applied to the body */
+  flags?: Partial<ContainerFlags>;
+  /** Algorithm name or numeric ID */
+  algorithm?: string | number;
+  /** Reed-Solomon parity symbols per block, when `flags.fec` is set */
+  fecParitySymbols?: number;
+  /**
+   * Write the header REPEATED_HEADER_COPIES times for majority-vote
+   * reading. Requires `flags.fec`.
+   */
+  repeatHeader?: boolean;
+}
+
+/**
+ * Prefix a body with a container header, repeated when `repeatHeader`
+ * is set
+ */
+export function writeContainer(body: Buffer, options: ContainerOptions = {}): Buffer {
+  const flags = options.flags ?? {};
+  if (options.repeatHeader && !flags.fec) {
+    throw new Error('Invalid container options: repeatHeader requires flags.fec');
+  }
+
+  const flagByte = (Object.keys(FLAG_BITS) as Array<keyof ContainerFlags>)
+    .reduce((acc, key) => (flags[key] ? acc | FLAG_BITS[key] : acc), 0);
+
+  const algorithmId = typeof options.algorithm === 'number'
+    ? options.algorithm
+    : getAlgorithmId(options.algorithm ?? '');
+
+  const out = Buffer.alloc(CONTAINER_HEADER_SIZE + body.length);
+  CONTAINER_MAGIC.copy(out, 0);
+  out[2] = CONTAINER_VERSION;
+  out[3] = flagByte;
+  out[4] = algorithmId & 0xFF;
+  out[5] = flags.fec ? (options.fecParitySymbols ?? 0) & 0xFF : 0;
+  out.writeUInt32BE(body.length, 6);
+  body.copy(out, CONTAINER_HEADER_SIZE);
+  out.writeUInt32BE(computeCrc(out.subarray(0, CRC_OFFSET), body), CRC_OFFSET);
+
+  if (!options.repeatHeader) {
+    return out;
+  }
+
+  const header = out.subarray(0, CONTAINER_HEADER_SIZE);
+  return Buffer.concat([...Array(REPEATED_HEADER_COPIES - 1).fill(header), out]);
+}
+
+/**
+ * Parse and validate a container header (the first
+ * CONTAINER_HEADER_SIZE bytes). Throws if the bytes are not a
+ * container this version understands.
+ */
+export function parseContainerHeader(bytes: Buffer): ContainerHeader {
+  if (bytes.length < CONTAINER_HEADER_SIZE) {
+    throw new Error('Data too small to contain a container header');
+  }
+
+  if (bytes[0] !== CONTAINER_MAGIC[0] || bytes[1] !== CONTAINER_MAGIC[1]) {
+    throw new Error('Missing container magic');
+  }
+
+  const version = bytes[2];
+  if (version !== CONTAINER_VERSION) {
+    throw new Error(`Unsupported container version: ${version}`);
+  }
+
+  const flagByte = bytes[3];
+  if (flagByte & ~KNOWN_FLAGS) {
+    throw new Error(`Unknown container flags: 0x${flagByte.toString(16)}`);
+  }
+
+  const flags = {} as ContainerFlags;
+  for (const key of Object.keys(FLAG_BITS) as Array<keyof ContainerFlags>) {
+    flags[key] = (flagByte & FLAG_BITS[key]) !== 0;
+  }
+
+  const fecParitySymbols = bytes[5];
+  if (flags.fec !== (fecParitySymbols > 0)) {
+    throw new Error('Inconsistent FEC parity in container header');
+  }
+
+  return {
+    version,
+    flags,
+    algorithmId: bytes[4],
+    fecParitySymbols,
+    length: bytes.readUInt32BE(6),
+    crc32: bytes.readUInt32BE(CRC_OFFSET)
+  };
+}
+
+/**
+ * Parse and validate a repeated container header (the first
+ * REPEATED_HEADER_SIZE bytes), taking each bit by majority vote over
+ * the copies. Throws if the voted header is not a valid FEC container
+ * header.
+ */
+export function parseRepeatedContainerHeader(bytes: Buffer): ContainerHeader {
+  if (bytes.length < REPEATED_HEADER_SIZE) {
+    throw new Error('Data too small to contain a repeated container header');
+  }
+
+  const voted = Buffer.alloc(CONTAINER_HEADER_SIZE);
+  for (let i = 0; i < CONTAINER_HEADER_SIZE; i++) {
+    const a = bytes[i];
+    const b = bytes[CONTAINER_HEADER_SIZE + i];
+    const c = bytes[2 * CONTAINER_HEADER_SIZE + i];
+    voted[i] = (a & b) | (a & c) | (b & c);
+  }
+
+  const header = parseContainerHeader(voted);
+  if (!header.flags.fec) {
+    throw new Error('Repeated container header without the FEC flag');
+  }
+  return header;
+}
+
+/**
+ * Split a container into its header and body and verify the checksum.
+ * Repeated headers are recognised by the FEC flag and a length that
+ * matches the rest of the container.
+ * Throws if the header is invalid or the length does not match.
+ */
+export function readContainer(
+  container: Buffer
+): { header: ContainerHeader; body: Buffer; crcValid: boolean } {
+  const repeated = tryRepeatedHeader(container);
+  if (repeated) {
+    const body = container.subarray(REPEATED_HEADER_SIZE);
+    return { header: repeated, body, crcValid: verifyContainer(repeated, body) };
+  }
+
+  const header = parseContainerHeader(container);
+  const body = container.subarray(CONTAINER_HEADER_SIZE);
+
+  if (body.length !== header.length) {
+    throw new Error(
+      `Container length mismatch: header says ${header.length} bytes, found ${body.length}`
+    );
+  }
+
+  const crc = computeCrc(container.subarray(0, CRC_OFFSET), body);
+  return { header, body, crcValid: crc === header.crc32 };
+}
+
+/**
+ * Check a header's CRC-32 against a body, e.g. one repaired by FEC
+ * after `readContainer` reported a mismatch
+ */
+export function verifyContainer(header: ContainerHeader, body: Buffer): boolean {
+  const prefix = Buffer.alloc(CRC_OFFSET);
+  CONTAINER_MAGIC.copy(prefix, 0);
+  prefix[2] = header.version;
+  prefix[3] = (Object.keys(FLAG_BITS) as Array<keyof ContainerFlags>)
+    .reduce((acc, key) => (header.flags[key] ? acc | FLAG_BITS[key] : acc), 0);
+  prefix[4] = header.algorithmId;
+  prefix[5] = header.fecParitySymbols;
+  prefix.writeUInt32BE(body.length, 6);
+
+  return computeCrc(prefix, body) === header.crc32;
+}
+
+function tryRepeatedHeader(container: Buffer): ContainerHeader | null {
+  try {
+    const header = parseRepeatedContainerHeader(container);
+    return header.length === container.length - REPEATED_HEADER_SIZE ? header : null;
+  } catch {
+    return null;
+  }
+}
+
+function computeCrc(prefix: Buffer, body: Buffer): number {
+  return crc32(body, crc32(prefix));
+}
+
+/**
+ * Numeric ID for an algorithm name (0 if unlisted)
+ */
+export function getAlgorithmId(name: string): number {
+  return ALGORITHM_IDS[name] ?? 0;
+}
+
+/**
+ * Algorithm name for a numeric ID, or undefined if unlisted
+ */
+export function getAlgorithmName(id: number): string | undefined {
+  return Object.keys(ALGORITHM_IDS).find((name) => ALGORITHM_IDS[name] === id);
+}
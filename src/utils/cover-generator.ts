@@ -83,7 +83,7 @@ export class CoverGenerator {
    * Generate text-based cover media
    */
   public generateTextCover(
-    style: 'lorem' | 'random' | 'whitespace' = 'lorem',
+    style: 'lorem' | 'prose' | 'random' | 'whitespace' = 'lorem',
     targetSize: number
   ): CoverMedia {
     let text: string;
@@ -92,6 +92,9 @@ export class CoverGenerator {
       case 'lorem':
         text = this.generateLoremIpsum(targetSize);
         break;
+      case 'prose':
+        text = this.generateProse(targetSize);
+        break;
       case 'random':
         text = this.generateRandomText(targetSize);
         break;
@@ -222,6 +225,32 @@ export class CoverGenerator {
     return result.slice(0, targetSize);
   }
 
+  /**
+   * English sentences, for linguistic algorithms that need real words
+   */
+  private generateProse(targetSize: number): string {
+    const prose = [
+      'We often begin a big task by choosing a simple method.',
+      'It seems difficult at first, but the results are usually clear.',
+      'The main goal is almost always to explain the notion behind each example.',
+      'Children quickly understand the concept when they examine pictures.',
+      'Clever kids really enjoy a quick trip through a new topic.',
+      'Maybe the whole job seems strange, yet it allows us to reduce errors.',
+      'Eventually it is important to start carefully and gather the benefits.',
+      'Good teams choose tasks that suit their techniques and explain their methods.'
+    ];
+
+    let result = '';
+    let index = 0;
+
+    while (result.length < targetSize) {
+      result += prose[index % prose.length] + ' ';
+      index++;
+    }
+
+    return result.slice(0, targetSize);
+  }
+
   private generateRandomText(targetSize: number): string {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 .,!?';
     let result = '';
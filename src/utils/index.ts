@@ -21,5 +21,65 @@ export {
   interleaveBits,
   parity,
   checksum,
-  crc8
+  crc8,
+  crc32
 } from './bit-utils';
+
+export {
+  RandomSource,
+  hashSeed,
+  createSeededRandom,
+  seededPermutation
+} from './prng';
+
+export {
+  PayloadCipher,
+  CIPHER_OVERHEAD,
+  createPayloadCipher
+} from './cipher';
+
+export {
+  StoredCompressionMethod,
+  COMPRESSION_OVERHEAD,
+  MAX_INFLATED_SIZE,
+  compressPayload,
+  decompressPayload,
+  getStoredCompressionMethod
+} from './compression';
+
+export {
+  ReedSolomonCodec,
+  ReedSolomonDecodeResult,
+  createReedSolomonCodec
+} from './reed-solomon';
+
+export {
+  CONTAINER_MAGIC,
+  CONTAINER_VERSION,
+  CONTAINER_HEADER_SIZE,
+  REPEATED_HEADER_COPIES,
+  REPEATED_HEADER_SIZE,
+  ALGORITHM_IDS,
+  ContainerOptions,
+  writeContainer,
+  readContainer,
+  verifyContainer,
+  parseContainerHeader,
+  parseRepeatedContainerHeader,
+  getAlgorithmId,
+  getAlgorithmName
+} from './container';
+
+export {
+  MAX_HEADER_COPIES,
+  resolveHeaderCopies,
+  repeatedHeaderBit,
+  readRepeatedHeader
+} from './length-header';
+
+export {
+  findFencedLines,
+  findProtectedText,
+  readUtf8Text,
+  tryReadUtf8Text
+} from './text';
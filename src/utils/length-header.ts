@@ -0,0 +1,66 @@
+/**
+ * Repeated header fields for binary algorithms.
+ *
+ * An algorithm's payload length header sits outside anything the engine
+ * can protect (FEC parity, checksums), so one flipped header bit loses
+ * the whole payload. Writing the header several times in a row and
+ * reading each bit by majority vote lets up to (copies - 1) / 2 flipped
+ * copies of any bit be outvoted.
+ */
+
+/**
+ * Most copies of a header an algorithm will write
+ */
+export const MAX_HEADER_COPIES = 15;
+
+/**
+ * Resolve `config.headerCopies` (default 1, i.e. a single header).
+ * Must be odd so every vote has a majority.
+ */
+export function resolveHeaderCopies(config?: Record<string, unknown>): number {
+  const copies = config?.headerCopies ?? 1;
+  if (
+    typeof copies !== 'number' ||
+    !Number.isInteger(copies) ||
+    copies < 1 ||
+    copies > MAX_HEADER_COPIES ||
+    copies % 2 === 0
+  ) {
+    throw new Error(
+      `Invalid headerCopies: ${String(copies)} (expected an odd number from 1 to ${MAX_HEADER_COPIES})`
+    );
+  }
+  return copies;
+}
+
+/**
+ * Bit to write at `slot` of a `bits`-wide field repeated back to back,
+ * least significant bit first within each copy
+ */
+export function repeatedHeaderBit(value: number, slot: number, bits: number): number {
+  return (value >>> (slot % bits)) & 1;
+}
+
+/**
+ * Read a `bits`-wide field written `copies` times back to back, taking
+ * each bit by majority vote over its copies
+ */
+export function readRepeatedHeader(
+  readBit: (slot: number) => number,
+  bits: number,
+  copies: number
+): number {
+  let value = 0;
+
+  for (let i = 0; i < bits; i++) {
+    let ones = 0;
+    for (let copy = 0; copy < copies; copy++) {
+      ones += readBit(copy * bits + i);
+    }
+    if (ones * 2 > copies) {
+      value |= 1 << i;
+    }
+  }
+
+  return value;
+}
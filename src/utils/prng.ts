@@ -0,0 +1,64 @@
+/**
+ * Seeded pseudo-random number generation for keyed steganography.
+ *
+ * Provides deterministic randomness derived from a string seed so that
+ * encoder and decoder sharing the same seed produce identical sequences.
+ * Not cryptographically secure.
+ */
+
+/**
+ * A function returning uniformly distributed numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a string seed into a 32-bit state (xmur3)
+ */
+export function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Create a deterministic random source from a string seed (mulberry32)
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a seeded permutation of the indices 0..length-1 (Fisher-Yates)
+ */
+export function seededPermutation(length: number, seed: string): Uint32Array {
+  const random = createSeededRandom(seed);
+  const indices = new Uint32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    indices[i] = i;
+  }
+
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = indices[i];
+    indices[i] = indices[j];
+    indices[j] = tmp;
+  }
+
+  return indices;
+}
@@ -0,0 +1,379 @@
+/**
+ * Reed-Solomon forward error correction over GF(2^8).
+ *
+ * Data is split into blocks of up to `255 - paritySymbols` bytes and each
+ * block gets `paritySymbols` parity bytes, correcting up to
+ * floor(paritySymbols / 2) corrupted bytes per block. The last block is
+ * shortened rather than padded, so no length field is needed: the
+ * encoded length alone determines the block layout.
+ */
+
+/**
+ * Codeword length of a full block
+ */
+const BLOCK_SIZE = 255;
+
+/**
+ * Primitive polynomial x^8 + x^4 + x^3 + x^2 + 1
+ */
+const PRIMITIVE = 0x11D;
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+
+(function initTables() {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) {
+      x ^= PRIMITIVE;
+    }
+  }
+  for (let i = 255; i < 512; i++) {
+    GF_EXP[i] = GF_EXP[i - 255];
+  }
+})();
+
+/**
+ * Result of decoding FEC-protected data
+ */
+export interface ReedSolomonDecodeResult {
+  /** The corrected data */
+  data: Buffer;
+  /** Number of bytes corrected across all blocks */
+  corrected: number;
+}
+
+/**
+ * Reed-Solomon codec with a fixed number of parity symbols per block.
+ *
+ * @example
+ * ```typescript
+ * const rs = new ReedSolomonCodec(16); // corrects 8 bytes per block
+ *
+ * const encoded = rs.encode(Buffer.from('payload'));
+ * encoded[2] ^= 0xFF;
+ *
+ * const result = rs.decode(encoded); // { data, corrected: 1 } or null
+ * ```
+ */
+export class ReedSolomonCodec {
+  public readonly paritySymbols: number;
+  private readonly generator: number[];
+
+  constructor(paritySymbols: number) {
+    if (!Number.isInteger(paritySymbols) || paritySymbols < 1 || paritySymbols >= BLOCK_SIZE) {
+      throw new Error(
+        `Invalid paritySymbols: ${String(paritySymbols)} (expected 1-${BLOCK_SIZE - 1})`
+      );
+    }
+    this.paritySymbols = paritySymbols;
+
+    let g = [1];
+    for (let i = 0; i < paritySymbols; i++) {
+      g = polyMul(g, [1, gfPow(2, i)]);
+    }
+    this.generator = g;
+  }
+
+  /**
+   * Data bytes per full block
+   */
+  public get blockDataSize(): number {
+    return BLOCK_SIZE - this.paritySymbols;
+  }
+
+  /**
+   * Encoded size of `dataLength` bytes
+   */
+  public encodedLength(dataLength: number): number {
+    return dataLength + this.paritySymbols * Math.ceil(dataLength / this.blockDataSize);
+  }
+
+  /**
+   * Largest data length whose encoding fits in `capacity` bytes
+   */
+  public dataCapacity(capacity: number): number {
+    const fullBlocks = Math.floor(capacity / BLOCK_SIZE);
+    const remainder = capacity - fullBlocks * BLOCK_SIZE;
+    return fullBlocks * this.blockDataSize + Math.max(0, remainder - this.paritySymbols);
+  }
+
+  /**
+   * Append parity to each block of data
+   */
+  public encode(data: Buffer): Buffer {
+    const k = this.blockDataSize;
+    const blocks: Buffer[] = [];
+
+    for (let offset = 0; offset < data.length; offset += k) {
+      blocks.push(this.encodeBlock(data.subarray(offset, offset + k)));
+    }
+
+    return Buffer.concat(blocks);
+  }
+
+  /**
+   * Correct and strip parity from encoded data.
+   * Returns null if any block has more errors than can be corrected.
+   */
+  public decode(encoded: Buffer): ReedSolomonDecodeResult | null {
+    const blocks: Buffer[] = [];
+    let corrected = 0;
+
+    for (let offset = 0; offset < encoded.length; offset += BLOCK_SIZE) {
+      const block = encoded.subarray(offset, offset + BLOCK_SIZE);
+      if (block.length <= this.paritySymbols) {
+        return null;
+      }
+
+      const result = this.decodeBlock(block);
+      if (!result) {
+        return null;
+      }
+      blocks.push(result.data);
+      corrected += result.corrected;
+    }
+
+    return { data: Buffer.concat(blocks), corrected };
+  }
+
+  // ─────────────────────────────────────────────────────────────
+  // Private Methods
+  // ─────────────────────────────────────────────────────────────
+
+  /**
+   * Systematic encoding: the block followed by the remainder of
+   * block · x^paritySymbols divided by the generator
+   */
+  private encodeBlock(block: Buffer): Buffer {
+    const g = this.generator;
+    const out = new Uint8Array(block.length + this.paritySymbols);
+    out.set(block);
+
+    for (let i = 0; i < block.length; i++) {
+      const coef = out[i];
+      if (coef !== 0) {
+        for (let j = 1; j < g.length; j++) {
+          out[i + j] ^= gfMul(g[j], coef);
+        }
+      }
+    }
+
+    out.set(block);
+    return Buffer.from(out);
+  }
+
+  /**
+   * Correct one codeword: syndromes, Berlekamp-Massey error locator,
+   * Chien search for positions and Forney for magnitudes
+   */
+  private decodeBlock(block: Buffer): ReedSolomonDecodeResult | null {
+    const nsym = this.paritySymbols;
+    const msg = Array.from(block);
+    const dataLength = msg.length - nsym;
+
+    const synd = syndromes(msg, nsym);
+    if (synd.every((s) => s === 0)) {
+      return { data: Buffer.from(msg.slice(0, dataLength)), corrected: 0 };
+    }
+
+    const errLoc = findErrorLocator(synd, nsym);
+    if (!errLoc) {
+      return null;
+    }
+
+    const errPos = findErrors([...errLoc].reverse(), msg.length);
+    if (!errPos) {
+      return null;
+    }
+
+    const fixed = correctErrata(msg, synd, errPos);
+    if (syndromes(fixed, nsym).some((s) => s !== 0)) {
+      return null;
+    }
+
+    return { data: Buffer.from(fixed.slice(0, dataLength)), corrected: errPos.length };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Galois Field Arithmetic
+// ─────────────────────────────────────────────────────────────
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error('Division by zero in GF(256)');
+  }
+  return a === 0 ? 0 : GF_EXP[(GF_LOG[a] + 255 - GF_LOG[b]) % 255];
+}
+
+function gfPow(x: number, power: number): number {
+  return GF_EXP[(((GF_LOG[x] * power) % 255) + 255) % 255];
+}
+
+function gfInverse(x: number): number {
+  return GF_EXP[255 - GF_LOG[x]];
+}
+
+/**
+ * Polynomials are coefficient arrays, highest degree first
+ */
+function polyScale(p: number[], x: number): number[] {
+  return p.map((c) => gfMul(c, x));
+}
+
+function polyAdd(p: number[], q: number[]): number[] {
+  const r = new Array<number>(Math.max(p.length, q.length)).fill(0);
+  p.forEach((c, i) => { r[i + r.length - p.length] = c; });
+  q.forEach((c, i) => { r[i + r.length - q.length] ^= c; });
+  return r;
+}
+
+function polyMul(p: number[], q: number[]): number[] {
+  const r = new Array<number>(p.length + q.length - 1).fill(0);
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) {
+      r[i + j] ^= gfMul(p[i], q[j]);
+    }
+  }
+  return r;
+}
+
+function polyEval(p: number[], x: number): number {
+  let y = p[0];
+  for (let i = 1; i < p.length; i++) {
+    y = gfMul(y, x) ^ p[i];
+  }
+  return y;
+}
+
+/**
+ * Remainder of p / divisor (divisor must be monic)
+ */
+function polyMod(p: number[], divisor: number[]): number[] {
+  const out = [...p];
+  for (let i = 0; i <= p.length - divisor.length; i++) {
+    const coef = out[i];
+    if (coef !== 0) {
+      for (let j = 1; j < divisor.length; j++) {
+        out[i + j] ^= gfMul(divisor[j], coef);
+      }
+    }
+  }
+  return out.slice(out.length - (divisor.length - 1));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Decoding Steps
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Syndromes S_i = msg(α^i), with a leading zero pad
+ */
+function syndromes(msg: number[], nsym: number): number[] {
+  const synd = [0];
+  for (let i = 0; i < nsym; i++) {
+    synd.push(polyEval(msg, gfPow(2, i)));
+  }
+  return synd;
+}
+
+/**
+ * Berlekamp-Massey: error locator polynomial, or null if there are
+ * more errors than the parity can correct
+ */
+function findErrorLocator(synd: number[], nsym: number): number[] | null {
+  let errLoc = [1];
+  let oldLoc = [1];
+
+  for (let i = 0; i < nsym; i++) {
+    const k = i + 1;
+    let delta = synd[k];
+    for (let j = 1; j < errLoc.length; j++) {
+      delta ^= gfMul(errLoc[errLoc.length - 1 - j], synd[k - j]);
+    }
+
+    oldLoc = [...oldLoc, 0];
+    if (delta !== 0) {
+      if (oldLoc.length > errLoc.length) {
+        const newLoc = polyScale(oldLoc, delta);
+        oldLoc = polyScale(errLoc, gfInverse(delta));
+        errLoc = newLoc;
+      }
+      errLoc = polyAdd(errLoc, polyScale(oldLoc, delta));
+    }
+  }
+
+  while (errLoc.length > 0 && errLoc[0] === 0) {
+    errLoc.shift();
+  }
+
+  const errors = errLoc.length - 1;
+  return errors * 2 > nsym ? null : errLoc;
+}
+
+/**
+ * Chien search: error positions, or null if the locator's roots do not
+ * all fall inside the codeword
+ */
+function findErrors(errLoc: number[], length: number): number[] | null {
+  const errors = errLoc.length - 1;
+  const positions: number[] = [];
+
+  for (let i = 0; i < length; i++) {
+    if (polyEval(errLoc, gfPow(2, i)) === 0) {
+      positions.push(length - 1 - i);
+    }
+  }
+
+  return positions.length === errors ? positions : null;
+}
+
+/**
+ * Forney algorithm: compute error magnitudes and apply them
+ */
+function correctErrata(msg: number[], synd: number[], errPos: number[]): number[] {
+  const coefPos = errPos.map((p) => msg.length - 1 - p);
+
+  let errLoc = [1];
+  for (const i of coefPos) {
+    errLoc = polyMul(errLoc, polyAdd([1], [gfPow(2, i), 0]));
+  }
+
+  const reversedSynd = [...synd].reverse();
+  const product = polyMul(reversedSynd, errLoc);
+  const evaluator = polyMod(product, [1, ...new Array<number>(errLoc.length).fill(0)]);
+
+  const X = coefPos.map((p) => gfPow(2, p));
+  const magnitudes = new Array<number>(msg.length).fill(0);
+
+  X.forEach((xi, i) => {
+    const xiInv = gfInverse(xi);
+
+    let locPrime = 1;
+    X.forEach((xj, j) => {
+      if (j !== i) {
+        locPrime = gfMul(locPrime, 1 ^ gfMul(xiInv, xj));
+      }
+    });
+
+    const y = gfMul(xi, polyEval(evaluator, xiInv));
+    magnitudes[errPos[i]] = gfDiv(y, locPrime);
+  });
+
+  return msg.map((c, i) => c ^ magnitudes[i]);
+}
+
+/**
+ * Create a Reed-Solomon codec
+ */
+export function createReedSolomonCodec(paritySymbols: number): ReedSolomonCodec {
+  return new ReedSolomonCodec(paritySymbols);
+}
@@ -0,0 +1,116 @@
+/**
+ * Helpers for algorithms that hide data in UTF-8 text covers
+ */
+
+/** Opening or closing Markdown code fence */
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * URLs, bare `www.` hosts, email addresses and Markdown link targets.
+ * Not anchored on word boundaries, so changing a word in front of a
+ * match never moves where the match starts.
+ */
+const LINK = /(?:[a-z][a-z0-9+.-]*:\/\/|www\.)[^\s<>]+|[\w.+-]+@[\w-]+\.[\w.-]+|\]\([^)\s]*\)?/gi;
+
+/**
+ * Decode a buffer as UTF-8 text, or return null if it is not valid UTF-8
+ */
+export function tryReadUtf8Text(buffer: Buffer): string | null {
+  const text = buffer.toString('utf8');
+  return Buffer.from(text, 'utf8').equals(buffer) ? text : null;
+}
+
+/**
+ * Decode a buffer as UTF-8 text, throwing if it is not valid UTF-8
+ */
+export function readUtf8Text(buffer: Buffer): string {
+  const text = tryReadUtf8Text(buffer);
+  if (text === null) {
+    throw new Error('Cover media is not valid UTF-8 text');
+  }
+  return text;
+}
+
+/**
+ * Flag the lines of fenced Markdown code blocks, including the opening
+ * and closing fence lines. A block runs from an opening fence to a fence
+ * of the same character that is at least as long and has nothing after
+ * it, or to the end of the text.
+ */
+export function findFencedLines(lines: readonly string[]): boolean[] {
+  const fenced: boolean[] = new Array(lines.length).fill(false);
+  let fence: string | null = null;
+
+  lines.forEach((rawLine, i) => {
+    const line = stripCarriageReturn(rawLine);
+    const fenceMatch = FENCE.exec(line);
+
+    if (fence !== null) {
+      const marker = fenceMatch?.[1];
+      if (
+        marker !== undefined &&
+        marker[0] === fence[0] &&
+        marker.length >= fence.length &&
+        line.slice(fenceMatch![0].length).trim() === ''
+      ) {
+        fence = null;
+      }
+      fenced[i] = true;
+    } else if (fenceMatch) {
+      fence = fenceMatch[1];
+      fenced[i] = true;
+    }
+  });
+
+  return fenced;
+}
+
+/**
+ * Mark the characters of links, inline code spans, fenced code and
+ * indented code, which text algorithms should leave unchanged. Marking
+ * depends only on the text outside words (whitespace, backticks, URL
+ * and email punctuation) and on marked characters, so algorithms that
+ * change only unmarked words see the same marks in cover and stego text.
+ */
+export function findProtectedText(text: string): boolean[] {
+  const isProtected: boolean[] = new Array(text.length).fill(false);
+  const mark = (start: number, end: number): void => {
+    isProtected.fill(true, start, end);
+  };
+
+  const lines = text.split('\n');
+  const fenced = findFencedLines(lines);
+  let offset = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const base = offset;
+    const line = stripCarriageReturn(lines[i]);
+    offset += lines[i].length + 1;
+
+    if (fenced[i] || /^( {4}|\t)/.test(line)) {
+      mark(base, base + line.length);
+      continue;
+    }
+
+    // Inline code spans: a run of backticks up to the next run of equal length
+    let open: RegExpMatchArray | null = null;
+    for (const ticks of line.matchAll(/`+/g)) {
+      if (open === null) {
+        open = ticks;
+      } else if (ticks[0].length === open[0].length) {
+        mark(base + open.index!, base + ticks.index! + ticks[0].length);
+        open = null;
+      }
+    }
+  }
+
+  for (const link of text.matchAll(LINK)) {
+    mark(link.index!, link.index! + link[0].length);
+  }
+
+  return isProtected;
+}
+
+function stripCarriageReturn(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
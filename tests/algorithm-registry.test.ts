@@ -0,0 +1,110 @@
+import {
+  AlgorithmRegistry,
+  algorithmRegistry,
+  createAlgorithmRegistry
+} from '../src/algorithms/registry';
+import { LSBAlgorithm } from '../src/algorithms/lsb';
+import { StegEngine } from '../src/core/steg-engine';
+import { StegAlgorithm } from '../src/interfaces/algorithm.interface';
+
+/**
+ * Trivial algorithm: stores the payload after a length byte
+ */
+class PrefixAlgorithm implements StegAlgorithm {
+  readonly name = 'prefix';
+
+  encode(data: Buffer, cover: Buffer): Buffer {
+    return Buffer.concat([Buffer.from([data.length]), data, cover.subarray(data.length + 1)]);
+  }
+
+  decode(stegData: Buffer): Buffer {
+    return stegData.subarray(1, 1 + stegData[0]);
+  }
+
+  calculateCapacity(cover: Buffer): number {
+    return Math.min(255, cover.length - 1);
+  }
+}
+
+describe('AlgorithmRegistry', () => {
+  let registry: AlgorithmRegistry;
+
+  beforeEach(() => {
+    registry = createAlgorithmRegistry();
+  });
+
+  describe('built-in algorithms', () => {
+    it('should register built-ins by default', () => {
+      const names = registry.list().map((d) => d.name);
+      expect(names).toEqual(expect.arrayContaining(['lsb', 'lsb-matching', 'matrix', 'spread', 'dct', 'zero-width', 'whitespace', 'homoglyph', 'synonym']));
+    });
+
+    it('should create an empty registry on request', () => {
+      expect(createAlgorithmRegistry(false).list()).toEqual([]);
+    });
+
+    it('should list descriptions and media types', () => {
+      const spread = registry.list().find((d) => d.name === 'spread')!;
+
+      expect(spread.description).toBeDefined();
+      expect(spread.supportedMediaTypes).toContain('audio');
+      expect(spread).not.toHaveProperty('factory');
+    });
+
+    it('should create instances with options', () => {
+      const lsb = registry.create('lsb', { seed: 'k' }) as LSBAlgorithm;
+
+      expect(lsb).toBeInstanceOf(LSBAlgorithm);
+      expect(lsb.getSeed()).toBe('k');
+    });
+  });
+
+  describe('register/unregister', () => {
+    it('should register and look up custom algorithms', () => {
+      registry.register({
+        name: 'prefix',
+        factory: () => new PrefixAlgorithm(),
+        description: 'Prefix test algorithm'
+      });
+
+      expect(registry.has('prefix')).toBe(true);
+      expect(registry.get('prefix')?.description).toBe('Prefix test algorithm');
+      expect(registry.create('prefix').name).toBe('prefix');
+    });
+
+    it('should refuse duplicate names unless overwriting', () => {
+      const entry = { name: 'lsb', factory: () => new PrefixAlgorithm() };
+
+      expect(() => registry.register(entry)).toThrow(/already registered/);
+
+      registry.register(entry, true);
+      expect(registry.create('lsb').name).toBe('prefix');
+    });
+
+    it('should unregister algorithms', () => {
+      expect(registry.unregister('dct')).toBe(true);
+      expect(registry.unregister('dct')).toBe(false);
+      expect(registry.get('dct')).toBeUndefined();
+      expect(() => registry.create('dct')).toThrow(/Unknown algorithm/);
+    });
+  });
+
+  describe('StegEngine integration', () => {
+    afterEach(() => {
+      algorithmRegistry.unregister('prefix');
+    });
+
+    it('should resolve custom registered algorithms by name', () => {
+      algorithmRegistry.register({ name: 'prefix', factory: () => new PrefixAlgorithm() });
+
+      const engine = new StegEngine({
+        algorithm: 'prefix',
+        coverMedia: [Buffer.alloc(64)]
+      });
+
+      const encoded = engine.encode(Buffer.from('named'));
+      expect(encoded.success).toBe(true);
+      expect(engine.decode(encoded.data).data.toString()).toBe('named');
+    });
+  });
+});
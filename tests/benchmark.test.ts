@@ -0,0 +1,102 @@
+import {
+  AlgorithmBenchmark,
+  benchmarkAlgorithm
+} from '../src/algorithms/benchmark';
+import { createAlgorithmRegistry } from '../src/algorithms/registry';
+import { LSBAlgorithm } from '../src/algorithms/lsb';
+import { StegAlgorithm } from '../src/interfaces/algorithm.interface';
+
+describe('AlgorithmBenchmark', () => {
+  const options = { coverSize: 4096, rounds: 5, warmupRounds: 1 };
+
+  it('should produce metrics and percentile latencies', () => {
+    const result = benchmarkAlgorithm('lsb', { ...options, coverTypes: ['noise', 'gradient'] });
+
+    expect(result.algorithm).toBe('lsb');
+    expect(result.roundTripOk).toBe(true);
+    expect(result.covers.map((c) => c.coverType)).toEqual(['noise', 'gradient']);
+
+    for (const cover of result.covers) {
+      expect(cover.rounds).toBe(5);
+      expect(cover.failures).toBe(0);
+      expect(cover.payloadSize).toBe(Math.floor(((4096 - 32) / 8) * 0.5));
+      expect(cover.metrics.capacityRatio).toBeCloseTo((4096 - 32) / 8 / 4096);
+      expect(cover.metrics.encodeThroughput).toBeGreaterThan(0);
+
+      const { min, p50, p90, p99, max } = cover.encodeLatency;
+      expect(min).toBeLessThanOrEqual(p50);
+      expect(p50).toBeLessThanOrEqual(p90);
+      expect(p90).toBeLessThanOrEqual(p99);
+      expect(p99).toBeLessThanOrEqual(max);
+    }
+
+    expect(result.metrics.encodeTimeMs).toBeGreaterThan(0);
+    expect(result.metrics.decodeThroughput).toBeGreaterThan(0);
+  });
+
+  it('should default to the cover types an algorithm supports', () => {
+    const result = benchmarkAlgorithm('spread', { ...options, coverSize: 65536, rounds: 1 });
+
+    expect(result.covers.map((c) => c.coverType)).toEqual(['noise', 'audio']);
+    expect(result.roundTripOk).toBe(true);
+  });
+
+  it('should accept algorithm instances', () => {
+    const result = benchmarkAlgorithm(new LSBAlgorithm({ seed: 'key' }), {
+      ...options,
+      coverTypes: ['text']
+    });
+
+    expect(result.roundTripOk).toBe(true);
+  });
+
+  it('should detect broken round trips', () => {
+    const broken: StegAlgorithm = {
+      name: 'broken',
+      encode: (data, cover) => Buffer.concat([data, cover]),
+      decode: (stegData) => stegData.subarray(1, 9),
+      calculateCapacity: () => 8
+    };
+
+    const result = benchmarkAlgorithm(broken, { ...options, coverTypes: ['noise'] });
+
+    expect(result.roundTripOk).toBe(false);
+    expect(result.covers[0].failures).toBe(5);
+    expect(result.covers[0].error).toContain('Round-trip mismatch');
+  });
+
+  it('should record errors and covers without capacity', () => {
+    const throwing: StegAlgorithm = {
+      name: 'throwing',
+      encode: () => { throw new Error('boom'); },
+      decode: (stegData) => stegData,
+      calculateCapacity: (cover) => (cover[0] === 0 ? 0 : 16)
+    };
+
+    const result = benchmarkAlgorithm(throwing, { ...options, coverTypes: ['pattern', 'gradient'] });
+    const [pattern, gradient] = result.covers;
+
+    expect(pattern.error).toBe('boom');
+    expect(pattern.failures).toBe(5);
+    expect(gradient.error).toContain('no usable capacity');
+    expect(gradient.rounds).toBe(0);
+    expect(result.metrics.encodeTimeMs).toBe(0);
+  });
+
+  it('should run every algorithm in a registry', () => {
+    const registry = createAlgorithmRegistry();
+    registry.unregister('spread');
+    registry.unregister('dct');
+
+    const results = new AlgorithmBenchmark({ ...options, rounds: 1, registry }).runAll();
+
+    expect(results.map((r) => r.algorithm)).toEqual(['lsb', 'lsb-matching', 'matrix', 'zero-width', 'whitespace', 'homoglyph', 'synonym']);
+    expect(results.every((r) => r.roundTripOk)).toBe(true);
+  });
+
+  it('should validate options', () => {
+    expect(() => new AlgorithmBenchmark({ rounds: 0 })).toThrow('Invalid rounds');
+    expect(() => new AlgorithmBenchmark({ payloadRatio: 0 })).toThrow('Invalid payloadRatio');
+    expect(() => new AlgorithmBenchmark({ coverTypes: ['video' as any] })).toThrow('Invalid cover type');
+  });
+});
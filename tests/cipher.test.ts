@@ -0,0 +1,130 @@
+import { PayloadCipher, CIPHER_OVERHEAD, createPayloadCipher } from '../src/utils/cipher';
+import { StegEngine } from '../src/core/steg-engine';
+import { CONTAINER_HEADER_SIZE } from '../src/utils/container';
+import { StegTransport } from '../src/core/steg-transport';
+import { MemoryAdapter } from '../src/adapters/memory-adapter';
+
+describe('PayloadCipher', () => {
+  const plaintext = Buffer.from('attack at dawn');
+
+  describe.each(['aes-256-gcm', 'chacha20-poly1305'] as const)('%s', (cipherName) => {
+    const cipher = new PayloadCipher({ passphrase: 'hunter2', cipher: cipherName });
+
+    it('should round-trip a payload', () => {
+      const sealed = cipher.encrypt(plaintext);
+
+      expect(sealed.length).toBe(plaintext.length + CIPHER_OVERHEAD);
+      expect(sealed.includes(plaintext)).toBe(false);
+      expect(cipher.decrypt(sealed)).toEqual(plaintext);
+    });
+
+    it('should use a fresh nonce per message', () => {
+      expect(cipher.encrypt(plaintext)).not.toEqual(cipher.encrypt(plaintext));
+    });
+
+    it('should reject tampered ciphertext', () => {
+      const sealed = cipher.encrypt(plaintext);
+      sealed[sealed.length - 1] ^= 0x01;
+
+      expect(cipher.decrypt(sealed)).toBeNull();
+    });
+  });
+
+  it('should reject a different key', () => {
+    const a = new PayloadCipher({ passphrase: 'one' });
+    const b = new PayloadCipher({ passphrase: 'two' });
+
+    expect(b.decrypt(a.encrypt(plaintext))).toBeNull();
+  });
+
+  it('should reject a payload sealed with another cipher', () => {
+    const aes = new PayloadCipher({ passphrase: 'same' });
+    const chacha = new PayloadCipher({ passphrase: 'same', cipher: 'chacha20-poly1305' });
+
+    expect(chacha.decrypt(aes.encrypt(plaintext))).toBeNull();
+  });
+
+  it('should derive keys with HKDF from key material', () => {
+    const key = Buffer.alloc(32, 7);
+    const a = new PayloadCipher({ key, kdf: 'hkdf' });
+    const b = new PayloadCipher({ key, kdf: 'hkdf' });
+
+    expect(b.decrypt(a.encrypt(plaintext))).toEqual(plaintext);
+  });
+
+  it('should validate configuration', () => {
+    expect(() => new PayloadCipher({ passphrase: '' })).toThrow('passphrase or key');
+    expect(() => new PayloadCipher({ passphrase: 'x', cipher: 'des' as any })).toThrow('Invalid cipher');
+    expect(() => new PayloadCipher({ passphrase: 'x', kdf: 'md5' as any })).toThrow('Invalid kdf');
+  });
+
+  it('should create no cipher without a secret', () => {
+    expect(createPayloadCipher()).toBeNull();
+    expect(createPayloadCipher({ cipher: 'aes-256-gcm' })).toBeNull();
+    expect(createPayloadCipher({ passphrase: 'x' })).toBeInstanceOf(PayloadCipher);
+  });
+
+  describe('StegEngine encryption', () => {
+    const cover = Buffer.alloc(1024, 0x5A);
+
+    it('should hide ciphertext rather than plaintext', () => {
+      const engine = new StegEngine({ coverMedia: [cover], encryption: { passphrase: 'hunter2' } });
+      const plain = new StegEngine({ container: false });
+
+      const encoded = engine.encode(plaintext);
+      expect(encoded.success).toBe(true);
+
+      const extracted = plain.decode(encoded.data);
+      expect(extracted.data.includes(plaintext)).toBe(false);
+
+      expect(engine.decode(encoded.data).data).toEqual(plaintext);
+    });
+
+    it('should report authentication failures distinctly', () => {
+      const sender = new StegEngine({ coverMedia: [cover], encryption: { passphrase: 'right' } });
+      const receiver = new StegEngine({ encryption: { passphrase: 'wrong' } });
+      const errors: unknown[] = [];
+      receiver.on('error', (e) => errors.push(e));
+
+      const result = receiver.decode(sender.encode(plaintext).data);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('auth_failed');
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should account for encryption overhead in capacity', () => {
+      const engine = new StegEngine({ encryption: { passphrase: 'x' } });
+      engine.on('error', () => {});
+      engine.addCoverMedia(Buffer.alloc(512)); // 60 bytes of capacity
+      const room = 60 - CONTAINER_HEADER_SIZE - CIPHER_OVERHEAD;
+
+      expect(engine.encode(Buffer.alloc(room)).success).toBe(true);
+      expect(engine.encode(Buffer.alloc(room + 1)).success).toBe(false);
+    });
+
+    it('should encrypt transparently through StegTransport', (done) => {
+      const config = { coverMedia: [cover], encryption: { passphrase: 'hunter2' } };
+      const adapter = new MemoryAdapter();
+      const transport = new StegTransport(adapter, config);
+
+      const received: Buffer[] = [];
+      transport.onData((data) => received.push(Buffer.from(data)));
+      transport.on('error', () => {});
+
+      transport.send(plaintext, () => {
+        const packet = adapter.getLastSent()!;
+        adapter.receive(packet);
+
+        const tampered = Buffer.from(packet);
+        const body = 32 + CONTAINER_HEADER_SIZE * 8;
+        for (let i = body; i < body + 32; i++) tampered[i] ^= 0x01;
+        adapter.receive(tampered);
+
+        expect(received).toEqual([plaintext]);
+        transport.close();
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  compressPayload,
+  decompressPayload,
+  getStoredCompressionMethod,
+  COMPRESSION_OVERHEAD
+} from '../src/utils/compression';
+import { StegEngine } from '../src/core/steg-engine';
+import { Reassembler } from '../src/core/reassembler';
+
+describe('Payload compression', () => {
+  const text = Buffer.from(
+    'The quick brown fox jumps over the lazy dog. '.repeat(20)
+  );
+  const noise = Buffer.alloc(256);
+  for (let i = 0; i < noise.length; i++) {
+    noise[i] = (i * 197 + 41) ^ (i >> 3) * 89;
+  }
+
+  describe.each(['deflate', 'brotli', 'auto'] as const)('%s', (method) => {
+    it('should shrink and restore text', () => {
+      const compressed = compressPayload(text, method);
+
+      expect(compressed.length).toBeLessThan(text.length / 4);
+      expect(decompressPayload(compressed, method)).toEqual(text);
+    });
+
+    it('should store incompressible data raw', () => {
+      const compressed = compressPayload(noise, method);
+
+      expect(getStoredCompressionMethod(compressed)).toBe('raw');
+      expect(compressed.length).toBe(noise.length + COMPRESSION_OVERHEAD);
+      expect(decompressPayload(compressed, method)).toEqual(noise);
+    });
+  });
+
+  it('should pick the smallest method in auto mode', () => {
+    const auto = compressPayload(text, 'auto');
+    const smallest = Math.min(
+      compressPayload(text, 'deflate').length,
+      compressPayload(text, 'brotli').length
+    );
+
+    expect(auto.length).toBe(smallest);
+  });
+
+  it('should inflate whatever method was recorded', () => {
+    const brotli = compressPayload(text, 'brotli');
+    expect(getStoredCompressionMethod(brotli)).toBe('brotli');
+    expect(decompressPayload(brotli, 'deflate')).toEqual(text);
+  });
+
+  it('should pass payloads through with none', () => {
+    expect(compressPayload(text, 'none')).toBe(text);
+    expect(decompressPayload(text, 'none')).toBe(text);
+  });
+
+  it('should reject unknown tags and methods', () => {
+    expect(() => decompressPayload(Buffer.from([9, 1, 2]), 'auto')).toThrow('Unknown compression method tag');
+    expect(() => compressPayload(text, 'lz4' as any)).toThrow('Invalid compression method');
+  });
+
+  describe('StegEngine compression', () => {
+    it('should fit compressible payloads beyond raw capacity', () => {
+      const engine = new StegEngine({ coverMedia: [Buffer.alloc(1024)], compression: 'auto' });
+
+      // 1024-byte cover holds 124 raw bytes; the text is 900
+      const encoded = engine.encode(text);
+      expect(encoded.success).toBe(true);
+      expect(encoded.rawSize).toBe(text.length);
+      expect(encoded.compressedSize).toBeLessThan(124);
+
+      expect(engine.decode(encoded.data).data).toEqual(text);
+    });
+
+    it('should report equal sizes without compression', () => {
+      const engine = new StegEngine({ coverMedia: [Buffer.alloc(1024)] });
+      const encoded = engine.encode(Buffer.from('hello'));
+
+      expect(encoded.rawSize).toBe(5);
+      expect(encoded.compressedSize).toBe(5);
+    });
+
+    it('should compress before encrypting', () => {
+      const engine = new StegEngine({
+        coverMedia: [Buffer.alloc(1024)],
+        compression: 'deflate',
+        encryption: { passphrase: 'hunter2' }
+      });
+
+      const encoded = engine.encode(text);
+      expect(encoded.success).toBe(true);
+      expect(engine.decode(encoded.data).data).toEqual(text);
+    });
+
+    it('should use fewer covers when splitting compressible payloads', () => {
+      const covers = Array.from({ length: 8 }, () => Buffer.alloc(1024));
+      const plain = new StegEngine({ coverMedia: covers });
+      const compressed = new StegEngine({ coverMedia: covers, compression: 'auto' });
+
+      const plainParts = plain.encodeSplit(text);
+      const parts = compressed.encodeSplit(text);
+
+      expect(parts.length).toBeLessThan(plainParts.length);
+      expect(parts.every((r) => r.success)).toBe(true);
+
+      const decoded = Buffer.concat(parts.map((r) => compressed.decode(r.data).data));
+      expect(decoded).toEqual(text);
+    });
+
+    it('should compress fragments independently', () => {
+      const engine = new StegEngine({
+        coverMedia: [Buffer.alloc(256), Buffer.alloc(256)],
+        compression: 'auto',
+        fragmentation: { enabled: true }
+      });
+
+      const reassembler = new Reassembler();
+      let output: Buffer | null = null;
+      for (const r of engine.encodeFragments(text)) {
+        const decoded = engine.decode(r.data);
+        output = reassembler.push(decoded.fragment!, decoded.data) ?? output;
+      }
+
+      expect(output).toEqual(text);
+    });
+
+    it('should validate the compression method', () => {
+      expect(() => new StegEngine({ compression: 'zip' as any })).toThrow('Invalid compression');
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  CONTAINER_HEADER_SIZE,
+  REPEATED_HEADER_SIZE,
+  writeContainer,
+  readContainer,
+  parseContainerHeader,
+  parseRepeatedContainerHeader,
+  verifyContainer,
+  getAlgorithmId,
+  getAlgorithmName
+} from '../src/utils/container';
+import { crc32 } from '../src/utils/bit-utils';
+import { StegEngine } from '../src/core/steg-engine';
+import { SpreadSpectrumAlgorithm } from '../src/algorithms/spread';
+
+describe('Container format', () => {
+  const body = Buffer.from('container body');
+
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xCBF43926);
+    expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xCBF43926);
+  });
+
+  it('should round-trip header fields and body', () => {
+    const container = writeContainer(body, {
+      flags: { compressed: true, fec: true },
+      algorithm: 'matrix',
+      fecParitySymbols: 16
+    });
+
+    expect(container.length).toBe(CONTAINER_HEADER_SIZE + body.length);
+
+    const { header, body: read, crcValid } = readContainer(container);
+    expect(crcValid).toBe(true);
+    expect(read).toEqual(body);
+    expect(header).toMatchObject({
+      version: 1,
+      flags: { compressed: true, encrypted: false, fec: true, fragmented: false },
+      algorithmId: getAlgorithmId('matrix'),
+      fecParitySymbols: 16,
+      length: body.length
+    });
+  });
+
+  it('should detect corruption with the checksum', () => {
+    const container = writeContainer(body, { algorithm: 'lsb' });
+    container[CONTAINER_HEADER_SIZE + 3] ^= 0x10;
+
+    const { header, body: read, crcValid } = readContainer(container);
+    expect(crcValid).toBe(false);
+
+    read[3] ^= 0x10;
+    expect(verifyContainer(header, read)).toBe(true);
+  });
+
+  it('should reject malformed headers', () => {
+    const valid = writeContainer(body);
+
+    const badMagic = Buffer.from(valid);
+    badMagic[0] = 0;
+    expect(() => parseContainerHeader(badMagic)).toThrow('magic');
+
+    const badVersion = Buffer.from(valid);
+    badVersion[2] = 9;
+    expect(() => parseContainerHeader(badVersion)).toThrow('Unsupported container version: 9');
+
+    const badFlags = Buffer.from(valid);
+    badFlags[3] = 0x80;
+    expect(() => parseContainerHeader(badFlags)).toThrow('Unknown container flags');
+
+    expect(() => parseContainerHeader(valid.subarray(0, 10))).toThrow('too small');
+    expect(() => readContainer(valid.subarray(0, valid.length - 1))).toThrow('length mismatch');
+  });
+
+  it('should outvote a corrupted copy of a repeated header', () => {
+    const options = { flags: { fec: true }, algorithm: 'lsb', fecParitySymbols: 8, repeatHeader: true };
+    const container = writeContainer(body, options);
+    expect(container.length).toBe(REPEATED_HEADER_SIZE + body.length);
+
+    container[0] ^= 0xFF;
+    container[CONTAINER_HEADER_SIZE + 9] ^= 0x01;
+
+    const { header, body: read, crcValid } = readContainer(container);
+    expect(crcValid).toBe(true);
+    expect(read).toEqual(body);
+    expect(header).toMatchObject({ fecParitySymbols: 8, length: body.length });
+    expect(parseRepeatedContainerHeader(container)).toEqual(header);
+  });
+
+  it('should only repeat headers of FEC containers', () => {
+    expect(() => writeContainer(body, { repeatHeader: true })).toThrow('repeatHeader requires flags.fec');
+
+    const single = writeContainer(body, { flags: { fec: true }, fecParitySymbols: 8 });
+    expect(readContainer(single).body).toEqual(body);
+  });
+
+  it('should map algorithm names to IDs', () => {
+    expect(getAlgorithmName(getAlgorithmId('lsb-matching'))).toBe('lsb-matching');
+    expect(getAlgorithmId('unheard-of')).toBe(0);
+    expect(getAlgorithmName(0)).toBeUndefined();
+  });
+
+  describe('StegEngine container', () => {
+    const message = Buffer.from('self-describing payload');
+    const cover = () => Buffer.alloc(2048, 0x5A);
+
+    function failing(config: ConstructorParameters<typeof StegEngine>[0] = {}): StegEngine {
+      const engine = new StegEngine(config);
+      engine.on('error', () => {});
+      return engine;
+    }
+
+    it('should decode using the stages recorded in the header', () => {
+      const sender = new StegEngine({
+        coverMedia: [cover()],
+        compression: 'auto',
+        fec: { paritySymbols: 8 },
+        fragmentation: { enabled: true }
+      });
+      const receiver = new StegEngine({});
+
+      const fragments = sender.encodeFragments(message);
+      expect(fragments).toHaveLength(1);
+
+      const result = receiver.decode(fragments[0].data);
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(message);
+      expect(result.fragment).toMatchObject({ sequence: 0, total: 1 });
+      expect(result.fecCorrected).toBe(0);
+    });
+
+    it('should reject payloads without a container', () => {
+      const legacy = new StegEngine({ coverMedia: [cover()], container: false });
+      const result = failing().decode(legacy.encode(message).data);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('invalid_container');
+    });
+
+    it('should report checksum failures distinctly', () => {
+      const engine = failing({ coverMedia: [cover()] });
+      const encoded = engine.encode(message).data;
+      encoded[32 + (CONTAINER_HEADER_SIZE + 2) * 8] ^= 1;
+
+      const result = engine.decode(encoded);
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('checksum_failed');
+    });
+
+    it('should accept bodies repaired by FEC', () => {
+      const engine = new StegEngine({ coverMedia: [cover()], fec: { paritySymbols: 8 } });
+      const encoded = engine.encode(message).data;
+      // Three copies of the LSB length header precede the repeated container header
+      encoded[96 + (REPEATED_HEADER_SIZE + 2) * 8] ^= 1;
+
+      const result = engine.decode(encoded);
+      expect(result.data).toEqual(message);
+      expect(result.fecCorrected).toBe(1);
+    });
+
+    it('should refuse encrypted payloads without a key', () => {
+      const sender = new StegEngine({ coverMedia: [cover()], encryption: { passphrase: 'k' } });
+      const result = failing().decode(sender.encode(message).data);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('auth_failed');
+    });
+
+    it('should refuse unencrypted payloads when a key is configured', () => {
+      const sender = new StegEngine({ coverMedia: [cover()] });
+      const result = failing({ encryption: { passphrase: 'k' } }).decode(sender.encode(message).data);
+
+      expect(result.errorCode).toBe('auth_failed');
+    });
+
+    it('should read and write the legacy format when disabled', () => {
+      const engine = new StegEngine({ coverMedia: [cover()], container: false });
+      const encoded = engine.encode(message).data;
+
+      expect(engine.decode(encoded).data).toEqual(message);
+      expect(new StegEngine({}).probe(encoded).likely).toBe(false);
+    });
+
+    describe('probe', () => {
+      it.each(['lsb', 'lsb-matching', 'matrix'])('should recognise %s payloads', (algorithm) => {
+        const engine = new StegEngine({ algorithm, coverMedia: [Buffer.alloc(8192, 0x5A)] });
+        const encoded = engine.encode(message);
+        expect(encoded.success).toBe(true);
+
+        const probe = engine.probe(encoded.data);
+        expect(probe.likely).toBe(true);
+        expect(probe.algorithm).toBe(algorithm);
+        expect(probe.header?.length).toBe(message.length);
+      });
+
+      it('should record the installed algorithm rather than the configured name', () => {
+        const engine = new StegEngine({ algorithm: 'lsb', coverMedia: [Buffer.alloc(65536)] });
+        engine.setAlgorithm(new SpreadSpectrumAlgorithm({ config: { chipRate: 64 } }));
+
+        const encoded = engine.encode(message);
+        expect(encoded.success).toBe(true);
+
+        const probe = engine.probe(encoded.data);
+        expect(probe.likely).toBe(true);
+        expect(probe.algorithm).toBe('spread');
+        expect(probe.header?.algorithmId).toBe(getAlgorithmId('spread'));
+      });
+
+      it('should reject media without a payload', () => {
+        const probe = new StegEngine({}).probe(cover());
+
+        expect(probe.likely).toBe(false);
+        expect(probe.reason).toBeDefined();
+      });
+
+      it('should reject headers whose length exceeds capacity', () => {
+        const engine = new StegEngine({ algorithm: 'lsb', container: false });
+        const forged = writeContainer(Buffer.alloc(8));
+        forged.writeUInt32BE(100000, 6);
+
+        const probe = engine.probe(engine.getAlgorithm()!.encode(forged, cover()));
+        expect(probe.likely).toBe(false);
+        expect(probe.reason).toContain('exceeds capacity');
+      });
+    });
+  });
+});
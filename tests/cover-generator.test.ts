@@ -59,6 +59,14 @@ describe('CoverGenerator', () => {
       expect(text).toContain('Lorem');
     });
 
+    it('should generate English prose', () => {
+      const cover = generator.generateTextCover('prose', 300);
+
+      expect(cover.data.length).toBe(300);
+      expect(cover.type).toBe('text:prose');
+      expect(cover.data.toString()).toMatch(/^We often begin a big task/);
+    });
+
     it('should generate random text', () => {
       const cover = generator.generateTextCover('random', 200);
 
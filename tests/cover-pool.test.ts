@@ -0,0 +1,209 @@
+import { StegEngine } from '../src/core/steg-engine';
+import { StegTransport } from '../src/core/steg-transport';
+import { MemoryAdapter } from '../src/adapters/memory-adapter';
+import { CoverGenerator } from '../src/utils/cover-generator';
+
+describe('Cover pool lifecycle', () => {
+  const cover = (id: string, size = 512) => ({ data: Buffer.alloc(size, id.charCodeAt(0)), id });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('limits', () => {
+    it('should evict the oldest covers over maxSize', () => {
+      const engine = new StegEngine({ coverPool: { maxSize: 2 } });
+      engine.addCoverMedia(cover('a'));
+      engine.addCoverMedia(cover('b'));
+      engine.addCoverMedia(cover('c'));
+
+      expect(engine.listCoverMedia().map((c) => c.id)).toEqual(['b', 'c']);
+    });
+
+    it('should evict the oldest covers over maxBytes and reject oversized covers', () => {
+      const engine = new StegEngine({ coverPool: { maxBytes: 1024 } });
+      engine.addCoverMedia(cover('a'));
+      engine.addCoverMedia(cover('b'));
+      engine.addCoverMedia(cover('c', 256));
+
+      expect(engine.listCoverMedia().map((c) => c.id)).toEqual(['b', 'c']);
+      expect(engine.getPoolStats().bytes).toBe(768);
+
+      engine.addCoverMedia(cover('d', 2048));
+      expect(engine.getPoolStats().size).toBe(2);
+    });
+
+    it('should apply limits to configured covers and on updateConfig', () => {
+      const engine = new StegEngine({
+        coverMedia: [cover('a'), cover('b'), cover('c')],
+        coverPool: { maxSize: 2 }
+      });
+      expect(engine.getPoolStats().size).toBe(2);
+
+      engine.updateConfig({ coverPool: { maxSize: 1 } });
+      expect(engine.listCoverMedia().map((c) => c.id)).toEqual(['c']);
+    });
+
+    it('should validate pool settings', () => {
+      expect(() => new StegEngine({ coverPool: { maxSize: -1 } })).toThrow('Invalid coverPool.maxSize');
+      expect(() => new StegEngine({ coverPool: { ttlMs: 1.5 } })).toThrow('Invalid coverPool.ttlMs');
+      expect(() => new StegEngine({ coverPool: { lowWatermark: 3, refillTarget: 3 } }))
+        .toThrow('Invalid coverPool.refillTarget');
+      expect(() => new StegEngine({ coverPool: { refill: 'covers' as any } }))
+        .toThrow('Invalid coverPool.refill');
+    });
+  });
+
+  describe('removal and expiry', () => {
+    it('should remove covers by id', () => {
+      const engine = new StegEngine({ coverMedia: [cover('a'), cover('b'), cover('a')] });
+
+      expect(engine.removeCoverMedia('a')).toBe(2);
+      expect(engine.removeCoverMedia('missing')).toBe(0);
+      expect(engine.listCoverMedia().map((c) => c.id)).toEqual(['b']);
+    });
+
+    it('should keep round-robin order when covers are removed', () => {
+      const engine = new StegEngine({
+        coverMedia: [cover('a'), cover('b', 1024), cover('c', 2048)]
+      });
+
+      engine.encode(Buffer.from('x'));
+      engine.removeCoverMedia('a');
+
+      expect(engine.encode(Buffer.from('y')).coverSize).toBe(1024);
+      expect(engine.encode(Buffer.from('z')).coverSize).toBe(2048);
+    });
+
+    it('should expire covers after ttlMs', () => {
+      jest.useFakeTimers({ now: 1_000_000 });
+      const engine = new StegEngine({ coverMedia: [cover('a')], coverPool: { ttlMs: 1000 } });
+      jest.setSystemTime(1_000_500);
+      engine.addCoverMedia(cover('b', 1024));
+
+      expect(engine.listCoverMedia()[0]).toEqual({
+        id: 'a',
+        size: 512,
+        capacity: 60,
+        addedAt: 1_000_000,
+        expiresAt: 1_001_000
+      });
+
+      jest.setSystemTime(1_001_000);
+      expect(engine.encode(Buffer.from('hi')).coverSize).toBe(1024);
+      expect(engine.listCoverMedia().map((c) => c.id)).toEqual(['b']);
+
+      expect(engine.pruneCoverMedia(1_001_500)).toBe(1);
+      expect(engine.getPoolStats().size).toBe(0);
+    });
+
+    it('should not count expired covers in pool stats', () => {
+      jest.useFakeTimers({ now: 1_000_000 });
+      const engine = new StegEngine({ coverMedia: [cover('a'), cover('b')], coverPool: { ttlMs: 1000 } });
+
+      // Move the clock without running the expiry timer
+      jest.setSystemTime(1_001_000);
+      expect(engine.getPoolStats()).toMatchObject({ size: 0, bytes: 0, totalCapacity: 0 });
+      engine.dispose();
+    });
+  });
+
+  describe('events and refill', () => {
+    it('should emit poolLow and poolEmpty as covers leave', () => {
+      const engine = new StegEngine({
+        coverMedia: [cover('a'), cover('b'), cover('c')],
+        coverPool: { lowWatermark: 1 }
+      });
+      const events: string[] = [];
+      engine.on('poolLow', ({ size }) => events.push(`low:${size}`));
+      engine.on('poolEmpty', ({ size }) => events.push(`empty:${size}`));
+
+      engine.removeCoverMedia('a');
+      engine.removeCoverMedia('b');
+      engine.removeCoverMedia('c');
+      engine.addCoverMedia(cover('d'));
+      engine.removeCoverMedia('d');
+
+      expect(events).toEqual(['low:1', 'empty:0', 'empty:0']);
+    });
+
+    it('should emit pool events from expiry alone', () => {
+      jest.useFakeTimers({ now: 1_000_000 });
+      const engine = new StegEngine({ coverMedia: [cover('a')], coverPool: { ttlMs: 1000 } });
+      jest.advanceTimersByTime(500);
+      engine.addCoverMedia(cover('b'));
+
+      const events: string[] = [];
+      engine.on('poolLow', ({ size }) => events.push(`low:${size}`));
+      engine.on('poolEmpty', ({ size }) => events.push(`empty:${size}`));
+
+      jest.advanceTimersByTime(500);
+      expect(events).toEqual(['low:1']);
+
+      jest.advanceTimersByTime(500);
+      expect(events).toEqual(['low:1', 'empty:0']);
+      expect(jest.getTimerCount()).toBe(0);
+
+      engine.addCoverMedia(cover('c'));
+      expect(jest.getTimerCount()).toBe(1);
+      engine.dispose();
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should emit pool events when single-use covers run out', () => {
+      const engine = new StegEngine({
+        coverMedia: [cover('a'), cover('b')],
+        coverSelection: { singleUse: true }
+      });
+      const empty = jest.fn();
+      engine.on('poolEmpty', empty);
+
+      engine.encode(Buffer.from('one'));
+      engine.encode(Buffer.from('two'));
+
+      expect(empty).toHaveBeenCalledWith({ size: 0, bytes: 0 });
+    });
+
+    it('should refill the pool from a CoverGenerator', () => {
+      const generator = new CoverGenerator({ minSize: 1024, maxSize: 1024 });
+      const refill = jest.fn((count: number) =>
+        Array.from({ length: count }, () => generator.generateNoise(1024).data)
+      );
+      const engine = new StegEngine({
+        coverSelection: { singleUse: true },
+        coverPool: { refill, lowWatermark: 1, refillTarget: 3 }
+      });
+
+      const results = Array.from({ length: 5 }, (_, i) => engine.encode(Buffer.from(`message ${i}`)));
+
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(refill).toHaveBeenNthCalledWith(1, 3);
+      expect(refill).toHaveBeenNthCalledWith(2, 2);
+      expect(engine.getPoolStats().size).toBeGreaterThan(1);
+      expect(engine.decode(results[4].data).data.toString()).toBe('message 4');
+    });
+
+    it('should report refill failures', () => {
+      const engine = new StegEngine({
+        coverPool: { refill: () => { throw new Error('out of covers'); } }
+      });
+      const errors: Array<{ type: string; error: Error }> = [];
+      engine.on('error', (e) => errors.push(e));
+
+      expect(engine.encode(Buffer.from('hi')).success).toBe(false);
+      expect(errors.map((e) => e.type)).toEqual(['refill', 'encode']);
+      expect(errors[0].error.message).toBe('out of covers');
+    });
+
+    it('should forward pool events from the transport', () => {
+      const transport = new StegTransport(new MemoryAdapter(), { coverMedia: [cover('a')] });
+      const empty = jest.fn();
+      transport.on('poolEmpty', empty);
+
+      transport.getEngine().removeCoverMedia('a');
+
+      expect(empty).toHaveBeenCalledTimes(1);
+      transport.close();
+    });
+  });
+});
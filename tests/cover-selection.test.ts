@@ -0,0 +1,205 @@
+import { StegEngine } from '../src/core/steg-engine';
+import {
+  RoundRobinSelector,
+  createCoverSelector
+} from '../src/core/cover-selection';
+import { CoverMedia, CoverSelectionRequest } from '../src/interfaces/steg-config.interface';
+
+describe('Cover selection', () => {
+  // Payload room with the container header: 46, 110 and 494 bytes
+  const small = Buffer.alloc(512, 0x11);
+  const medium = Buffer.alloc(1024, 0x22);
+  const large = Buffer.alloc(4096, 0x33);
+
+  const covers = (): CoverMedia[] => [
+    { data: large, id: 'large' },
+    { data: small, id: 'small' },
+    { data: medium, id: 'medium' }
+  ];
+
+  const request = (size: number, exclude?: Set<CoverMedia>): CoverSelectionRequest => ({
+    size,
+    room: (cover) => cover.data.length / 8,
+    exclude
+  });
+
+  describe('strategies', () => {
+    it('should rotate round-robin regardless of size', () => {
+      const engine = new StegEngine({ coverMedia: [small, large] });
+      engine.on('error', () => {});
+
+      expect(engine.encode(Buffer.alloc(200)).success).toBe(false);
+      expect(engine.encode(Buffer.alloc(200)).coverSize).toBe(4096);
+    });
+
+    it('should pick the smallest cover that fits with best-fit', () => {
+      const engine = new StegEngine({
+        coverMedia: [large, small, medium],
+        coverSelection: { strategy: 'best-fit' }
+      });
+
+      expect(engine.encode(Buffer.alloc(10)).coverSize).toBe(512);
+      expect(engine.encode(Buffer.alloc(100)).coverSize).toBe(1024);
+      expect(engine.encode(Buffer.alloc(200)).coverSize).toBe(4096);
+    });
+
+    it('should split best-fit payloads over the largest covers', () => {
+      const engine = new StegEngine({
+        coverMedia: [small, large, medium],
+        coverSelection: { strategy: 'best-fit' }
+      });
+
+      const results = engine.encodeSplit(Buffer.alloc(550));
+
+      expect(results.map((r) => r.coverSize)).toEqual([4096, 1024]);
+      expect(results.map((r) => r.payloadSize)).toEqual([494, 56]);
+    });
+
+    it('should pick seeded random covers that fit', () => {
+      const pick = (seed: string) => {
+        const engine = new StegEngine({
+          coverMedia: [small, medium, large],
+          coverSelection: { strategy: 'random', seed }
+        });
+        return Array.from({ length: 12 }, () => engine.encode(Buffer.alloc(60)).coverSize);
+      };
+
+      const picks = pick('covers');
+      expect(pick('covers')).toEqual(picks);
+      expect(picks).not.toContain(512);
+      expect(new Set(picks)).toEqual(new Set([1024, 4096]));
+    });
+
+    it('should pick the least recently used cover that fits', () => {
+      const selector = createCoverSelector({ strategy: 'lru' });
+      const pool = covers();
+      const ids = (size: number, n: number) =>
+        Array.from({ length: n }, () => selector.select(pool, request(size))?.id);
+
+      expect(ids(10, 4)).toEqual(['large', 'small', 'medium', 'large']);
+      expect(ids(100, 2)).toEqual(['medium', 'large']);
+      expect(ids(10, 1)).toEqual(['small']);
+    });
+
+    it('should fall back to covers with room when none fits', () => {
+      const pool = covers();
+
+      expect(createCoverSelector({ strategy: 'best-fit' }).select(pool, request(1000))?.id).toBe('large');
+      expect(createCoverSelector({ strategy: 'lru' }).select(pool, request(1000))?.id).toBe('large');
+    });
+
+    it('should skip excluded covers', () => {
+      const pool = covers();
+      const exclude = new Set([pool[0]]);
+
+      expect(createCoverSelector({ strategy: 'best-fit' }).select(pool, request(1000, exclude))?.id).toBe('medium');
+      expect(createCoverSelector().select(pool, request(1, exclude))?.id).toBe('small');
+      expect(createCoverSelector().select(pool, request(1, new Set(pool)))).toBeNull();
+    });
+
+    it('should keep the rotation when a cover is removed', () => {
+      const selector = new RoundRobinSelector();
+      const pool = covers();
+
+      expect(selector.select(pool, request(1))?.id).toBe('large');
+      pool.splice(0, 1);
+      selector.onRemove(0);
+
+      expect(selector.select(pool, request(1))?.id).toBe('small');
+      expect(selector.select(pool, request(1))?.id).toBe('medium');
+    });
+
+    it('should accept custom selectors', () => {
+      const engine = new StegEngine({
+        coverMedia: [small, medium],
+        coverSelection: { strategy: { name: 'last', select: (pool) => pool[pool.length - 1] } }
+      });
+
+      expect(engine.encode(Buffer.from('hi')).coverSize).toBe(1024);
+    });
+
+    it('should switch strategies on updateConfig', () => {
+      const engine = new StegEngine({ coverMedia: [large, small] });
+      engine.updateConfig({ coverSelection: { strategy: 'best-fit' } });
+
+      expect(engine.encode(Buffer.from('hi')).coverSize).toBe(512);
+    });
+
+    it('should validate strategies', () => {
+      expect(() => new StegEngine({ coverSelection: { strategy: 'largest' as any } }))
+        .toThrow('Invalid cover selection strategy');
+      expect(() => createCoverSelector({ strategy: {} as any })).toThrow('Invalid cover selector');
+    });
+  });
+
+  describe('single-use mode', () => {
+    it('should retire covers after embedding', () => {
+      const engine = new StegEngine({
+        coverMedia: [small, medium],
+        coverSelection: { singleUse: true }
+      });
+      engine.on('error', () => {});
+
+      const first = engine.encode(Buffer.from('one'));
+      const second = engine.encode(Buffer.from('two'));
+      const third = engine.encode(Buffer.from('three'));
+
+      expect([first.coverSize, second.coverSize]).toEqual([512, 1024]);
+      expect(third.success).toBe(false);
+      expect(third.error).toBe('No cover media available');
+      expect(engine.getPoolStats().size).toBe(0);
+      expect(engine.decode(first.data).data.toString()).toBe('one');
+    });
+
+    it('should keep covers when embedding fails', () => {
+      const engine = new StegEngine({ coverMedia: [small], coverSelection: { singleUse: true } });
+      engine.on('error', () => {});
+
+      expect(engine.encode(Buffer.alloc(100)).success).toBe(false);
+      expect(engine.getPoolStats().size).toBe(1);
+    });
+
+    it('should retire identical cover bytes and reject them when re-added', () => {
+      const engine = new StegEngine({
+        coverMedia: [small, Buffer.from(small), medium],
+        coverSelection: { singleUse: true }
+      });
+
+      engine.encode(Buffer.from('secret'));
+      expect(engine.getPoolStats().size).toBe(1);
+
+      engine.addCoverMedia(Buffer.from(small));
+      engine.updateConfig({ coverMedia: [small, large] });
+      expect(engine.getPoolStats().size).toBe(1);
+      expect(engine.encode(Buffer.from('next')).coverSize).toBe(4096);
+    });
+
+    it('should use each cover once per split message', () => {
+      const engine = new StegEngine({
+        coverMedia: [medium, medium, small],
+        coverSelection: { singleUse: true }
+      });
+      engine.on('error', () => {});
+
+      const results = engine.encodeFragments(Buffer.alloc(130));
+
+      expect(results.map((r) => r.coverSize)).toEqual([1024, 512]);
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(engine.getPoolStats().size).toBe(0);
+    });
+
+    it('should report when the pool runs out mid-split', () => {
+      const engine = new StegEngine({
+        coverMedia: [small, small],
+        coverSelection: { singleUse: true, strategy: 'best-fit' }
+      });
+      engine.on('error', () => {});
+
+      const results = engine.encodeSplit(Buffer.alloc(100));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].error).toBe('No cover media available');
+      expect(engine.getPoolStats().size).toBe(2);
+    });
+  });
+});
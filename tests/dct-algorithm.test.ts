@@ -0,0 +1,142 @@
+import { DCTAlgorithm, createDCTAlgorithm } from '../src/algorithms/dct';
+import { LSBAlgorithm } from '../src/algorithms/lsb';
+import { CoverGenerator } from '../src/utils/cover-generator';
+import { createSeededRandom } from '../src/utils/prng';
+
+/**
+ * Add a small pseudo-random perturbation to every byte
+ */
+function perturb(data: Buffer, amount: number): Buffer {
+  const random = createSeededRandom('perturb');
+  const out = Buffer.from(data);
+  for (let i = 0; i < out.length; i++) {
+    const d = Math.floor(random() * (2 * amount + 1)) - amount;
+    out[i] = Math.max(0, Math.min(255, out[i] + d));
+  }
+  return out;
+}
+
+describe('DCTAlgorithm', () => {
+  let dct: DCTAlgorithm;
+  let generator: CoverGenerator;
+
+  beforeEach(() => {
+    dct = new DCTAlgorithm();
+    generator = new CoverGenerator();
+  });
+
+  describe('encode/decode roundtrip', () => {
+    it('should round-trip on gradient covers', () => {
+      const cover = generator.generateGradient(8192).data;
+
+      const encoded = dct.encode(Buffer.from('DCT secret'), cover);
+
+      expect(dct.decode(encoded).toString()).toBe('DCT secret');
+    });
+
+    it('should round-trip on noise covers', () => {
+      const cover = generator.generateNoise(8192).data;
+      const payload = Buffer.from([0x00, 0xFF, 0x55, 0xAA]);
+
+      expect(dct.decode(dct.encode(payload, cover))).toEqual(payload);
+    });
+
+    it('should handle saturated covers', () => {
+      const white = Buffer.alloc(4096, 0xFF);
+      const black = Buffer.alloc(4096, 0x00);
+
+      expect(dct.decode(dct.encode(Buffer.from('sat'), white)).toString()).toBe('sat');
+      expect(dct.decode(dct.encode(Buffer.from('sat'), black)).toString()).toBe('sat');
+    });
+
+    it('should settle for every accepted quantStep on random covers', () => {
+      for (const quantStep of [2, 3, 4, 6, 8, 12, 24, 48]) {
+        for (const coefficientsPerBlock of [1, 4, 9]) {
+          const algo = new DCTAlgorithm({ config: { quantStep, coefficientsPerBlock } });
+
+          for (const seed of ['a', 'b', 'c']) {
+            const random = createSeededRandom(`cover-${seed}`);
+            const cover = Buffer.from(Array.from({ length: 4096 }, () => Math.floor(random() * 256)));
+            const payload = Buffer.alloc(algo.calculateCapacity(cover), 0xA5);
+
+            expect(algo.decode(algo.encode(payload, cover))).toEqual(payload);
+          }
+        }
+      }
+    });
+
+    it('should leave trailing partial block untouched', () => {
+      const cover = generator.generateGradient(64 * 40 + 10).data;
+      const encoded = dct.encode(Buffer.from('x'), cover);
+
+      expect(encoded.subarray(64 * 40)).toEqual(cover.subarray(64 * 40));
+    });
+  });
+
+  describe('robustness', () => {
+    it('should survive small value perturbations that break LSB', () => {
+      const cover = generator.generateGradient(8192).data;
+      const lsb = new LSBAlgorithm();
+
+      const dctEncoded = perturb(dct.encode(Buffer.from('robust'), cover), 2);
+      const lsbEncoded = perturb(lsb.encode(Buffer.from('robust'), cover), 2);
+
+      expect(dct.decode(dctEncoded).toString()).toBe('robust');
+      expect(() => {
+        if (lsb.decode(lsbEncoded).toString() !== 'robust') throw new Error('corrupted');
+      }).toThrow();
+    });
+
+    it('should keep mean distortion low', () => {
+      const cover = generator.generateGradient(8192).data;
+      const encoded = dct.encode(Buffer.from('bounded'), cover);
+
+      let total = 0;
+      for (let i = 0; i < cover.length; i++) {
+        total += Math.abs(encoded[i] - cover[i]);
+      }
+
+      expect(total / cover.length).toBeLessThan(4);
+    });
+  });
+
+  describe('calculateCapacity', () => {
+    it('should count coefficients per block', () => {
+      // 128 blocks * 4 bits = 512 bits - 32 header = 60 bytes
+      expect(dct.calculateCapacity(Buffer.alloc(8192))).toBe(60);
+
+      const dense = new DCTAlgorithm({ config: { coefficientsPerBlock: 8 } });
+      // 128 blocks * 8 bits = 1024 bits - 32 header = 124 bytes
+      expect(dense.calculateCapacity(Buffer.alloc(8192))).toBe(124);
+    });
+
+    it('should reject covers without room for the header', () => {
+      expect(dct.calculateCapacity(Buffer.alloc(256))).toBe(0);
+      expect(dct.validateCover(Buffer.alloc(256))).toBe(false);
+      expect(() => dct.encode(Buffer.from('x'), Buffer.alloc(256))).toThrow(/too small/);
+    });
+  });
+
+  describe('header copies', () => {
+    it('should round-trip with a repeated header at reduced capacity', () => {
+      const repeated = new DCTAlgorithm({ config: { headerCopies: 3 } });
+      const cover = generator.generateGradient(8192).data;
+
+      // 512 bits - 96 header bits = 52 bytes
+      expect(repeated.calculateCapacity(cover)).toBe(52);
+      expect(repeated.decode(repeated.encode(Buffer.from('voted'), cover)).toString()).toBe('voted');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid configuration', () => {
+      expect(() => new DCTAlgorithm({ config: { quantStep: 1 } })).toThrow(/quantStep/);
+      expect(() => new DCTAlgorithm({ config: { coefficientsPerBlock: 10 } })).toThrow(/coefficientsPerBlock/);
+      expect(() => new DCTAlgorithm({ config: { headerCopies: 2 } })).toThrow(/headerCopies/);
+    });
+
+    it('should create via factory', () => {
+      expect(createDCTAlgorithm().name).toBe('dct');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  GenerativeSteg,
+  TokenProbability,
+  createGenerativeSteg,
+  fromLogprobs
+} from '../src/llm/generative-steg';
+import { createSeededRandom } from '../src/utils/prng';
+
+const VOCABULARY = [
+  'The', ' cat', ' dog', ' sat', ' ran', ' on', ' a', ' mat',
+  ' log', ' quickly', ' slowly', '.', ' and', ' then', ' it', ' was'
+];
+
+/**
+ * Deterministic toy language model: skewed next-token probabilities
+ * derived from the previous two tokens
+ */
+function toyModel(tokens: readonly string[]): TokenProbability[] {
+  const random = createSeededRandom(`toy:${tokens.slice(-2).join('|')}`);
+  return VOCABULARY.map((token) => ({ token, probability: random() ** 3 }));
+}
+
+function randomBytes(length: number, seed: string): Buffer {
+  const random = createSeededRandom(seed);
+  return Buffer.from(Array.from({ length }, () => Math.floor(random() * 256)));
+}
+
+describe('GenerativeSteg', () => {
+  let steg: GenerativeSteg;
+
+  beforeEach(() => {
+    steg = new GenerativeSteg({ distribution: toyModel });
+  });
+
+  describe('encode/decode roundtrip', () => {
+    it('should hide data in generated tokens', async () => {
+      const result = await steg.encode(Buffer.from('secret message'));
+
+      expect(result.text).toBe(result.tokens.join(''));
+      expect(result.tokens.every((token) => VOCABULARY.includes(token))).toBe(true);
+      expect(result.bits).toBe((4 + 14) * 8);
+      expect(result.bitsPerToken).toBeGreaterThan(1);
+      expect((await steg.decode(result.tokens)).toString()).toBe('secret message');
+    });
+
+    it('should round-trip binary payloads', async () => {
+      const payload = randomBytes(64, 'payload');
+
+      expect(await steg.decode((await steg.encode(payload)).tokens)).toEqual(payload);
+    });
+
+    it('should be deterministic for the same data and distribution', async () => {
+      const first = await steg.encode(Buffer.from('same'));
+      const second = await steg.encode(Buffer.from('same'));
+
+      expect(second.tokens).toEqual(first.tokens);
+    });
+
+    it('should ignore tokens generated after the payload', async () => {
+      const { tokens } = await steg.encode(Buffer.from('tail'));
+      const extended = [...tokens, ...toyModel(tokens).slice(0, 1).map((c) => c.token)];
+
+      expect((await steg.decode(extended)).toString()).toBe('tail');
+    });
+
+    it('should accept async distributions', async () => {
+      const remote = createGenerativeSteg({
+        distribution: async (tokens) => {
+          await new Promise((resolve) => setImmediate(resolve));
+          return toyModel(tokens);
+        }
+      });
+
+      const { tokens } = await remote.encode(Buffer.from('async'));
+      expect((await remote.decode(tokens)).toString()).toBe('async');
+      expect(tokens).toEqual((await steg.encode(Buffer.from('async'))).tokens);
+    });
+  });
+
+  describe('distribution', () => {
+    it('should choose tokens with the model probabilities for random bits', async () => {
+      const biased = new GenerativeSteg({
+        distribution: () => [{ token: 'a', probability: 0.75 }, { token: 'b', probability: 0.25 }],
+        maxTokens: 4096
+      });
+
+      const { tokens, bitsPerToken } = await biased.encode(randomBytes(128, 'uniform'));
+      const share = tokens.filter((token) => token === 'a').length / tokens.length;
+
+      expect(share).toBeGreaterThan(0.7);
+      expect(share).toBeLessThan(0.8);
+      // Entropy of (0.75, 0.25) is about 0.811 bits
+      expect(bitsPerToken).toBeGreaterThan(0.75);
+      expect(bitsPerToken).toBeLessThan(0.85);
+    });
+
+    it('should only choose among the topK candidates', async () => {
+      const top3 = new GenerativeSteg({ distribution: toyModel, topK: 3 });
+      const { tokens } = await top3.encode(Buffer.from('top three'));
+
+      tokens.forEach((token, i) => {
+        const ranked = toyModel(tokens.slice(0, i)).sort((a, b) => b.probability - a.probability);
+        expect(ranked.slice(0, 3).map((c) => c.token)).toContain(token);
+      });
+      expect((await top3.decode(tokens)).toString()).toBe('top three');
+    });
+
+    it('should survive near-certain tokens', async () => {
+      const confident = new GenerativeSteg({
+        distribution: (tokens) => tokens.length % 3 === 0
+          ? [{ token: 'x', probability: 0.999 }, { token: 'y', probability: 0.001 }]
+          : toyModel(tokens)
+      });
+
+      const { tokens } = await confident.encode(Buffer.from('confident'));
+      expect((await confident.decode(tokens)).toString()).toBe('confident');
+    });
+
+    it('should convert log probabilities', () => {
+      const converted = fromLogprobs([{ token: 'a', logprob: Math.log(0.5) }, { token: 'b', logprob: -Infinity }]);
+
+      expect(converted[0].token).toBe('a');
+      expect(converted[0].probability).toBeCloseTo(0.5);
+      expect(converted[1].probability).toBe(0);
+    });
+  });
+
+  describe('seed', () => {
+    it('should whiten the bits and require the same seed to decode', async () => {
+      const keyed = new GenerativeSteg({ distribution: toyModel, seed: 'shared' });
+      const { tokens } = await keyed.encode(Buffer.from('keyed'));
+
+      expect(tokens).not.toEqual((await steg.encode(Buffer.from('keyed'))).tokens);
+      expect((await keyed.decode(tokens)).toString()).toBe('keyed');
+
+      const wrong = new GenerativeSteg({ distribution: toyModel, seed: 'other' });
+      await expect(wrong.decode(tokens)).rejects.toThrow('Invalid data length');
+    });
+  });
+
+  describe('errors', () => {
+    it('should give up after maxTokens', async () => {
+      const certain = new GenerativeSteg({
+        distribution: () => [{ token: 'x', probability: 1 }],
+        maxTokens: 10
+      });
+
+      await expect(certain.encode(Buffer.from('stuck'))).rejects.toThrow('Token limit reached');
+    });
+
+    it('should reject tokens the model would not produce', async () => {
+      await expect(steg.decode(['The', ' unicorn'])).rejects.toThrow('" unicorn" at position 1');
+    });
+
+    it('should reject invalid distributions', async () => {
+      const duplicate = new GenerativeSteg({
+        distribution: () => [{ token: 'a', probability: 0.5 }, { token: 'a', probability: 0.5 }]
+      });
+      const empty = new GenerativeSteg({ distribution: () => [{ token: 'a', probability: 0 }] });
+
+      await expect(duplicate.encode(Buffer.from('x'))).rejects.toThrow('duplicate token');
+      await expect(empty.encode(Buffer.from('x'))).rejects.toThrow('no tokens with positive probability');
+    });
+
+    it('should fail to decode too few tokens', async () => {
+      const { tokens } = await steg.encode(Buffer.from('short'));
+
+      await expect(steg.decode(tokens.slice(0, 2))).rejects.toThrow('Data too small');
+    });
+
+    it('should validate options', () => {
+      expect(() => new GenerativeSteg({ distribution: undefined as any })).toThrow('Invalid distribution');
+      expect(() => new GenerativeSteg({ distribution: toyModel, topK: 0 })).toThrow('Invalid topK');
+      expect(() => new GenerativeSteg({ distribution: toyModel, maxTokens: 1.5 })).toThrow('Invalid maxTokens');
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { HomoglyphAlgorithm, createHomoglyphAlgorithm } from '../src/algorithms/homoglyph';
+import { StegEngine } from '../src/core/steg-engine';
+
+const FONT_SAFE = /[\u0430\u0441\u0435\u043E\u0440\u0445\u0443\u0410\u0412\u0421\u0415\u041D\u041A\u041C\u041E\u0420\u0422\u0425]/;
+
+/**
+ * Text as a reader sees it: homoglyphs folded back to Latin letters
+ */
+function latinized(text: string): string {
+  const latin: Record<string, string> = {
+    '\u0430': 'a', '\u0441': 'c', '\u0435': 'e', '\u043E': 'o', '\u0440': 'p', '\u0445': 'x', '\u0443': 'y',
+    '\u0410': 'A', '\u0412': 'B', '\u0421': 'C', '\u0415': 'E', '\u041D': 'H', '\u041A': 'K', '\u041C': 'M',
+    '\u041E': 'O', '\u0420': 'P', '\u0422': 'T', '\u0425': 'X',
+    '\u0501': 'd', '\u04BB': 'h', '\u0456': 'i', '\u0458': 'j', '\u051B': 'q', '\u0455': 's', '\u051D': 'w',
+    '\u0406': 'I', '\u0408': 'J', '\u039D': 'N', '\u0405': 'S', '\u03A5': 'Y', '\u0396': 'Z'
+  };
+  return [...text].map((char) => latin[char] ?? char).join('');
+}
+
+describe('HomoglyphAlgorithm', () => {
+  const paragraph = [
+    'Large language models generate text one token at a time. Each response',
+    'is a fresh and natural cover for hidden data, and nobody reading it will',
+    'notice anything unusual about the letters on the screen. Homoglyphs look',
+    'exactly like the characters they replace, so the reply reads the same.'
+  ].join('\n');
+  const prose = Array(4).fill(paragraph).join('\n\n');
+  const cover = Buffer.from(prose);
+
+  let hg: HomoglyphAlgorithm;
+
+  beforeEach(() => {
+    hg = new HomoglyphAlgorithm();
+  });
+
+  describe('encode/decode roundtrip', () => {
+    it('should round-trip and read like the cover', () => {
+      const encoded = hg.encode(Buffer.from('secret'), cover);
+
+      expect(hg.decode(encoded).toString()).toBe('secret');
+      expect(latinized(encoded.toString())).toBe(prose);
+      expect(encoded.toString()).not.toBe(prose);
+    });
+
+    it('should never swap the first letter of a word', () => {
+      const fill = Buffer.alloc(hg.calculateCapacity(cover), 0xFF);
+      const encoded = hg.encode(fill, cover).toString();
+
+      expect(encoded.split(/\s+/).every((word) => /^[A-Za-z]/.test(word))).toBe(true);
+    });
+
+    it('should use only font-safe pairs in fontSafe mode and decode with any config', () => {
+      const safe = createHomoglyphAlgorithm({ config: { fontSafe: true } });
+      const fill = Buffer.alloc(safe.calculateCapacity(cover), 0xFF);
+      const encoded = safe.encode(fill, cover).toString();
+
+      expect([...latinized(encoded)].length).toBe([...encoded].length);
+      expect([...encoded].filter((char) => !/[\x00-\x7F]/.test(char)).every((char) => FONT_SAFE.test(char))).toBe(true);
+      expect(hg.decode(Buffer.from(encoded))).toEqual(fill);
+      expect(safe.decode(hg.encode(Buffer.from('full'), cover)).toString()).toBe('full');
+    });
+
+    it('should leave words in other scripts alone', () => {
+      const mixed = Buffer.from(`${prose}\nПривет, как дела? Всё хорошо, спасибо.`);
+      const encoded = hg.encode(Buffer.from('mixed'), mixed).toString();
+
+      expect(encoded.endsWith('Привет, как дела? Всё хорошо, спасибо.')).toBe(true);
+      expect(hg.countEligible(mixed)).toBe(hg.countEligible(cover));
+      expect(hg.decode(Buffer.from(encoded)).toString()).toBe('mixed');
+    });
+
+    it('should re-encode over text that already carries a payload', () => {
+      const first = hg.encode(Buffer.from('first payload'), cover);
+
+      expect(hg.decode(hg.encode(Buffer.from('two'), first)).toString()).toBe('two');
+    });
+
+    it('should peek at the leading payload bytes', () => {
+      const encoded = hg.encode(Buffer.from('header+body'), cover);
+
+      expect(hg.peek(encoded, 6).toString()).toBe('header');
+    });
+  });
+
+  describe('protected text', () => {
+    const markdown = [
+      'See https://example.com/docs/page?id=abc and www.example.org for more.',
+      'Write to someone@example.com or follow [the guide](docs/setup-guide.md).',
+      'Run `npm exec example --save` once, then carry on reading the notes here.',
+      '',
+      '```ts',
+      'const message = "hello there";',
+      '```',
+      '',
+      '    indented code sample line',
+      '',
+      paragraph
+    ].join('\n');
+
+    it('should never put homoglyphs in URLs, emails, link targets or code', () => {
+      const fill = Buffer.alloc(hg.calculateCapacity(Buffer.from(markdown)), 0xFF);
+      const encoded = hg.encode(fill, Buffer.from(markdown)).toString();
+
+      for (const kept of [
+        'https://example.com/docs/page?id=abc',
+        'www.example.org',
+        'someone@example.com',
+        '](docs/setup-guide.md)',
+        '`npm exec example --save`',
+        '```ts\nconst message = "hello there";\n```',
+        '    indented code sample line'
+      ]) {
+        expect(encoded).toContain(kept);
+      }
+      expect(latinized(encoded)).toBe(markdown);
+      expect(hg.decode(Buffer.from(encoded))).toEqual(fill);
+    });
+  });
+
+  describe('capacity', () => {
+    it('should be computed from eligible letters', () => {
+      expect(hg.countEligible(Buffer.from('Hello world'))).toBe(4);
+      expect(createHomoglyphAlgorithm({ config: { fontSafe: true } }).countEligible(Buffer.from('Hello world'))).toBe(3);
+      expect(hg.calculateCapacity(cover)).toBe(Math.floor((hg.countEligible(cover) - 1) / 8) - 4);
+    });
+
+    it('should be larger with the full table', () => {
+      const safe = createHomoglyphAlgorithm({ config: { fontSafe: true } });
+
+      expect(hg.calculateCapacity(cover)).toBeGreaterThan(safe.calculateCapacity(cover));
+    });
+
+    it('should reject payloads over capacity', () => {
+      expect(() => hg.encode(Buffer.from('too long'), Buffer.from('Some short text')))
+        .toThrow('Cover media too small');
+    });
+  });
+
+  describe('invalid input', () => {
+    it('should reject covers that are not valid UTF-8', () => {
+      const binary = Buffer.from([0x68, 0x69, 0x20, 0xC3, 0x28, 0x20, 0x78]);
+
+      expect(hg.calculateCapacity(binary)).toBe(0);
+      expect(hg.validateCover(binary)).toBe(false);
+      expect(() => hg.encode(Buffer.from('x'), binary)).toThrow('not valid UTF-8');
+    });
+
+    it('should fail to decode text without enough letters', () => {
+      expect(() => hg.decode(Buffer.from('too short'))).toThrow('Data too small');
+    });
+
+    it('should validate fontSafe', () => {
+      expect(() => new HomoglyphAlgorithm({ config: { fontSafe: 'yes' } }))
+        .toThrow('Invalid fontSafe');
+    });
+  });
+
+  describe('with StegEngine', () => {
+    it('should hide payloads in text by name', () => {
+      const engine = new StegEngine({ algorithm: 'homoglyph', coverMedia: [cover] });
+
+      const result = engine.encode(Buffer.from('hidden'));
+
+      expect(result.success).toBe(true);
+      expect(latinized(result.data.toString())).toBe(prose);
+      expect(engine.decode(result.data).data.toString()).toBe('hidden');
+      expect(engine.probe(result.data).algorithm).toBe('homoglyph');
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  LLMAlgorithmGenerator,
+  clearGeneratedAlgorithmCache,
+  extractAlgorithmCode,
+  hashPrompt
+} from '../src/algorithms/llm-generator';
+import { StegEngine } from '../src/core/steg-engine';
+import { LLMProvider } from '../src/interfaces/steg-config.interface';
+import { SandboxedAlgorithm } from '../src/algorithms/sandbox';
+
+const GOOD_CODE = `
+exports.encode = function (data, cover) {
+  var out = Uint8Array.from(cover);
+  var bits = [];
+  for (var i = 0; i < 32; i++) bits.push((data.length >>> i) & 1);
+  for (var j = 0; j < data.length * 8; j++) bits.push((data[j >> 3] >> (j & 7)) & 1);
+  for (var k = 0; k < bits.length; k++) out[k] = (out[k] & 0xFE) | bits[k];
+  return out;
+};
+exports.decode = function (steg) {
+  var len = 0;
+  for (var i = 0; i < 32; i++) len |= (steg[i] & 1) << i;
+  var out = new Uint8Array(len);
+  for (var j = 0; j < len * 8; j++) out[j >> 3] |= (steg[32 + j] & 1) << (j & 7);
+  return out;
+};
+exports.calculateCapacity = function (cover) {
+  return Math.max(0, Math.floor((cover.length - 32) / 8));
+};
+`;
+
+/**
+ * Fake provider replaying scripted completions and recording prompts
+ */
+class FakeProvider implements LLMProvider {
+  public prompts: string[] = [];
+
+  constructor(private readonly replies: string[]) {}
+
+  async createCompletion(options: { prompt: string }) {
+    this.prompts.push(options.prompt);
+    const text = this.replies[Math.min(this.prompts.length - 1, this.replies.length - 1)];
+    return { choices: [{ text }] };
+  }
+}
+
+describe('LLMAlgorithmGenerator', () => {
+  const created: SandboxedAlgorithm[] = [];
+
+  beforeEach(() => {
+    clearGeneratedAlgorithmCache();
+  });
+
+  afterAll(() => {
+    created.forEach((a) => a.dispose());
+  });
+
+  describe('extractAlgorithmCode', () => {
+    it('should extract fenced code blocks', () => {
+      const text = 'Here you go:\n```javascript\nexports.a = 1;\n```\nEnjoy!';
+      expect(extractAlgorithmCode(text)).toBe('exports.a = 1;');
+    });
+
+    it('should pick the largest block', () => {
+      const text = '```\nshort\n```\n```js\nthe longer block\n```';
+      expect(extractAlgorithmCode(text)).toBe('the longer block');
+    });
+
+    it('should fall back to raw text', () => {
+      expect(extractAlgorithmCode('  exports.a = 1;  ')).toBe('exports.a = 1;');
+    });
+  });
+
+  describe('generate', () => {
+    it('should accept valid code on the first attempt', async () => {
+      const provider = new FakeProvider(['```javascript\n' + GOOD_CODE + '\n```']);
+      const generator = new LLMAlgorithmGenerator({ provider });
+
+      const result = await generator.generate('simple LSB');
+      created.push(result.algorithm);
+
+      expect(result.attempts).toBe(1);
+      expect(result.cached).toBe(false);
+      expect(result.promptHash).toBe(hashPrompt('simple LSB'));
+      expect(provider.prompts[0]).toContain('simple LSB');
+      expect(provider.prompts[0]).toContain('exports');
+    });
+
+    it('should retry with error feedback', async () => {
+      const broken = 'exports.encode = function (d, c) { return c; };\nexports.decode = function () { return []; };';
+      const provider = new FakeProvider([
+        '```js\n' + broken + '\n```',
+        '```js\n' + GOOD_CODE + '\n```'
+      ]);
+      const generator = new LLMAlgorithmGenerator({ provider });
+
+      const result = await generator.generate('retry me');
+      created.push(result.algorithm);
+
+      expect(result.attempts).toBe(2);
+      expect(provider.prompts[1]).toContain('previous attempt was rejected');
+      expect(provider.prompts[1]).toContain('Probe failed');
+    });
+
+    it('should fail capacity self-tests for overstated capacity', async () => {
+      const overstated = GOOD_CODE + 'exports.calculateCapacity = function (c) { return c.length; };';
+      const provider = new FakeProvider(['```js\n' + overstated + '\n```']);
+      const generator = new LLMAlgorithmGenerator({ provider, maxAttempts: 2 });
+
+      await expect(generator.generate('overstated')).rejects.toThrow(/after 2 attempts/);
+      expect(provider.prompts).toHaveLength(2);
+    });
+
+    it('should contain generated code that tampers with intrinsics', async () => {
+      const hostile = GOOD_CODE + `
+        var escaped = null;
+        function tryEscape(x) {
+          try {
+            var p = x.constructor.constructor('return process')();
+            if (p && typeof p.binding === 'function') escaped = p.pid;
+          } catch (e) {}
+        }
+        var RealU8 = Uint8Array, realSet = RealU8.prototype.set, realFrom = RealU8.from;
+        RealU8.prototype.set = function (src, offset) {
+          tryEscape(src);
+          return realSet.call(this, src, offset);
+        };
+        function FakeU8(n) { tryEscape(n); return new RealU8(n); }
+        FakeU8.from = function (x) { tryEscape(x); return realFrom.call(RealU8, x); };
+        FakeU8.prototype = RealU8.prototype;
+        Uint8Array = FakeU8;
+        var decode = exports.decode;
+        exports.decode = function (steg) {
+          tryEscape(steg);
+          if (escaped !== null) throw new Error('escaped to pid ' + escaped);
+          return decode(steg);
+        };
+      `;
+      const provider = new FakeProvider(['```js\n' + hostile + '\n```']);
+      const generator = new LLMAlgorithmGenerator({ provider, maxAttempts: 1 });
+
+      const result = await generator.generate('hostile');
+      created.push(result.algorithm);
+      const encoded = result.algorithm.encode(Buffer.from('contained'), Buffer.alloc(512));
+
+      expect(result.algorithm.decode(encoded).toString()).toBe('contained');
+    });
+
+    it('should serve accepted code from the cache', async () => {
+      const provider = new FakeProvider(['```js\n' + GOOD_CODE + '\n```']);
+      const first = await new LLMAlgorithmGenerator({ provider }).generate('cache me');
+      const second = await new LLMAlgorithmGenerator({ provider }).generate('cache me');
+      created.push(first.algorithm, second.algorithm);
+
+      expect(second.cached).toBe(true);
+      expect(second.attempts).toBe(0);
+      expect(second.code).toBe(first.code);
+      expect(provider.prompts).toHaveLength(1);
+    });
+
+    it('should support a private cache', async () => {
+      const cache = new Map<string, string>();
+      const provider = new FakeProvider(['```js\n' + GOOD_CODE + '\n```']);
+      const result = await new LLMAlgorithmGenerator({ provider, cache }).generate('private');
+      created.push(result.algorithm);
+
+      expect(cache.get(hashPrompt('private'))).toBe(result.code);
+    });
+  });
+
+  describe('StegEngine integration', () => {
+    it('should generate and use the algorithm', async () => {
+      const provider = new FakeProvider(['```js\n' + GOOD_CODE + '\n```']);
+      const engine = new StegEngine({
+        algorithm: 'llm-generated',
+        llmProvider: provider,
+        llmPrompt: 'engine prompt',
+        coverMedia: [Buffer.alloc(512, 0x33)]
+      });
+
+      expect(engine.getAlgorithm()).toBeNull();
+
+      const events: unknown[] = [];
+      engine.on('algorithmGenerated', (e) => events.push(e));
+
+      const algorithm = await engine.generateAlgorithm();
+      created.push(algorithm as SandboxedAlgorithm);
+
+      const encoded = engine.encode(Buffer.from('generated'));
+      expect(engine.decode(encoded.data).data.toString()).toBe('generated');
+      expect(engine.getConfig().algorithmCode).toContain('exports.encode');
+      expect(events).toEqual([{ promptHash: hashPrompt('engine prompt'), attempts: 1, cached: false }]);
+    });
+
+    it('should require provider and prompt', async () => {
+      await expect(new StegEngine({ algorithm: 'llm-generated' }).generateAlgorithm())
+        .rejects.toThrow(/llmProvider/);
+      await expect(new StegEngine({
+        algorithm: 'llm-generated',
+        llmProvider: new FakeProvider([''])
+      }).generateAlgorithm()).rejects.toThrow(/llmPrompt/);
+    });
+  });
+});
@@ -1,4 +1,9 @@
-import { LSBAlgorithm, createLSBAlgorithm } from '../src/algorithms/lsb';
+import {
+  LSBAlgorithm,
+  LSBMatchingAlgorithm,
+  createLSBAlgorithm,
+  createLSBMatchingAlgorithm
+} from '../src/algorithms/lsb';
 
 describe('LSBAlgorithm', () => {
   let lsb: LSBAlgorithm;
@@ -127,6 +132,208 @@ describe('LSBAlgorithm', () => {
     });
   });
 
+  describe('bit depth and planes', () => {
+    it('should scale capacity with bitsPerByte', () => {
+      const deep = new LSBAlgorithm({ config: { bitsPerByte: 4 } });
+      const cover = Buffer.alloc(100);
+      // 400 bits - 32 header bits = 368 bits = 46 bytes
+      expect(deep.calculateCapacity(cover)).toBe(46);
+    });
+
+    it('should round-trip with multiple bits per byte', () => {
+      const deep = new LSBAlgorithm({ config: { bitsPerByte: 2 } });
+      const message = Buffer.from('Two bits per sample');
+      const cover = Buffer.alloc(96, 0x5A);
+
+      const encoded = deep.encode(message, cover);
+
+      expect(deep.decode(encoded).toString()).toBe('Two bits per sample');
+    });
+
+    it('should only touch the selected bit planes', () => {
+      const planes = new LSBAlgorithm({ config: { bitPlanes: [1, 3] } });
+      const cover = Buffer.alloc(128, 0x00);
+
+      const encoded = planes.encode(Buffer.from([0xFF, 0xFF]), cover);
+
+      for (const byte of encoded) {
+        expect(byte & ~0b1010).toBe(0);
+      }
+      expect(planes.decode(encoded)).toEqual(Buffer.from([0xFF, 0xFF]));
+    });
+
+    it('should place the header in fewer bytes with more planes', () => {
+      const deep = new LSBAlgorithm({ config: { bitsPerByte: 4 } });
+      const cover = Buffer.alloc(64, 0x00);
+
+      const encoded = deep.encode(Buffer.from([0x01]), cover);
+
+      // 32 header bits over 4 planes = first 8 bytes, payload in the next 2
+      expect(encoded[8]).toBe(0x01);
+      expect(encoded.subarray(10)).toEqual(cover.subarray(10));
+    });
+
+    it('should validate cover size against plane count', () => {
+      const deep = new LSBAlgorithm({ config: { bitsPerByte: 4 } });
+      expect(deep.validateCover(Buffer.alloc(10))).toBe(true);
+      expect(lsb.validateCover(Buffer.alloc(10))).toBe(false);
+    });
+
+    it('should combine bit depth with keyed mode', () => {
+      const options = { seed: 'deep-key', config: { bitsPerByte: 3 } };
+      const encoded = new LSBAlgorithm(options).encode(Buffer.from('keyed'), Buffer.alloc(64, 0xF0));
+
+      expect(new LSBAlgorithm(options).decode(encoded).toString()).toBe('keyed');
+    });
+
+    it('should reject invalid configuration', () => {
+      expect(() => new LSBAlgorithm({ config: { bitsPerByte: 9 } })).toThrow(/bitsPerByte/);
+      expect(() => new LSBAlgorithm({ config: { bitPlanes: [0, 0] } })).toThrow(/bitPlanes/);
+      expect(() => new LSBAlgorithm({ config: { bitPlanes: [8] } })).toThrow(/bitPlanes/);
+    });
+  });
+
+  describe('header copies', () => {
+    it('should outvote a flipped bit in one header copy', () => {
+      const repeated = new LSBAlgorithm({ config: { headerCopies: 3 } });
+      const encoded = repeated.encode(Buffer.from('voted'), Buffer.alloc(256));
+
+      // Copy 0, bit 31 and copy 2, bit 0
+      encoded[31] ^= 1;
+      encoded[64] ^= 1;
+
+      expect(repeated.decode(encoded).toString()).toBe('voted');
+    });
+
+    it('should lose the payload to the same flip with a single header', () => {
+      const encoded = lsb.encode(Buffer.from('voted'), Buffer.alloc(256));
+      encoded[31] ^= 1;
+
+      expect(() => lsb.decode(encoded)).toThrow();
+    });
+
+    it('should reserve header bits for every copy', () => {
+      const repeated = new LSBAlgorithm({ config: { headerCopies: 3 } });
+      // 1024 bits - 96 header bits = 116 bytes
+      expect(repeated.calculateCapacity(Buffer.alloc(1024))).toBe(116);
+      expect(repeated.validateCover(Buffer.alloc(100))).toBe(false);
+    });
+
+    it('should reject an even or out-of-range copy count', () => {
+      expect(() => new LSBAlgorithm({ config: { headerCopies: 2 } })).toThrow(/headerCopies/);
+      expect(() => new LSBAlgorithm({ config: { headerCopies: 0 } })).toThrow(/headerCopies/);
+      expect(() => new LSBAlgorithm({ config: { headerCopies: 17 } })).toThrow(/headerCopies/);
+    });
+  });
+
+  describe('LSB matching', () => {
+    it('should decode matched output with the plain decoder', () => {
+      const matching = new LSBMatchingAlgorithm();
+      const cover = Buffer.alloc(256);
+      for (let i = 0; i < cover.length; i++) cover[i] = (i * 37) & 0xFF;
+
+      const encoded = matching.encode(Buffer.from('matched'), cover);
+
+      expect(lsb.decode(encoded).toString()).toBe('matched');
+    });
+
+    it('should change each byte by at most one and stay in bounds', () => {
+      const matching = new LSBMatchingAlgorithm();
+      const cover = Buffer.alloc(256);
+      for (let i = 0; i < cover.length; i++) cover[i] = i % 2 === 0 ? 0x00 : 0xFF;
+
+      const encoded = matching.encode(Buffer.from([0x5A, 0xA5, 0xFF]), cover);
+
+      for (let i = 0; i < cover.length; i++) {
+        expect(Math.abs(encoded[i] - cover[i])).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should both increment and decrement values', () => {
+      const matching = new LSBMatchingAlgorithm();
+      const cover = Buffer.alloc(1024, 0x80);
+      const payload = Buffer.alloc(100, 0xFF);
+
+      const encoded = matching.encode(payload, cover);
+      const deltas = new Set<number>();
+      for (let i = 0; i < cover.length; i++) deltas.add(encoded[i] - cover[i]);
+
+      expect(deltas).toEqual(new Set([-1, 0, 1]));
+    });
+
+    it('should be selectable through options', () => {
+      const viaConfig = new LSBAlgorithm({ config: { embedding: 'match' } });
+
+      expect(viaConfig.getEmbeddingMode()).toBe('match');
+      expect(lsb.getEmbeddingMode()).toBe('replace');
+      expect(() => new LSBAlgorithm({ config: { embedding: 'flip' } })).toThrow(/embedding/);
+    });
+
+    it('should be deterministic in keyed mode', () => {
+      const cover = Buffer.alloc(512, 0x42);
+      const a = new LSBMatchingAlgorithm({ seed: 'k' }).encode(Buffer.from('same'), cover);
+      const b = new LSBMatchingAlgorithm({ seed: 'k' }).encode(Buffer.from('same'), cover);
+
+      expect(a).toEqual(b);
+    });
+
+    it('should match across multiple bit planes', () => {
+      const matching = new LSBMatchingAlgorithm({ config: { bitsPerByte: 2 } });
+      const cover = Buffer.alloc(128, 0x81);
+
+      const encoded = matching.encode(Buffer.from('2bit'), cover);
+
+      expect(matching.decode(encoded).toString()).toBe('2bit');
+      for (let i = 0; i < cover.length; i++) {
+        expect(Math.abs(encoded[i] - cover[i])).toBeLessThanOrEqual(2);
+      }
+    });
+
+    it('should have its own name', () => {
+      expect(createLSBMatchingAlgorithm().name).toBe('lsb-matching');
+    });
+  });
+
+  describe('keyed mode', () => {
+    it('should round-trip with matching seed', () => {
+      const encoder = new LSBAlgorithm({ seed: 'shared-key' });
+      const decoder = new LSBAlgorithm({ seed: 'shared-key' });
+      const message = Buffer.from('Keyed secret');
+      const cover = Buffer.alloc(512, 0xAA);
+
+      const encoded = encoder.encode(message, cover);
+
+      expect(decoder.decode(encoded).toString()).toBe('Keyed secret');
+    });
+
+    it('should scatter bits away from sequential positions', () => {
+      const keyed = new LSBAlgorithm({ seed: 'shared-key' });
+      const message = Buffer.from('Keyed secret');
+      const cover = Buffer.alloc(512, 0xFF);
+
+      const encoded = keyed.encode(message, cover);
+
+      expect(encoded).not.toEqual(lsb.encode(message, cover));
+      expect(() => lsb.decode(encoded)).toThrow();
+    });
+
+    it('should fail cleanly with the wrong seed', () => {
+      const encoder = new LSBAlgorithm({ seed: 'right-key' });
+      const decoder = new LSBAlgorithm({ seed: 'wrong-key' });
+      const encoded = encoder.encode(Buffer.from('secret'), Buffer.alloc(1024, 0x55));
+
+      expect(() => decoder.decode(encoded)).toThrow(/Invalid data length/);
+    });
+
+    it('should apply seed set after construction', () => {
+      lsb.setSeed('late-key');
+      const encoded = lsb.encode(Buffer.from('late'), Buffer.alloc(256, 0x00));
+
+      expect(lsb.getSeed()).toBe('late-key');
+      expect(new LSBAlgorithm({ seed: 'late-key' }).decode(encoded).toString()).toBe('late');
+    });
+  });
+
   describe('factory function', () => {
     it('should create algorithm via factory', () => {
       const algo = createLSBAlgorithm();
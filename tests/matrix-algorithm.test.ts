@@ -0,0 +1,150 @@
+import {
+  MatrixEmbeddingAlgorithm,
+  createMatrixEmbeddingAlgorithm
+} from '../src/algorithms/matrix';
+import { CoverGenerator } from '../src/utils/cover-generator';
+
+describe('MatrixEmbeddingAlgorithm', () => {
+  let matrix: MatrixEmbeddingAlgorithm;
+  let generator: CoverGenerator;
+
+  beforeEach(() => {
+    matrix = new MatrixEmbeddingAlgorithm();
+    generator = new CoverGenerator();
+  });
+
+  describe('encode/decode roundtrip', () => {
+    it('should encode and decode simple message', () => {
+      const cover = generator.generateNoise(4096).data;
+
+      const encoded = matrix.encode(Buffer.from('Hello, Matrix!'), cover);
+
+      expect(matrix.decode(encoded).toString()).toBe('Hello, Matrix!');
+    });
+
+    it('should round-trip for every fixed k', () => {
+      const cover = generator.generateNoise(8192).data;
+      const payload = Buffer.from([0x00, 0xFF, 0x5A, 0xA5, 0x13]);
+
+      for (let k = 1; k <= 8; k++) {
+        const fixed = new MatrixEmbeddingAlgorithm({ config: { k } });
+        expect(fixed.decode(fixed.encode(payload, cover))).toEqual(payload);
+      }
+    });
+
+    it('should decode without knowing k', () => {
+      const cover = generator.generateNoise(4096).data;
+      const encoded = new MatrixEmbeddingAlgorithm({ config: { k: 5 } }).encode(Buffer.from('k=5'), cover);
+
+      expect(matrix.decode(encoded).toString()).toBe('k=5');
+    });
+  });
+
+  describe('embedding efficiency', () => {
+    it('should change at most one byte per block', () => {
+      const k = 4;
+      const fixed = new MatrixEmbeddingAlgorithm({ config: { k } });
+      const cover = generator.generateNoise(2048).data;
+      const payload = Buffer.from('efficiency');
+
+      const encoded = fixed.encode(payload, cover);
+      const blockSize = (1 << k) - 1;
+      const blocks = Math.ceil((payload.length * 8) / k);
+
+      for (let b = 0; b < blocks; b++) {
+        let changes = 0;
+        for (let i = 0; i < blockSize; i++) {
+          const idx = 40 + b * blockSize + i;
+          if (encoded[idx] !== cover[idx]) changes++;
+        }
+        expect(changes).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should make fewer changes than plain LSB', () => {
+      const cover = generator.generateNoise(16384).data;
+      const payload = Buffer.alloc(64, 0xA7);
+
+      const encoded = matrix.encode(payload, cover);
+      let changes = 0;
+      for (let i = 40; i < cover.length; i++) {
+        if (encoded[i] !== cover[i]) changes++;
+      }
+
+      // Plain LSB changes ~half of 512 payload bits
+      expect(changes).toBeLessThan(200);
+    });
+  });
+
+  describe('k selection', () => {
+    it('should pick a larger k for a smaller payload ratio', () => {
+      const cover = Buffer.alloc(4096);
+
+      const small = matrix.selectK(4, cover)!;
+      const large = matrix.selectK(200, cover)!;
+
+      expect(small).toBeGreaterThan(large);
+      expect(matrix.capacityForK(cover, small)).toBeGreaterThanOrEqual(4);
+      expect(matrix.capacityForK(cover, large)).toBeGreaterThanOrEqual(200);
+    });
+
+    it('should respect maxK', () => {
+      const bounded = new MatrixEmbeddingAlgorithm({ config: { maxK: 3 } });
+      expect(bounded.selectK(1, Buffer.alloc(4096))).toBe(3);
+    });
+
+    it('should return null when payload cannot fit', () => {
+      expect(matrix.selectK(1000, Buffer.alloc(256))).toBeNull();
+      expect(() => matrix.encode(Buffer.alloc(1000), Buffer.alloc(256))).toThrow(/too small/);
+    });
+  });
+
+  describe('header copies', () => {
+    it('should outvote a flipped bit in one copy of each field', () => {
+      const repeated = new MatrixEmbeddingAlgorithm({ config: { headerCopies: 3 } });
+      const cover = generator.generateNoise(2048).data;
+      const encoded = repeated.encode(Buffer.from('voted'), cover);
+
+      // k field copy 0, bit 0; length field (after 3 × 8 k bits) copy 1, bit 31
+      encoded[0] ^= 1;
+      encoded[24 + 32 + 31] ^= 1;
+
+      expect(repeated.decode(encoded).toString()).toBe('voted');
+    });
+
+    it('should reserve header bits for every copy', () => {
+      const repeated = new MatrixEmbeddingAlgorithm({ config: { k: 1, headerCopies: 3 } });
+      // k=1: (1024 - 120) bits = 113 bytes
+      expect(repeated.calculateCapacity(Buffer.alloc(1024))).toBe(113);
+    });
+  });
+
+  describe('calculateCapacity', () => {
+    it('should report capacity for the fixed k', () => {
+      const fixed = new MatrixEmbeddingAlgorithm({ config: { k: 3 } });
+      // (1000 - 40) / 7 = 137 blocks * 3 bits = 411 bits = 51 bytes
+      expect(fixed.calculateCapacity(Buffer.alloc(1000))).toBe(51);
+    });
+
+    it('should report maximum capacity in automatic mode', () => {
+      // k=1: (1000 - 40) bits = 120 bytes
+      expect(matrix.calculateCapacity(Buffer.alloc(1000))).toBe(120);
+    });
+
+    it('should return 0 for covers smaller than header', () => {
+      expect(matrix.calculateCapacity(Buffer.alloc(20))).toBe(0);
+      expect(matrix.validateCover(Buffer.alloc(20))).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid k', () => {
+      expect(() => new MatrixEmbeddingAlgorithm({ config: { k: 0 } })).toThrow(/Invalid k/);
+      expect(() => new MatrixEmbeddingAlgorithm({ config: { maxK: 17 } })).toThrow(/Invalid maxK/);
+    });
+
+    it('should create via factory', () => {
+      expect(createMatrixEmbeddingAlgorithm().name).toBe('matrix');
+    });
+  });
+});
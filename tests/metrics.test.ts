@@ -0,0 +1,161 @@
+import { StegMetrics, formatPrometheusMetrics } from '../src/core/metrics';
+import { StegEngine } from '../src/core/steg-engine';
+import { StegTransport } from '../src/core/steg-transport';
+import { MemoryAdapter } from '../src/adapters/memory-adapter';
+
+describe('Metrics', () => {
+  const cover = Buffer.alloc(1024, 0x5A);
+
+  describe('StegMetrics', () => {
+    it('should bucket latencies cumulatively', () => {
+      const metrics = new StegMetrics([1, 10, 100]);
+      for (const ms of [0, 1, 5, 50, 500]) {
+        metrics.recordDecode(ms);
+      }
+
+      const { decodeLatency } = metrics.snapshot();
+      expect(decodeLatency.counts).toEqual([2, 3, 4, 5]);
+      expect(decodeLatency.sumMs).toBe(556);
+      expect(decodeLatency.count).toBe(5);
+    });
+
+    it('should reset counters', () => {
+      const metrics = new StegMetrics();
+      metrics.recordEncodeFailure('drop');
+      metrics.reset();
+
+      expect(metrics.snapshot().encodes.failure).toBe(0);
+      expect(metrics.snapshot().onError.drop).toBe(0);
+    });
+
+    it('should validate buckets', () => {
+      expect(() => new StegMetrics([10, 5])).toThrow('Invalid latency buckets');
+    });
+  });
+
+  describe('StegEngine metrics', () => {
+    it('should count encodes, bytes and capacity utilisation', () => {
+      const engine = new StegEngine({ coverMedia: [cover] });
+      engine.encode(Buffer.from('hello'));
+      engine.encode(Buffer.from('world!'));
+
+      const metrics = engine.getMetrics();
+      expect(metrics.encodes).toEqual({ success: 2, failure: 0 });
+      expect(metrics.bytesHidden).toBe(11);
+      expect(metrics.bytesEmbedded).toBe(11 + 2 * 14); // container headers
+      expect(metrics.coverBytesConsumed).toBe(2048);
+      expect(metrics.capacityOffered).toBe(2 * 124);
+      expect(metrics.capacityUtilisation).toBeCloseTo(39 / 248);
+      expect(metrics.encodeLatency.count).toBe(2);
+    });
+
+    it('should offer the capacity of the current algorithm', () => {
+      const engine = new StegEngine({ coverMedia: [cover] });
+      engine.updateConfig({ algorithmOptions: { bitsPerByte: 2 } });
+      const capacity = engine.getAlgorithm()!.calculateCapacity(cover);
+
+      engine.encode(Buffer.from('hello'));
+
+      expect(capacity).toBeGreaterThan(124);
+      expect(engine.getMetrics().capacityOffered).toBe(capacity);
+    });
+
+    it('should count failures by onError strategy and decode error code', () => {
+      const engine = new StegEngine({ coverMedia: [cover], onError: 'drop' });
+      engine.on('error', () => {});
+
+      engine.encode(Buffer.alloc(1000));
+      engine.decode(cover);
+      engine.decode(engine.encode(Buffer.from('ok')).data);
+
+      const metrics = engine.getMetrics();
+      expect(metrics.encodes).toEqual({ success: 1, failure: 1 });
+      expect(metrics.onError).toEqual({ passthrough: 0, drop: 1, throw: 0 });
+      expect(metrics.decodes).toEqual({ success: 1, failure: 1 });
+      expect(metrics.decodeErrors).toEqual({ decode_failed: 1 });
+    });
+
+    it('should count thrown failures', () => {
+      const engine = new StegEngine({ coverMedia: [cover], onError: 'throw' });
+      engine.on('error', () => {});
+
+      expect(() => engine.encode(Buffer.alloc(1000))).toThrow();
+      expect(engine.getMetrics().onError.throw).toBe(1);
+
+      engine.resetMetrics();
+      expect(engine.getMetrics().encodes.failure).toBe(0);
+    });
+  });
+
+  describe('StegTransport metrics', () => {
+    it('should count packets, deliveries and drops', (done) => {
+      const adapter = new MemoryAdapter();
+      const transport = new StegTransport(adapter, { coverMedia: [cover] });
+      transport.on('error', () => {});
+      transport.onData(() => {});
+
+      transport.send(Buffer.from('hello'), () => {
+        const packet = adapter.getLastSent()!;
+        adapter.receive(packet);
+
+        const corrupted = Buffer.from(packet);
+        corrupted[32 + 14 * 8] ^= 1;
+        adapter.receive(corrupted);
+        adapter.receive(Buffer.from('plain traffic'));
+
+        const metrics = transport.getMetrics();
+        expect(metrics.transport).toMatchObject({
+          packetsSent: 1,
+          packetsReceived: 3,
+          delivered: 2,
+          rawPassthrough: 1,
+          dropped: { encodeFailed: 0, authFailed: 0, checksumFailed: 1 }
+        });
+        expect(metrics.decodes.success).toBe(1);
+
+        transport.resetMetrics();
+        expect(transport.getMetrics().transport.packetsReceived).toBe(0);
+        transport.close();
+        done();
+      });
+    });
+  });
+
+  describe('formatPrometheusMetrics', () => {
+    it('should render counters, gauges and histograms', () => {
+      const engine = new StegEngine({ coverMedia: [cover] });
+      engine.encode(Buffer.from('hello'));
+
+      const text = formatPrometheusMetrics(engine.getMetrics());
+
+      expect(text).toContain('# TYPE llm_steg_encodes_total counter');
+      expect(text).toContain('llm_steg_encodes_total{outcome="success"} 1');
+      expect(text).toContain('llm_steg_bytes_hidden_total 5');
+      expect(text).toContain('# TYPE llm_steg_capacity_utilisation_ratio gauge');
+      expect(text).toContain('# TYPE llm_steg_encode_duration_seconds histogram');
+      expect(text).toContain('llm_steg_encode_duration_seconds_bucket{le="+Inf"} 1');
+      expect(text).toContain('llm_steg_encode_duration_seconds_count 1');
+      expect(text).not.toContain('transport');
+      expect(text.endsWith('\n')).toBe(true);
+    });
+
+    it('should add transport metrics, prefix and escaped labels', () => {
+      const transport = new StegTransport(new MemoryAdapter(), { coverMedia: [cover] });
+      const text = formatPrometheusMetrics(transport.getMetrics(), {
+        prefix: 'steg',
+        labels: { instance: 'relay "1"' }
+      });
+
+      expect(text).toContain('steg_transport_dropped_total{instance="relay \\"1\\"",reason="auth_failed"} 0');
+      expect(text).toContain('steg_decodes_total{instance="relay \\"1\\"",outcome="failure"} 0');
+      transport.close();
+    });
+
+    it('should validate names', () => {
+      const snapshot = new StegMetrics().snapshot();
+
+      expect(() => formatPrometheusMetrics(snapshot, { prefix: '1bad' })).toThrow('Invalid prefix');
+      expect(() => formatPrometheusMetrics(snapshot, { labels: { 'a-b': 'x' } })).toThrow('Invalid label name');
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import {
+  Reassembler,
+  FRAGMENT_HEADER_SIZE,
+  encodeFragment,
+  decodeFragment,
+  createReassembler
+} from '../src/core/reassembler';
+import { StegEngine } from '../src/core/steg-engine';
+import { LSBAlgorithm } from '../src/algorithms/lsb';
+import { StegTransport } from '../src/core/steg-transport';
+import { MemoryAdapter } from '../src/adapters/memory-adapter';
+
+describe('Reassembler', () => {
+  const message = Buffer.from('fragmented payload spanning several covers');
+
+  function split(messageId: number, size: number) {
+    const fragments = [];
+    const total = Math.ceil(message.length / size);
+    for (let sequence = 0; sequence < total; sequence++) {
+      fragments.push({
+        header: { messageId, sequence, total },
+        data: message.subarray(sequence * size, (sequence + 1) * size)
+      });
+    }
+    return fragments;
+  }
+
+  describe('fragment headers', () => {
+    it('should round-trip a fragment', () => {
+      const header = { messageId: 0xDEADBEEF, sequence: 2, total: 5 };
+      const encoded = encodeFragment(header, Buffer.from('abc'));
+
+      expect(encoded.length).toBe(FRAGMENT_HEADER_SIZE + 3);
+
+      const decoded = decodeFragment(encoded);
+      expect(decoded.header).toEqual(header);
+      expect(decoded.data.toString()).toBe('abc');
+    });
+
+    it('should reject invalid headers', () => {
+      expect(() => encodeFragment({ messageId: 1, sequence: 3, total: 3 }, Buffer.alloc(0))).toThrow();
+      expect(() => decodeFragment(Buffer.alloc(4))).toThrow('fragment header');
+      expect(() => decodeFragment(Buffer.alloc(FRAGMENT_HEADER_SIZE))).toThrow('Invalid fragment header');
+    });
+  });
+
+  describe('reassembly', () => {
+    it('should reassemble fragments in order', () => {
+      const reassembler = new Reassembler();
+      const fragments = split(1, 8);
+
+      const outputs = fragments.map((f) => reassembler.push(f.header, f.data));
+
+      expect(outputs.slice(0, -1).every((o) => o === null)).toBe(true);
+      expect(outputs[outputs.length - 1]).toEqual(message);
+      expect(reassembler.getPendingCount()).toBe(0);
+    });
+
+    it('should reassemble out-of-order fragments and ignore duplicates', () => {
+      const reassembler = createReassembler();
+      const fragments = split(7, 10).reverse();
+      let result: Buffer | null = null;
+
+      reassembler.push(fragments[0].header, fragments[0].data);
+      for (const f of fragments) {
+        result = reassembler.push(f.header, f.data) ?? result;
+      }
+
+      expect(result).toEqual(message);
+    });
+
+    it('should keep interleaved messages apart', () => {
+      const reassembler = new Reassembler();
+      const a = split(1, 16);
+      const b = split(2, 16);
+      const results: Buffer[] = [];
+
+      a.forEach((f, i) => {
+        for (const g of [f, b[i]]) {
+          const out = reassembler.push(g.header, g.data);
+          if (out) results.push(out);
+        }
+      });
+
+      expect(results).toEqual([message, message]);
+    });
+
+    it('should drop stale partial messages after the timeout', () => {
+      jest.useFakeTimers();
+      try {
+        const reassembler = new Reassembler({ timeoutMs: 1000 });
+        const stale = jest.fn();
+        reassembler.on('stale', stale);
+
+        const fragments = split(3, 8);
+        reassembler.push(fragments[0].header, fragments[0].data);
+        expect(reassembler.getPendingCount()).toBe(1);
+
+        jest.advanceTimersByTime(1001);
+        expect(reassembler.prune()).toBe(1);
+        expect(stale).toHaveBeenCalledWith({ messageId: 3, received: 1, total: fragments.length });
+        expect(reassembler.getPendingCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject an invalid timeout', () => {
+      expect(() => new Reassembler({ timeoutMs: 0 })).toThrow('Invalid timeoutMs');
+    });
+
+    it('should evict the message with the oldest last fragment beyond maxPending', () => {
+      const reassembler = new Reassembler({ maxPending: 2 });
+      const stale = jest.fn();
+      reassembler.on('stale', stale);
+
+      const [a, b, c] = [split(1, 8), split(2, 8), split(3, 8)];
+      reassembler.push(a[0].header, a[0].data);
+      reassembler.push(b[0].header, b[0].data);
+      reassembler.push(a[1].header, a[1].data);
+      reassembler.push(c[0].header, c[0].data);
+
+      expect(reassembler.getPendingCount()).toBe(2);
+      expect(stale).toHaveBeenCalledWith({ messageId: 2, received: 1, total: b.length });
+
+      reassembler.configure({ maxPending: 1 });
+      expect(reassembler.getPendingCount()).toBe(1);
+      expect(stale).toHaveBeenLastCalledWith({ messageId: 1, received: 2, total: a.length });
+
+      expect(() => reassembler.configure({ maxPending: 0 })).toThrow('Invalid maxPending');
+    });
+  });
+
+  describe('StegEngine fragmentation', () => {
+    it('should encode fragments that decode with headers', () => {
+      const engine = new StegEngine({
+        coverMedia: [Buffer.alloc(256), Buffer.alloc(256), Buffer.alloc(256)],
+        fragmentation: { enabled: true }
+      });
+
+      // 256-byte covers hold 28 bytes: 6 of payload per fragment after
+      // the container and fragment headers
+      const results = engine.encodeFragments(message);
+      expect(results).toHaveLength(Math.ceil(message.length / 6));
+      expect(results.every((r) => r.success)).toBe(true);
+
+      const reassembler = new Reassembler();
+      let output: Buffer | null = null;
+      for (const r of [...results].reverse()) {
+        const decoded = engine.decode(r.data);
+        expect(decoded.fragment).toEqual(r.fragment);
+        output = reassembler.push(decoded.fragment!, decoded.data) ?? output;
+      }
+
+      expect(output).toEqual(message);
+    });
+  });
+
+  describe('StegTransport fragmentation', () => {
+    it('should send one packet per fragment and reassemble on receive', (done) => {
+      const adapter = new MemoryAdapter();
+      const transport = new StegTransport(adapter, {
+        coverMedia: [Buffer.alloc(256), Buffer.alloc(256)],
+        fragmentation: { enabled: true }
+      });
+
+      const received: Buffer[] = [];
+      transport.onData((data) => received.push(Buffer.from(data)));
+
+      transport.send(message, (err) => {
+        expect(err).toBeUndefined();
+
+        const packets = adapter.getSentData();
+        expect(packets.length).toBeGreaterThan(1);
+
+        // Deliver out of order
+        for (const packet of [...packets].reverse()) {
+          adapter.receive(packet);
+        }
+
+        expect(received).toEqual([message]);
+        transport.close();
+        done();
+      });
+    });
+
+    it('should drop stale partial messages without further packets', () => {
+      jest.useFakeTimers();
+      try {
+        const adapter = new MemoryAdapter();
+        const transport = new StegTransport(adapter, {
+          coverMedia: [Buffer.alloc(256), Buffer.alloc(256)],
+          fragmentation: { enabled: true, reassemblyTimeoutMs: 1000 }
+        });
+        const stale = jest.fn();
+        transport.on('stale', stale);
+
+        transport.send(message);
+        adapter.receive(adapter.getSentData()[0]);
+
+        jest.advanceTimersByTime(1000);
+        expect(stale).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1000);
+        expect(stale).toHaveBeenCalledTimes(1);
+        expect(transport.getMetrics().transport.staleMessages).toBe(1);
+
+        transport.close();
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should only run the prune timer while fragmentation is enabled', () => {
+      jest.useFakeTimers();
+      try {
+        const transport = new StegTransport(new MemoryAdapter(), { coverMedia: [Buffer.alloc(256)] });
+        expect(jest.getTimerCount()).toBe(0);
+
+        transport.updateConfig({ fragmentation: { enabled: true } });
+        expect(jest.getTimerCount()).toBe(1);
+
+        transport.updateConfig({ fragmentation: { enabled: false } });
+        expect(jest.getTimerCount()).toBe(0);
+
+        transport.close();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should apply a new reassembly timeout', () => {
+      jest.useFakeTimers();
+      try {
+        const adapter = new MemoryAdapter();
+        const transport = new StegTransport(adapter, {
+          coverMedia: [Buffer.alloc(256), Buffer.alloc(256)],
+          fragmentation: { enabled: true, reassemblyTimeoutMs: 60000 }
+        });
+        const stale = jest.fn();
+        transport.on('stale', stale);
+
+        transport.updateConfig({ fragmentation: { enabled: true, reassemblyTimeoutMs: 1000 } });
+        expect(jest.getTimerCount()).toBe(1);
+
+        transport.send(message);
+        adapter.receive(adapter.getSentData()[0]);
+
+        jest.advanceTimersByTime(2000);
+        expect(stale).toHaveBeenCalledTimes(1);
+
+        transport.close();
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should pass the whole payload through when a later fragment fails', (done) => {
+      const adapter = new MemoryAdapter();
+      const transport = new StegTransport(adapter, {
+        coverMedia: [Buffer.alloc(256), Buffer.alloc(256)],
+        fragmentation: { enabled: true }
+      });
+      transport.on('error', () => {});
+
+      // Fail every fragment after the first
+      const lsb = new LSBAlgorithm();
+      let calls = 0;
+      transport.setAlgorithm({
+        name: 'lsb',
+        encode: (data, cover) => {
+          if (++calls > 1) throw new Error('cover rejected');
+          return lsb.encode(data, cover);
+        },
+        decode: (data) => lsb.decode(data),
+        calculateCapacity: (cover) => lsb.calculateCapacity(cover)
+      });
+
+      transport.send(message, (err) => {
+        expect(err).toBeUndefined();
+        expect(calls).toBe(2);
+        expect(adapter.getSentData()).toEqual([message]);
+        transport.close();
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { ReedSolomonCodec, createReedSolomonCodec } from '../src/utils/reed-solomon';
+import { StegEngine } from '../src/core/steg-engine';
+import { REPEATED_HEADER_SIZE } from '../src/utils/container';
+
+describe('ReedSolomonCodec', () => {
+  const data = Buffer.alloc(600);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (i * 151 + 7) & 0xFF;
+  }
+
+  function corrupt(buffer: Buffer, positions: number[]): Buffer {
+    const copy = Buffer.from(buffer);
+    for (const p of positions) {
+      copy[p] ^= 0xA5;
+    }
+    return copy;
+  }
+
+  describe('encoding', () => {
+    it('should append parity per block', () => {
+      const rs = new ReedSolomonCodec(16);
+      const encoded = rs.encode(data);
+
+      // 600 bytes = 239 + 239 + 122 data bytes, 16 parity each
+      expect(encoded.length).toBe(600 + 3 * 16);
+      expect(rs.encodedLength(600)).toBe(encoded.length);
+      expect(encoded.subarray(0, 239)).toEqual(data.subarray(0, 239));
+    });
+
+    it('should compute the data capacity of a buffer size', () => {
+      const rs = createReedSolomonCodec(16);
+
+      for (const capacity of [0, 16, 17, 255, 300, 1000]) {
+        const n = rs.dataCapacity(capacity);
+        expect(rs.encodedLength(n)).toBeLessThanOrEqual(capacity);
+        expect(rs.encodedLength(n + 1)).toBeGreaterThan(capacity);
+      }
+    });
+
+    it('should validate parity symbols', () => {
+      expect(() => new ReedSolomonCodec(0)).toThrow('Invalid paritySymbols');
+      expect(() => new ReedSolomonCodec(255)).toThrow('Invalid paritySymbols');
+      expect(() => new ReedSolomonCodec(2.5)).toThrow('Invalid paritySymbols');
+    });
+  });
+
+  describe('decoding', () => {
+    const rs = new ReedSolomonCodec(16);
+    const encoded = rs.encode(data);
+
+    it('should pass clean data through', () => {
+      expect(rs.decode(encoded)).toEqual({ data, corrected: 0 });
+    });
+
+    it('should correct up to half the parity symbols per block', () => {
+      const damaged = corrupt(encoded, [0, 10, 20, 30, 40, 50, 60, 70, 300, 620]);
+      const result = rs.decode(damaged);
+
+      expect(result).not.toBeNull();
+      expect(result!.data).toEqual(data);
+      expect(result!.corrected).toBe(10);
+    });
+
+    it('should correct errors in parity bytes and shortened blocks', () => {
+      const damaged = corrupt(encoded, [240, 254, encoded.length - 1, encoded.length - 130]);
+      const result = rs.decode(damaged);
+
+      expect(result!.data).toEqual(data);
+      expect(result!.corrected).toBe(4);
+    });
+
+    it('should report unrecoverable blocks', () => {
+      const damaged = corrupt(encoded, Array.from({ length: 12 }, (_, i) => i * 3));
+      expect(rs.decode(damaged)).toBeNull();
+    });
+
+    it('should reject truncated input', () => {
+      expect(rs.decode(encoded.subarray(0, 255 + 8))).toBeNull();
+    });
+  });
+
+  describe('StegEngine FEC', () => {
+    const message = Buffer.from('payload crossing a lossy channel');
+
+    // With FEC the LSB length header is written three times (96 cover
+    // bytes), followed by the repeated container header
+    const LENGTH_HEADER_BYTES = 96;
+
+    // Flip the LSB of cover bytes that carry FEC-protected bits
+    function flipPayloadBits(stegData: Buffer, byteIndexes: number[]): Buffer {
+      const copy = Buffer.from(stegData);
+      for (const i of byteIndexes) {
+        copy[LENGTH_HEADER_BYTES + (REPEATED_HEADER_SIZE + i) * 8] ^= 1;
+      }
+      return copy;
+    }
+
+    it('should correct flipped bits and report the count', () => {
+      const engine = new StegEngine({ coverMedia: [Buffer.alloc(2048)], fec: { paritySymbols: 8 } });
+
+      const encoded = engine.encode(message);
+      expect(encoded.success).toBe(true);
+
+      const result = engine.decode(flipPayloadBits(encoded.data, [1, 5, 9]));
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(message);
+      expect(result.fecCorrected).toBe(3);
+    });
+
+    it('should survive flipped length and container header bits', () => {
+      const config = { fec: { paritySymbols: 8 } };
+      const engine = new StegEngine({ coverMedia: [Buffer.alloc(2048)], ...config });
+      const encoded = engine.encode(message);
+
+      const damaged = Buffer.from(encoded.data);
+      // Top bit of the first copy of the LSB length header
+      damaged[31] ^= 1;
+      // A bit of the body length in the first container header copy
+      damaged[LENGTH_HEADER_BYTES + 9 * 8] ^= 1;
+
+      const result = new StegEngine(config).decode(damaged);
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(message);
+      expect(new StegEngine(config).probe(damaged).likely).toBe(true);
+    });
+
+    it('should keep explicit headerCopies', () => {
+      const config = { fec: { paritySymbols: 8 }, algorithmOptions: { headerCopies: 1 } };
+      const engine = new StegEngine({ coverMedia: [Buffer.alloc(2048)], ...config });
+      engine.on('error', () => {});
+      const encoded = engine.encode(message);
+
+      expect(new StegEngine(config).decode(encoded.data).data).toEqual(message);
+
+      const damaged = Buffer.from(encoded.data);
+      damaged[31] ^= 1;
+      expect(new StegEngine(config).on('error', () => {}).decode(damaged).success).toBe(false);
+    });
+
+    it('should decode senders with and without FEC alike', () => {
+      const plain = new StegEngine({ coverMedia: [Buffer.alloc(2048)] });
+      const protectedSender = new StegEngine({ coverMedia: [Buffer.alloc(2048)], fec: { paritySymbols: 8 } });
+
+      const receiver = new StegEngine({ fec: { paritySymbols: 8 } });
+      expect(receiver.decode(plain.encode(message).data).data).toEqual(message);
+
+      receiver.updateConfig({ fec: {} });
+      expect(receiver.decode(protectedSender.encode(message).data).data).toEqual(message);
+    });
+
+    it('should report unrecoverable payloads distinctly', () => {
+      const engine = new StegEngine({ coverMedia: [Buffer.alloc(2048)], fec: { paritySymbols: 4 } });
+      engine.on('error', () => {});
+
+      const encoded = engine.encode(message);
+      const result = engine.decode(flipPayloadBits(encoded.data, [0, 2, 4, 6, 8]));
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('fec_unrecoverable');
+    });
+
+    it('should leave room for parity when checking capacity', () => {
+      const engine = new StegEngine({ fec: { paritySymbols: 16 } });
+      engine.on('error', () => {});
+      engine.addCoverMedia(Buffer.alloc(1024)); // 116 bytes of capacity
+      const room = 116 - REPEATED_HEADER_SIZE - 16;
+
+      expect(engine.encode(Buffer.alloc(room)).success).toBe(true);
+      expect(engine.encode(Buffer.alloc(room + 1)).success).toBe(false);
+    });
+
+    it('should combine with encryption and compression', () => {
+      const engine = new StegEngine({
+        coverMedia: [Buffer.alloc(4096)],
+        fec: { paritySymbols: 16 },
+        encryption: { passphrase: 'hunter2' },
+        compression: 'auto'
+      });
+
+      const encoded = engine.encode(message);
+      const result = engine.decode(flipPayloadBits(encoded.data, [0, 3, 17]));
+
+      expect(result.data).toEqual(message);
+      expect(result.fecCorrected).toBe(3);
+    });
+  });
+});
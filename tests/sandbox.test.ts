@@ -0,0 +1,215 @@
+import {
+  SandboxedAlgorithm,
+  createSandboxedAlgorithm
+} from '../src/algorithms/sandbox';
+import { StegEngine } from '../src/core/steg-engine';
+
+/**
+ * Minimal LSB algorithm as a code string
+ */
+const LSB_CODE = `
+exports.encode = function (data, cover) {
+  var out = Uint8Array.from(cover);
+  var bits = [];
+  for (var i = 0; i < 32; i++) bits.push((data.length >>> i) & 1);
+  for (var j = 0; j < data.length * 8; j++) bits.push((data[j >> 3] >> (j & 7)) & 1);
+  if (bits.length > out.length) throw new Error('cover too small');
+  for (var k = 0; k < bits.length; k++) out[k] = (out[k] & 0xFE) | bits[k];
+  return out;
+};
+exports.decode = function (steg) {
+  var len = 0;
+  for (var i = 0; i < 32; i++) len |= (steg[i] & 1) << i;
+  var out = new Uint8Array(len);
+  for (var j = 0; j < len * 8; j++) out[j >> 3] |= (steg[32 + j] & 1) << (j & 7);
+  return out;
+};
+exports.calculateCapacity = function (cover) {
+  return Math.max(0, Math.floor((cover.length - 32) / 8));
+};
+`;
+
+describe('SandboxedAlgorithm', () => {
+  const created: SandboxedAlgorithm[] = [];
+
+  function load(code: string, options = {}): SandboxedAlgorithm {
+    const algo = createSandboxedAlgorithm(code, options);
+    created.push(algo);
+    return algo;
+  }
+
+  afterAll(() => {
+    created.forEach((a) => a.dispose());
+  });
+
+  describe('loading and round trip', () => {
+    it('should run exported encode/decode', () => {
+      const algo = load(LSB_CODE);
+      const cover = Buffer.alloc(512, 0xAA);
+
+      const encoded = algo.encode(Buffer.from('sandboxed'), cover);
+
+      expect(Buffer.isBuffer(encoded)).toBe(true);
+      expect(algo.decode(encoded).toString()).toBe('sandboxed');
+      expect(algo.calculateCapacity(cover)).toBe(60);
+    });
+
+    it('should accept module.exports assignment', () => {
+      const code = `module.exports = {
+        encode: function (d, c) { var o = Uint8Array.from(c); o.set(d, 1); o[0] = d.length; return o; },
+        decode: function (s) { return s.slice(1, 1 + s[0]); }
+      };`;
+
+      expect(load(code).name).toBe('custom');
+    });
+
+    it('should reject code without required exports', () => {
+      expect(() => createSandboxedAlgorithm('exports.encode = function () {};'))
+        .toThrow(/must export encode/);
+    });
+
+    it('should reject code that fails the round-trip probe', () => {
+      const broken = `
+        exports.encode = function (d, c) { return c; };
+        exports.decode = function (s) { return new Uint8Array(0); };
+      `;
+
+      expect(() => createSandboxedAlgorithm(broken)).toThrow(/Probe failed/);
+    });
+
+    it('should surface syntax and runtime errors', () => {
+      expect(() => createSandboxedAlgorithm('exports.encode = ;')).toThrow(/Sandbox error/);
+
+      const throwing = LSB_CODE + 'exports.decode = function () { throw new Error("boom"); };';
+      expect(() => createSandboxedAlgorithm(throwing)).toThrow(/boom/);
+    });
+
+    it('should forward the seed to setSeed', () => {
+      const keyed = LSB_CODE + `
+        var key = 0;
+        exports.setSeed = function (s) { key = s.length; };
+        var enc = exports.encode, dec = exports.decode;
+        exports.encode = function (d, c) { return enc(d.map(function (b) { return b ^ key; }), c); };
+        exports.decode = function (s) { return dec(s).map(function (b) { return b ^ key; }); };
+      `;
+      const a = load(keyed, { seed: 'abc' });
+      const b = load(keyed, { seed: 'abcd' });
+      const encoded = a.encode(Buffer.from('seeded'), Buffer.alloc(256));
+
+      expect(a.decode(encoded).toString()).toBe('seeded');
+      expect(b.decode(encoded).toString()).not.toBe('seeded');
+    });
+  });
+
+  describe('isolation and limits', () => {
+    it('should not expose require, process or Buffer', () => {
+      const probe = LSB_CODE + `
+        if (typeof require !== 'undefined' || typeof process !== 'undefined' ||
+            typeof Buffer !== 'undefined' || typeof setTimeout !== 'undefined') {
+          throw new Error('escaped');
+        }
+      `;
+
+      expect(() => load(probe)).not.toThrow();
+    });
+
+    it('should block constructor-based escapes', () => {
+      const escape = LSB_CODE + `
+        exports.decode = function (s) {
+          return this.constructor.constructor('return process')();
+        };
+      `;
+
+      expect(() => createSandboxedAlgorithm(escape)).toThrow(/Code generation|Probe failed|Sandbox error/);
+    });
+
+    it('should keep host objects out of reach when intrinsics are replaced', () => {
+      const hostile = LSB_CODE + `
+        var leaked = 0;
+        function tryEscape(x) {
+          try {
+            var p = x.constructor.constructor('return process')();
+            if (p && typeof p.binding === 'function') leaked = 1;
+          } catch (e) {}
+        }
+        var RealU8 = Uint8Array, realSet = RealU8.prototype.set, realFrom = RealU8.from;
+        RealU8.prototype.set = function (src, offset) {
+          tryEscape(src);
+          return realSet.call(this, src, offset);
+        };
+        function FakeU8(n) { tryEscape(n); return new RealU8(n); }
+        FakeU8.from = function (x) { tryEscape(x); return realFrom.call(RealU8, x); };
+        FakeU8.prototype = RealU8.prototype;
+        Uint8Array = FakeU8;
+        exports.calculateCapacity = function (cover) { tryEscape(cover); return leaked; };
+      `;
+      const algo = new SandboxedAlgorithm(hostile);
+      created.push(algo);
+
+      const encoded = algo.encode(Buffer.from('contained'), Buffer.alloc(256));
+
+      expect(algo.decode(encoded).toString()).toBe('contained');
+      expect(algo.calculateCapacity(Buffer.alloc(256))).toBe(0);
+    });
+
+    it('should enforce the CPU time limit', () => {
+      const spinning = 'while (true) {}';
+
+      expect(() => createSandboxedAlgorithm(spinning, { timeoutMs: 100 })).toThrow(/timed out/);
+    });
+
+    it('should enforce the memory limit', () => {
+      const hungry = LSB_CODE + `
+        exports.decode = function () {
+          var keep = [];
+          while (true) keep.push(new Array(100000).fill(keep.length));
+        };
+      `;
+
+      expect(() => createSandboxedAlgorithm(hungry, { memoryLimitMb: 16, timeoutMs: 1000 }))
+        .toThrow(/limit|Sandbox error/);
+    });
+
+    it('should refuse calls after dispose', () => {
+      const algo = createSandboxedAlgorithm(LSB_CODE);
+      algo.dispose();
+
+      expect(algo.isDisposed()).toBe(true);
+      expect(() => algo.decode(Buffer.alloc(64))).toThrow(/disposed/);
+    });
+  });
+
+  describe('StegEngine integration', () => {
+    it('should load algorithmCode for custom algorithms', () => {
+      const engine = new StegEngine({
+        algorithm: 'custom',
+        algorithmCode: LSB_CODE,
+        coverMedia: [Buffer.alloc(512, 0x11)]
+      });
+      created.push(engine.getAlgorithm() as SandboxedAlgorithm);
+
+      const encoded = engine.encode(Buffer.from('from config'));
+
+      expect(encoded.success).toBe(true);
+      expect(engine.decode(encoded.data).data.toString()).toBe('from config');
+    });
+
+    it('should only dispose sandboxes the engine created', () => {
+      const engine = new StegEngine({ algorithm: 'custom', algorithmCode: LSB_CODE });
+      const built = engine.getAlgorithm() as SandboxedAlgorithm;
+      const supplied = load(LSB_CODE);
+
+      engine.setAlgorithm(supplied);
+      expect(built.isDisposed()).toBe(true);
+
+      engine.updateConfig({ algorithm: 'matrix' });
+      expect(supplied.isDisposed()).toBe(false);
+      expect(engine.getAlgorithm()?.name).toBe('matrix');
+    });
+
+    it('should reject invalid algorithmCode at construction', () => {
+      expect(() => new StegEngine({ algorithm: 'custom', algorithmCode: 'exports.x = 1;' }))
+        .toThrow(/must export/);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  SpreadSpectrumAlgorithm,
+  createSpreadSpectrumAlgorithm
+} from '../src/algorithms/spread';
+import { CoverGenerator } from '../src/utils/cover-generator';
+import { createSeededRandom } from '../src/utils/prng';
+
+/**
+ * Simulate lossy re-quantisation of 16-bit samples
+ */
+function requantize(data: Buffer, step: number): Buffer {
+  const out = Buffer.from(data);
+  for (let i = 0; i + 1 < out.length; i += 2) {
+    const q = Math.round(out.readInt16LE(i) / step) * step;
+    out.writeInt16LE(Math.max(-32768, Math.min(32767, q)), i);
+  }
+  return out;
+}
+
+describe('SpreadSpectrumAlgorithm', () => {
+  let spread: SpreadSpectrumAlgorithm;
+  let generator: CoverGenerator;
+
+  beforeEach(() => {
+    spread = new SpreadSpectrumAlgorithm({ seed: 'pn-key' });
+    generator = new CoverGenerator({ maxSize: 1 << 20 });
+  });
+
+  describe('encode/decode roundtrip', () => {
+    it('should round-trip on audio-like covers', () => {
+      const cover = generator.generateAudioLike(20000).data;
+
+      const encoded = spread.encode(Buffer.from('ssss'), cover);
+
+      expect(spread.decode(encoded).toString()).toBe('ssss');
+    });
+
+    it('should round-trip with uint8 samples', () => {
+      const uint8 = new SpreadSpectrumAlgorithm({
+        config: { sampleFormat: 'uint8', chipRate: 32 }
+      });
+      const cover = generator.generateNoise(4096).data;
+
+      const encoded = uint8.encode(Buffer.from('bytes'), cover);
+
+      expect(uint8.decode(encoded).toString()).toBe('bytes');
+    });
+
+    it('should keep sample distortion moderate', () => {
+      const cover = generator.generateAudioLike(20000).data;
+      const encoded = spread.encode(Buffer.from('ssss'), cover);
+
+      let sumSq = 0;
+      for (let i = 0; i < cover.length; i += 2) {
+        const d = encoded.readInt16LE(i) - cover.readInt16LE(i);
+        sumSq += d * d;
+      }
+
+      // RMS change well under 10% of full scale
+      expect(Math.sqrt(sumSq / (cover.length / 2))).toBeLessThan(3276);
+    });
+  });
+
+  describe('robustness', () => {
+    it('should survive lossy re-quantisation', () => {
+      const cover = generator.generateAudioLike(20000).data;
+      const encoded = spread.encode(Buffer.from('ssss'), cover);
+
+      const degraded = requantize(encoded, 64);
+
+      expect(degraded).not.toEqual(encoded);
+      expect(spread.decode(degraded).toString()).toBe('ssss');
+    });
+
+    it('should survive additive noise', () => {
+      const cover = generator.generateAudioLike(20000).data;
+      const encoded = spread.encode(Buffer.from('ssss'), cover);
+
+      const random = createSeededRandom('spread-noise');
+      const noisy = Buffer.from(encoded);
+      for (let i = 0; i < noisy.length; i += 2) {
+        const v = noisy.readInt16LE(i) + Math.round((random() - 0.5) * 400);
+        noisy.writeInt16LE(Math.max(-32768, Math.min(32767, v)), i);
+      }
+
+      expect(spread.decode(noisy).toString()).toBe('ssss');
+    });
+
+    it('should fail with the wrong seed', () => {
+      const cover = generator.generateAudioLike(20000).data;
+      const encoded = spread.encode(Buffer.from('ssss'), cover);
+
+      const wrong = new SpreadSpectrumAlgorithm({ seed: 'other-key' });
+
+      expect(() => wrong.decode(encoded)).toThrow(/Invalid data length/);
+    });
+  });
+
+  describe('calculateCapacity', () => {
+    it('should trade capacity for chip rate', () => {
+      const cover = Buffer.alloc(65536); // 32768 int16 samples
+
+      const fast = new SpreadSpectrumAlgorithm({ config: { chipRate: 64 } });
+      const robust = new SpreadSpectrumAlgorithm({ config: { chipRate: 512 } });
+
+      // 32768 / 64 = 512 bits - 32 header = 60 bytes
+      expect(fast.calculateCapacity(cover)).toBe(60);
+      // 32768 / 512 = 64 bits - 32 header = 4 bytes
+      expect(robust.calculateCapacity(cover)).toBe(4);
+    });
+
+    it('should reserve windows for every header copy', () => {
+      const repeated = new SpreadSpectrumAlgorithm({ seed: 'pn-key', config: { chipRate: 64, headerCopies: 3 } });
+      const cover = generator.generateAudioLike(32768).data;
+
+      // 32768 / 64 = 512 bits - 96 header = 52 bytes
+      expect(repeated.calculateCapacity(cover)).toBe(52);
+      expect(repeated.decode(repeated.encode(Buffer.from('voted'), cover)).toString()).toBe('voted');
+    });
+
+    it('should throw when payload exceeds capacity', () => {
+      expect(() => spread.encode(Buffer.alloc(100), Buffer.alloc(1024))).toThrow(/too small/);
+      expect(spread.validateCover(Buffer.alloc(1024))).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid configuration', () => {
+      expect(() => new SpreadSpectrumAlgorithm({ config: { chipRate: 0 } })).toThrow(/chipRate/);
+      expect(() => new SpreadSpectrumAlgorithm({ config: { strength: -1 } })).toThrow(/strength/);
+      expect(() => new SpreadSpectrumAlgorithm({ config: { sampleFormat: 'f32' } })).toThrow(/sampleFormat/);
+      expect(() => new SpreadSpectrumAlgorithm({ config: { headerCopies: 2 } })).toThrow(/headerCopies/);
+    });
+
+    it('should create via factory', () => {
+      expect(createSpreadSpectrumAlgorithm().name).toBe('spread');
+    });
+  });
+});
@@ -42,8 +42,24 @@ describe('StegEngine', () => {
       expect(engine.getAlgorithm()).toBe(algo);
     });
 
+    it('should pass configured seed to algorithm unchanged', () => {
+      const keyedEngine = new StegEngine({ seed: 'engine-key' });
+      const algo = new LSBAlgorithm();
+      keyedEngine.setAlgorithm(algo);
+
+      expect(algo.getSeed()).toBe('engine-key');
+    });
+
+    it('should leave algorithm unkeyed without a seed', () => {
+      const algo = new LSBAlgorithm();
+      new StegEngine({}).setAlgorithm(algo);
+
+      expect(algo.getSeed()).toBeNull();
+    });
+
     it('should fail encode without algorithm', () => {
-      const freshEngine = new StegEngine({});
+      const freshEngine = new StegEngine({ algorithm: 'custom' });
+      freshEngine.on('error', () => {});
       freshEngine.addCoverMedia(Buffer.alloc(256));
 
       const result = freshEngine.encode(Buffer.from('test'));
@@ -52,6 +68,73 @@ describe('StegEngine', () => {
     });
   });
 
+  describe('algorithm selection from config', () => {
+    it('should build the default algorithm without setAlgorithm', () => {
+      const e = new StegEngine({ coverMedia: [Buffer.alloc(512, 0xFF)] });
+
+      expect(e.getAlgorithm()).toBeInstanceOf(LSBAlgorithm);
+
+      const encoded = e.encode(Buffer.from('by name'));
+      expect(e.decode(encoded.data).data.toString()).toBe('by name');
+    });
+
+    it('should select a registered algorithm by name', () => {
+      const e = new StegEngine({ algorithm: 'lsb-matching' });
+      expect(e.getAlgorithm()?.name).toBe('lsb-matching');
+    });
+
+    it('should pass algorithm options and seed to the factory', () => {
+      const e = new StegEngine({
+        algorithm: 'lsb',
+        algorithmOptions: { bitsPerByte: 2 },
+        seed: 'factory-key'
+      });
+      const algo = e.getAlgorithm() as LSBAlgorithm;
+
+      expect(algo.getBitPlanes()).toEqual([0, 1]);
+      expect(algo.getSeed()).toBe('factory-key');
+    });
+
+    it('should size covers with the configured algorithm', () => {
+      const e = new StegEngine({
+        algorithmOptions: { bitsPerByte: 4 },
+        coverMedia: [Buffer.alloc(100)]
+      });
+
+      expect(e.getPoolStats().totalCapacity).toBe(46);
+    });
+
+    it('should re-measure pooled covers when the algorithm changes', () => {
+      const e = new StegEngine({
+        coverMedia: [Buffer.alloc(100), { data: Buffer.alloc(100), id: 'sized', capacity: 7 }]
+      });
+      expect(e.getPoolStats().totalCapacity).toBe(8 + 7);
+
+      e.updateConfig({ algorithmOptions: { bitsPerByte: 4 } });
+      expect(e.getPoolStats().totalCapacity).toBe(46 + 7);
+
+      e.setAlgorithm(new LSBAlgorithm());
+      expect(e.listCoverMedia().map((c) => c.capacity)).toEqual([8, 7]);
+    });
+
+    it('should rebuild the algorithm on updateConfig', () => {
+      engine.updateConfig({ algorithm: 'matrix' });
+      expect(engine.getAlgorithm()?.name).toBe('matrix');
+
+      engine.updateConfig({ algorithm: 'custom' });
+      expect(engine.getAlgorithm()).toBeNull();
+    });
+
+    it('should reject unregistered algorithm names', () => {
+      expect(() => new StegEngine({ algorithm: 'nope' }))
+        .toThrow(/Invalid algorithm: nope \(expected one of lsb, lsb-matching, .*custom, llm-generated\)/);
+
+      expect(() => engine.updateConfig({ algorithm: 'nope' })).toThrow('Invalid algorithm: nope');
+      expect(engine.getConfig().algorithm).toBe('lsb');
+      expect(engine.getAlgorithm()).toBe(lsb);
+    });
+  });
+
   describe('cover media management', () => {
     it('should add buffer as cover media', () => {
       engine.addCoverMedia(Buffer.alloc(256, 0xFF));
@@ -138,6 +221,69 @@ describe('StegEngine', () => {
     });
   });
 
+  describe('encoding ratio', () => {
+    it('should cap capacity by encodingRatio', () => {
+      const e = new StegEngine({ encodingRatio: 50 });
+      e.addCoverMedia(Buffer.alloc(512));
+
+      const stats = e.getPoolStats();
+      expect(stats.totalCapacity).toBe(60);
+      expect(stats.effectiveCapacity).toBe(30);
+      expect(stats.encodingRatio).toBe(50);
+      expect(e.getEffectiveCapacity(Buffer.alloc(512))).toBe(30);
+    });
+
+    it('should reject payloads above the effective capacity', () => {
+      const e = new StegEngine({ encodingRatio: 50 });
+      e.on('error', () => {});
+      e.addCoverMedia(Buffer.alloc(512));
+
+      // 30 bytes effective, less the 14-byte container header
+      expect(e.encode(Buffer.alloc(16, 1)).success).toBe(true);
+
+      const result = e.encode(Buffer.alloc(17, 1));
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('16 capacity');
+    });
+
+    it('should split payloads across covers', () => {
+      const e = new StegEngine({ encodingRatio: 50 });
+      e.updateConfig({ coverMedia: [Buffer.alloc(512), Buffer.alloc(512), Buffer.alloc(512)] });
+
+      const message = Buffer.from('a payload spread over more than one cover medium');
+      const results = e.encodeSplit(message);
+
+      expect(results).toHaveLength(3);
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(results.map((r) => r.payloadSize)).toEqual([16, 16, message.length - 32]);
+
+      const decoded = Buffer.concat(results.map((r) => e.decode(r.data).data));
+      expect(decoded).toEqual(message);
+    });
+
+    it('should use a single cover when the payload fits', () => {
+      engine.addCoverMedia(Buffer.alloc(512));
+      const results = engine.encodeSplit(Buffer.from('short'));
+
+      expect(results).toHaveLength(1);
+      expect(results[0].success).toBe(true);
+    });
+
+    it('should fail when no cover has usable capacity', () => {
+      const e = new StegEngine({ encodingRatio: 0 });
+      e.on('error', () => {});
+      e.addCoverMedia(Buffer.alloc(512));
+
+      const results = e.encodeSplit(Buffer.from('test'));
+      expect(results[results.length - 1].success).toBe(false);
+    });
+
+    it('should validate encodingRatio', () => {
+      expect(() => new StegEngine({ encodingRatio: 120 })).toThrow('Invalid encodingRatio');
+      expect(() => engine.updateConfig({ encodingRatio: -1 })).toThrow('Invalid encodingRatio');
+    });
+  });
+
   describe('error handling', () => {
     it('should handle missing cover media', () => {
       const result = engine.encode(Buffer.from('test'));
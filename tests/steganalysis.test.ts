@@ -0,0 +1,176 @@
+import {
+  chiSquareAttack,
+  rsAnalysis,
+  samplePairAnalysis,
+  analyze
+} from '../src/analysis';
+import { chiSquareCdf } from '../src/analysis/statistics';
+import { StegEngine } from '../src/core/steg-engine';
+import { CoverGenerator } from '../src/utils/cover-generator';
+import { createSeededRandom } from '../src/utils/prng';
+
+describe('Steganalysis', () => {
+  const random = createSeededRandom('steganalysis');
+
+  // Smooth, correlated 8-bit signal standing in for a natural image row
+  function naturalCover(length: number): Buffer {
+    const cover = Buffer.alloc(length);
+    let level = 128;
+    for (let i = 0; i < length; i++) {
+      level = Math.max(10, Math.min(245, level + Math.round((random() - 0.5) * 6)));
+      cover[i] = Math.round(level + 40 * Math.sin(i / 50)) & 0xFF;
+    }
+    return cover;
+  }
+
+  // Replace the LSB of a random `rate` fraction of samples with message bits
+  function embed(cover: Buffer, rate: number): Buffer {
+    const out = Buffer.from(cover);
+    for (let i = 0; i < out.length; i++) {
+      if (random() < rate) {
+        out[i] = (out[i] & 0xFE) | (random() < 0.5 ? 1 : 0);
+      }
+    }
+    return out;
+  }
+
+  const cover = naturalCover(20000);
+
+  it('should compute chi-square probabilities', () => {
+    expect(chiSquareCdf(3.841, 1)).toBeCloseTo(0.95, 3);
+    expect(chiSquareCdf(18.307, 10)).toBeCloseTo(0.95, 3);
+    expect(chiSquareCdf(0, 5)).toBe(0);
+  });
+
+  describe.each([
+    ['rs', rsAnalysis],
+    ['sample-pair', samplePairAnalysis]
+  ] as const)('%s', (method, detector) => {
+    it('should estimate low rates on clean covers', () => {
+      const result = detector(cover);
+
+      expect(result.method).toBe(method);
+      expect(result.embeddingRate).toBeLessThan(0.1);
+      expect(result.confidence).toBeGreaterThan(0.9);
+    });
+
+    it.each([0.25, 0.5, 0.75])('should estimate an embedding rate of %s', (rate) => {
+      expect(detector(embed(cover, rate)).embeddingRate).toBeCloseTo(rate, 1);
+    });
+
+    it('should lose confidence on uncorrelated data', () => {
+      const noise = new CoverGenerator().generateNoise(20000).data;
+      expect(detector(noise).confidence).toBeLessThan(0.5);
+    });
+  });
+
+  describe('chi-square attack', () => {
+    // Even-heavy histogram, so value pairs are far from equal
+    const combed = Buffer.alloc(8000);
+    for (let i = 0; i < combed.length; i++) {
+      combed[i] = (100 + Math.floor(random() * 40)) & (random() < 0.8 ? 0xFE : 0xFF);
+    }
+
+    it('should pass clean covers', () => {
+      const result = chiSquareAttack(combed);
+
+      expect(result.embeddingRate).toBe(0);
+      expect(result.details.pValue).toBeLessThan(0.01);
+    });
+
+    it('should measure the length of sequential embedding', () => {
+      const stego = Buffer.from(combed);
+      for (let i = 0; i < stego.length / 2; i++) {
+        stego[i] = (stego[i] & 0xFE) | (random() < 0.5 ? 1 : 0);
+      }
+
+      expect(chiSquareAttack(stego).embeddingRate).toBeCloseTo(0.5, 1);
+      expect(chiSquareAttack(embed(combed, 1)).details.pValue).toBeGreaterThan(0.1);
+    });
+
+    it('should lose confidence on histograms that are pair-balanced when clean', () => {
+      const generator = new CoverGenerator();
+      const walk = Buffer.alloc(20000);
+      let level = 128;
+      for (let i = 0; i < walk.length; i++) {
+        level = Math.max(10, Math.min(245, level + Math.round((random() - 0.5) * 6)));
+        walk[i] = level;
+      }
+
+      for (const clean of [generator.generateAudioLike(5000).data, generator.generateNoise(10000).data, walk]) {
+        expect(chiSquareAttack(clean).confidence).toBeLessThan(0.1);
+      }
+      expect(chiSquareAttack(combed).confidence).toBeGreaterThan(0.5);
+    });
+
+    it('should report nothing without enough distinct values', () => {
+      const result = chiSquareAttack(Buffer.alloc(1000, 0x5A));
+
+      expect(result.embeddingRate).toBe(0);
+      expect(result.confidence).toBe(0);
+    });
+
+    it('should validate the window count', () => {
+      expect(() => chiSquareAttack(combed, { windows: 0 })).toThrow('Invalid windows');
+    });
+  });
+
+  describe('analyze', () => {
+    it('should tell clean covers from StegEngine output', () => {
+      const engine = new StegEngine({ coverMedia: [cover] });
+      const payload = Buffer.from(Array.from({ length: 2000 }, () => Math.floor(random() * 256)));
+
+      const encoded = engine.encode(payload);
+      expect(encoded.success).toBe(true);
+
+      const before = analyze(cover);
+      const after = analyze(encoded.data);
+
+      expect(before.rs.embeddingRate).toBeLessThan(0.1);
+      expect(after.rs.embeddingRate).toBeGreaterThan(0.5);
+      expect(after.samplePair.embeddingRate).toBeGreaterThan(0.5);
+      expect(after.embeddingRate).toBeGreaterThan(before.embeddingRate);
+      expect(after.detected).toBe(true);
+    });
+
+    it('should not detect clean covers from CoverGenerator', () => {
+      const generator = new CoverGenerator();
+      const covers = [
+        generator.generateGradient(8192).data,
+        generator.generateAudioLike(4096).data,
+        generator.generateNoise(8192).data,
+        generator.generateTextCover('lorem', 4096).data
+      ];
+
+      for (const clean of covers) {
+        const report = analyze(clean);
+
+        expect(report.detected).toBe(false);
+        expect(report.embeddingRate).toBeLessThan(0.05);
+      }
+    });
+
+    it('should detect sequential embedding in text covers', () => {
+      const text = new CoverGenerator().generateTextCover('lorem', 4096).data;
+      const engine = new StegEngine({ coverMedia: [text] });
+      const payload = Buffer.from(Array.from({ length: 480 }, () => Math.floor(random() * 256)));
+
+      const encoded = engine.encode(payload);
+      expect(encoded.success).toBe(true);
+
+      expect(analyze(text).detected).toBe(false);
+      expect(analyze(encoded.data).detected).toBe(true);
+    });
+
+    it('should handle empty input', () => {
+      const report = analyze(Buffer.alloc(0));
+
+      expect(report.embeddingRate).toBe(0);
+      expect(report.detected).toBe(false);
+    });
+
+    it('should validate the threshold', () => {
+      expect(() => analyze(cover, { threshold: 2 })).toThrow('Invalid threshold');
+    });
+  });
+});
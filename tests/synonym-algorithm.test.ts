@@ -0,0 +1,152 @@
+import { SynonymAlgorithm, createSynonymAlgorithm } from '../src/algorithms/synonym';
+import { DEFAULT_SYNONYM_SETS } from '../src/algorithms/synonym-dictionary';
+import { StegEngine } from '../src/core/steg-engine';
+
+const SYNONYMS = new Set(DEFAULT_SYNONYM_SETS.flat());
+
+/**
+ * Text with every word from the synonym table replaced by a placeholder
+ */
+function skeleton(text: string): string {
+  return text.replace(/[A-Za-z]+/g, (word) => (SYNONYMS.has(word.toLowerCase()) ? '#' : word));
+}
+
+describe('SynonymAlgorithm', () => {
+  const paragraph = 'We often begin a big task by choosing a simple method. It seems ' +
+    'difficult at first, but the results are usually clear: the main goal is almost ' +
+    'always to explain the notion behind each example. Children quickly understand ' +
+    'the concept when they examine pictures, and clever kids really enjoy a quick ' +
+    'trip through the topic. Maybe the whole job seems strange, yet it allows us to ' +
+    'gather errors and reduce them. Eventually everyone sees why it is important to ' +
+    'start carefully.';
+  const prose = Array(10).fill(paragraph).join('\n\n');
+  const cover = Buffer.from(prose);
+
+  let syn: SynonymAlgorithm;
+
+  beforeEach(() => {
+    syn = new SynonymAlgorithm();
+  });
+
+  describe('encode/decode roundtrip', () => {
+    it('should round-trip and change only words from the table', () => {
+      const encoded = syn.encode(Buffer.from('secret'), cover);
+
+      expect(syn.decode(encoded).toString()).toBe('secret');
+      expect(skeleton(encoded.toString())).toBe(skeleton(prose));
+      expect(encoded.toString()).not.toBe(prose);
+    });
+
+    it('should preserve case and punctuation', () => {
+      const big = createSynonymAlgorithm({ config: { synonyms: [['big', 'large']] } });
+      const text = Array(16).fill('Big, BIG and big!').join(' ');
+      const encoded = big.encode(Buffer.from([0xFF, 0xFF]), Buffer.from(text)).toString();
+
+      expect(encoded).toMatch(/^((Big|Large), (BIG|LARGE) and (big|large)! ?)+$/);
+      expect(encoded).toContain('Large, LARGE and large!');
+      expect(big.decode(Buffer.from(encoded))).toEqual(Buffer.from([0xFF, 0xFF]));
+    });
+
+    it('should carry two bits in four-word sets', () => {
+      expect(syn.countSubstitutable(Buffer.from('Usually, a big start.'))).toEqual({ words: 3, bits: 4 });
+
+      const encoded = syn.encode(Buffer.from([0x1B]), cover).toString();
+      expect(syn.decode(Buffer.from(encoded))).toEqual(Buffer.from([0x1B]));
+    });
+
+    it('should re-encode over text that already carries a payload', () => {
+      const first = syn.encode(Buffer.from('first payload'), cover);
+
+      expect(syn.decode(syn.encode(Buffer.from('two'), first)).toString()).toBe('two');
+    });
+
+    it('should peek at the leading payload bytes', () => {
+      const encoded = syn.encode(Buffer.from('header+body'), cover);
+
+      expect(syn.peek(encoded, 6).toString()).toBe('header');
+    });
+  });
+
+  describe('skipped words', () => {
+    it('should leave mixed case, compound words, links and code alone', () => {
+      const text = [
+        'A bIg big-ticket item, see https://example.com/big/start or `big start`.',
+        '',
+        '```',
+        'big start simple',
+        '```',
+        '',
+        prose
+      ].join('\n');
+      const fill = Buffer.alloc(syn.calculateCapacity(Buffer.from(text)), 0xFF);
+      const encoded = syn.encode(fill, Buffer.from(text)).toString();
+
+      expect(encoded.split('\n').slice(0, 5)).toEqual(text.split('\n').slice(0, 5));
+      expect(syn.countSubstitutable(Buffer.from(text))).toEqual(syn.countSubstitutable(cover));
+      expect(syn.decode(Buffer.from(encoded))).toEqual(fill);
+    });
+  });
+
+  describe('capacity', () => {
+    it('should be substitutable words times bits per set', () => {
+      const { words, bits } = syn.countSubstitutable(cover);
+
+      expect(words).toBe(42 * 10);
+      expect(bits).toBe(44 * 10);
+      expect(syn.calculateCapacity(cover)).toBe(Math.floor(bits / 8) - 4);
+    });
+
+    it('should reject payloads over capacity', () => {
+      expect(() => syn.encode(Buffer.from('too long'), Buffer.from(paragraph)))
+        .toThrow('Cover media too small');
+    });
+  });
+
+  describe('synonym table', () => {
+    it('should ship disjoint sets of 2, 4 or 8 lowercase words', () => {
+      const words = DEFAULT_SYNONYM_SETS.flat();
+
+      expect(new Set(words).size).toBe(words.length);
+      expect(DEFAULT_SYNONYM_SETS.every((set) => [2, 4, 8].includes(set.length))).toBe(true);
+      expect(words.every((word) => /^[a-z]+$/.test(word))).toBe(true);
+    });
+
+    it('should validate custom tables', () => {
+      expect(() => new SynonymAlgorithm({ config: { synonyms: [['big', 'large', 'huge']] } }))
+        .toThrow('Invalid synonym set 0');
+      expect(() => new SynonymAlgorithm({ config: { synonyms: [['Big', 'large']] } }))
+        .toThrow('Invalid synonym set 0');
+      expect(() => new SynonymAlgorithm({ config: { synonyms: [['big', 'large'], ['large', 'huge']] } }))
+        .toThrow('"large" already appears in another set');
+      expect(() => new SynonymAlgorithm({ config: { synonyms: 'big' } }))
+        .toThrow('Invalid synonyms');
+    });
+  });
+
+  describe('invalid input', () => {
+    it('should reject covers that are not valid UTF-8', () => {
+      const binary = Buffer.from([0x62, 0x69, 0x67, 0x20, 0xC3, 0x28]);
+
+      expect(syn.calculateCapacity(binary)).toBe(0);
+      expect(syn.validateCover(binary)).toBe(false);
+      expect(() => syn.encode(Buffer.from('x'), binary)).toThrow('not valid UTF-8');
+    });
+
+    it('should fail to decode text without enough words', () => {
+      expect(() => syn.decode(Buffer.from('a big start'))).toThrow('Data too small');
+    });
+  });
+
+  describe('with StegEngine', () => {
+    it('should hide payloads in text by name', () => {
+      const engine = new StegEngine({ algorithm: 'synonym', coverMedia: [cover] });
+
+      const result = engine.encode(Buffer.from('hidden'));
+
+      expect(result.success).toBe(true);
+      expect(skeleton(result.data.toString())).toBe(skeleton(prose));
+      expect(engine.decode(result.data).data.toString()).toBe('hidden');
+      expect(engine.probe(result.data).algorithm).toBe('synonym');
+    });
+  });
+});
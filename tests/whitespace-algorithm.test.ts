@@ -0,0 +1,170 @@
+import { WhitespaceAlgorithm, createWhitespaceAlgorithm } from '../src/algorithms/whitespace';
+import { StegEngine } from '../src/core/steg-engine';
+
+/**
+ * Text as a Markdown renderer shows it: inter-word spaces collapsed
+ * and trailing whitespace stripped
+ */
+function rendered(text: string): string {
+  return text.split('\n').map((line) => line.trimEnd().replace(/(\S) {2}(?=\S)/g, '$1 ')).join('\n');
+}
+
+describe('WhitespaceAlgorithm', () => {
+  const paragraph = [
+    'Large language models write text one token at a time, and each',
+    'reply is a natural cover for a few hidden bytes. Nobody reading it',
+    'in a chat window will notice anything about the spacing of words,',
+    'because renderers collapse runs of spaces and strip line ends.',
+    ''
+  ].join('\n');
+  const prose = Array(6).fill(paragraph).join('\n');
+  const cover = Buffer.from(prose);
+
+  let ws: WhitespaceAlgorithm;
+
+  beforeEach(() => {
+    ws = new WhitespaceAlgorithm();
+  });
+
+  describe('encode/decode roundtrip', () => {
+    it('should round-trip and render like the cover', () => {
+      const encoded = ws.encode(Buffer.from('secret'), cover);
+
+      expect(ws.decode(encoded).toString()).toBe('secret');
+      expect(rendered(encoded.toString())).toBe(prose);
+      expect(encoded.toString()).not.toBe(prose);
+    });
+
+    it('should change only inter-word gaps and line ends', () => {
+      const encoded = ws.encode(Buffer.from([0xFF, 0x00, 0xA5]), cover).toString();
+
+      expect(encoded.replace(/\s+/g, ' ')).toBe(prose.replace(/\s+/g, ' '));
+      expect(encoded).toMatch(/ {2}/);
+      expect(encoded).toMatch(/[ \t]*\t\n/);
+      expect(encoded).not.toMatch(/\S {3,}\S/);
+    });
+
+    it('should decode from the text alone, with any config', () => {
+      const dense = createWhitespaceAlgorithm({ config: { bitsPerLine: 32 } });
+      const gapsOnly = createWhitespaceAlgorithm({ config: { bitsPerLine: 0 } });
+
+      expect(ws.decode(dense.encode(Buffer.from('dense'), cover)).toString()).toBe('dense');
+      expect(ws.decode(gapsOnly.encode(Buffer.from('gaps'), cover)).toString()).toBe('gaps');
+      expect(gapsOnly.encode(Buffer.from('gaps'), cover).toString()).not.toMatch(/\t/);
+    });
+
+    it('should survive CRLF line endings', () => {
+      const crlf = Buffer.from(prose.replace(/\n/g, '\r\n'));
+      const encoded = ws.encode(Buffer.from('crlf'), crlf);
+
+      expect(ws.decode(encoded).toString()).toBe('crlf');
+      expect(encoded.toString()).toMatch(/\t\r\n/);
+    });
+
+    it('should survive a copy-paste that converts line endings', () => {
+      const encoded = ws.encode(Buffer.from('copy'), cover).toString();
+      const pasted = Buffer.from(encoded.replace(/\n/g, '\r\n'));
+
+      expect(ws.decode(pasted).toString()).toBe('copy');
+    });
+
+    it('should peek at the leading payload bytes', () => {
+      const encoded = ws.encode(Buffer.from('head+body'), cover);
+
+      expect(ws.peek(encoded, 4).toString()).toBe('head');
+    });
+  });
+
+  describe('Markdown', () => {
+    const markdown = [
+      '# Heading with words',
+      '',
+      '- list item one two',
+      '> quoted text here',
+      '',
+      '```ts',
+      'const a = 1;  // keep  me',
+      '```',
+      '',
+      '    indented code stays put',
+      '',
+      'Use `a  b c` inline and then more plain words after it.',
+      'Line with a hard break  ',
+      'last words of the paragraph here',
+      ''
+    ].join('\n');
+
+    it('should not embed in code, after block markers or in hard breaks', () => {
+      const slots = ws.countSlots(Buffer.from(markdown));
+      const fill = Buffer.alloc(ws.calculateCapacity(Buffer.from(markdown)), 0xFF);
+      const encoded = ws.encode(fill, Buffer.from(markdown)).toString().split('\n');
+
+      expect(slots.gaps).toBe(2 + 3 + 2 + 9 + 4 + 5);
+      expect(encoded[2].startsWith('- list')).toBe(true);
+      expect(encoded[3].startsWith('> quoted')).toBe(true);
+      expect(encoded.slice(5, 8)).toEqual(['```ts', 'const a = 1;  // keep  me', '```']);
+      expect(encoded[9]).toBe('    indented code stays put');
+      expect(encoded[11]).toContain('`a  b c`');
+      expect(encoded[12].endsWith('hard  break  ')).toBe(true);
+      expect(ws.decode(Buffer.from(encoded.join('\n')))).toEqual(fill);
+    });
+
+    it('should never create hard line breaks', () => {
+      const fill = Buffer.alloc(ws.calculateCapacity(cover), 0x00);
+      const encoded = ws.encode(fill, cover).toString();
+
+      expect(encoded).not.toMatch(/ {2}\n/);
+    });
+  });
+
+  describe('capacity', () => {
+    it('should count gaps and terminated lines', () => {
+      const { gaps, lines } = ws.countSlots(Buffer.from('one two three\nfour five\nsix seven'));
+
+      expect(gaps).toBe(4);
+      expect(lines).toBe(2);
+      expect(ws.countSlots(cover).lines).toBe(24);
+      expect(ws.calculateCapacity(cover)).toBe(Math.floor((ws.countSlots(cover).gaps + 24 * 8) / 8) - 4);
+    });
+
+    it('should reject payloads over capacity', () => {
+      expect(() => ws.encode(Buffer.from('too long'), Buffer.from('a b c\n')))
+        .toThrow('Cover media too small');
+    });
+
+    it('should have no capacity in pure whitespace', () => {
+      expect(ws.calculateCapacity(Buffer.from(' \t\n  \n\t'))).toBe(0);
+    });
+  });
+
+  describe('invalid input', () => {
+    it('should reject covers that are not valid UTF-8', () => {
+      const binary = Buffer.from([0x68, 0x69, 0x20, 0xC3, 0x28, 0x20, 0x78]);
+
+      expect(ws.calculateCapacity(binary)).toBe(0);
+      expect(() => ws.encode(Buffer.from('x'), binary)).toThrow('not valid UTF-8');
+    });
+
+    it('should fail to decode text without enough slots', () => {
+      expect(() => ws.decode(Buffer.from('too short'))).toThrow('Data too small');
+    });
+
+    it('should validate bitsPerLine', () => {
+      expect(() => new WhitespaceAlgorithm({ config: { bitsPerLine: -1 } }))
+        .toThrow('Invalid bitsPerLine');
+    });
+  });
+
+  describe('with StegEngine', () => {
+    it('should hide payloads in text by name', () => {
+      const engine = new StegEngine({ algorithm: 'whitespace', coverMedia: [cover] });
+
+      const result = engine.encode(Buffer.from('hi'));
+
+      expect(result.success).toBe(true);
+      expect(rendered(result.data.toString())).toBe(prose);
+      expect(engine.decode(result.data).data.toString()).toBe('hi');
+      expect(engine.probe(result.data).algorithm).toBe('whitespace');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { ZeroWidthAlgorithm, createZeroWidthAlgorithm } from '../src/algorithms/zero-width';
+import { StegEngine } from '../src/core/steg-engine';
+
+/**
+ * Text as it renders: with the zero-width characters removed
+ */
+function visible(text: string): string {
+  return text.replace(/[\u200B\u200C\u200D\u2060]/g, '');
+}
+
+describe('ZeroWidthAlgorithm', () => {
+  const prose = 'Large language models generate text one token at a time. ' +
+    'Each response is a fresh, natural cover for hidden data, and nobody ' +
+    'reading it will notice anything unusual about the words on screen.';
+  const cover = Buffer.from(prose);
+
+  let zw: ZeroWidthAlgorithm;
+
+  beforeEach(() => {
+    zw = new ZeroWidthAlgorithm();
+  });
+
+  describe('encode/decode roundtrip', () => {
+    it('should round-trip and leave the visible text unchanged', () => {
+      const encoded = zw.encode(Buffer.from('secret'), cover);
+
+      expect(zw.decode(encoded).toString()).toBe('secret');
+      expect(visible(encoded.toString('utf8'))).toBe(prose);
+      expect(encoded.length).toBeGreaterThan(cover.length);
+    });
+
+    it('should produce valid UTF-8', () => {
+      const encoded = zw.encode(Buffer.from([0x00, 0xFF, 0x80, 0x7F]), cover);
+
+      expect(Buffer.from(encoded.toString('utf8'), 'utf8')).toEqual(encoded);
+    });
+
+    it('should place characters only at the ends of words', () => {
+      const encoded = zw.encode(Buffer.from('hi'), Buffer.from('one two three four five six'));
+      const text = encoded.toString('utf8');
+
+      expect(text).toMatch(/^one[\u200B-\u200D\u2060]+ two[\u200B-\u200D\u2060]+ three/);
+      expect(text.split(' ').every((word) => /^[a-z]+[\u200B-\u200D\u2060]*$/.test(word))).toBe(true);
+    });
+
+    it('should handle multibyte text, emoji and trailing words', () => {
+      const text = 'Grüße aus Köln 👨\u200D👩\u200D👧 Familie 日本語 テキスト end';
+      const encoded = zw.encode(Buffer.from('ok'), Buffer.from(text));
+
+      expect(zw.decode(encoded).toString()).toBe('ok');
+      expect(encoded.toString('utf8').replace(/(?<=\S)[\u200B\u200C\u200D\u2060]+(?=\s|$)/g, '')).toBe(text);
+    });
+
+    it('should overwrite zero-width characters already at boundaries', () => {
+      const dirty = Buffer.from('alpha\u200D beta\u200B\u200B gamma delta epsilon zeta eta theta');
+      const encoded = zw.encode(Buffer.from('re'), dirty);
+
+      expect(zw.decode(encoded).toString()).toBe('re');
+    });
+
+    it('should peek at the leading payload bytes', () => {
+      const encoded = zw.encode(Buffer.from('header+body'), cover);
+
+      expect(zw.peek(encoded, 6).toString()).toBe('header');
+    });
+  });
+
+  describe('capacity', () => {
+    it('should be computed from the number of word boundaries', () => {
+      expect(zw.countBoundaries(cover)).toBe(prose.split(' ').length);
+      expect(zw.calculateCapacity(cover)).toBe(Math.floor(prose.split(' ').length * 8 / 4) - 4);
+      expect(zw.calculateCapacity(Buffer.from('  \n\t '))).toBe(0);
+    });
+
+    it('should scale with symbolsPerBoundary', () => {
+      const dense = createZeroWidthAlgorithm({ config: { symbolsPerBoundary: 16 } });
+
+      expect(dense.calculateCapacity(cover)).toBe(Math.floor(prose.split(' ').length * 16 / 4) - 4);
+      expect(zw.decode(dense.encode(Buffer.from('dense'), cover)).toString()).toBe('dense');
+    });
+
+    it('should reject payloads over capacity', () => {
+      expect(() => zw.encode(Buffer.from('too long'), Buffer.from('a b c')))
+        .toThrow('Cover media too small');
+    });
+  });
+
+  describe('invalid input', () => {
+    it('should reject covers that are not valid UTF-8', () => {
+      const binary = Buffer.from([0x68, 0x69, 0x20, 0xC3, 0x28, 0x20, 0x78]);
+
+      expect(zw.calculateCapacity(binary)).toBe(0);
+      expect(zw.validateCover(binary)).toBe(false);
+      expect(() => zw.encode(Buffer.from('x'), binary)).toThrow('not valid UTF-8');
+    });
+
+    it('should fail to decode text without a payload', () => {
+      expect(() => zw.decode(cover)).toThrow('Data too small');
+    });
+
+    it('should validate symbolsPerBoundary', () => {
+      expect(() => new ZeroWidthAlgorithm({ config: { symbolsPerBoundary: 0 } }))
+        .toThrow('Invalid symbolsPerBoundary');
+    });
+  });
+
+  describe('with StegEngine', () => {
+    it('should hide payloads in LLM text chunks by name', () => {
+      const engine = new StegEngine({ algorithm: 'zero-width', coverMedia: [cover] });
+
+      const result = engine.encode(Buffer.from('hidden'));
+
+      expect(result.success).toBe(true);
+      expect(visible(result.data.toString('utf8'))).toBe(prose);
+      expect(engine.decode(result.data).data.toString()).toBe('hidden');
+      expect(engine.probe(result.data).algorithm).toBe('zero-width');
+    });
+  });
+});
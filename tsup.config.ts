@@ -6,6 +6,7 @@ export default defineConfig({
     'adapters/index': 'src/adapters/index.ts',
     'algorithms/index': 'src/algorithms/index.ts',
     'llm/index': 'src/llm/index.ts',
+    'analysis/index': 'src/analysis/index.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,